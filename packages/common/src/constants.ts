@@ -0,0 +1,77 @@
+/**
+ * Shared constants for shared-things
+ */
+
+import type {
+	ProjectRole,
+	RemoteDeleteAction,
+	TodoField,
+	TodoWhen,
+} from "./types.js";
+
+/** Project that pre-multi-project data and unprefixed routes belong to */
+export const DEFAULT_PROJECT_ID = "default";
+
+/**
+ * Wire protocol spoken by this release. Bump it when a change breaks older
+ * daemons or servers; v1 and v2 were the pre-negotiation formats.
+ */
+export const PROTOCOL_VERSION = 4;
+
+/** Oldest daemon protocol the server still accepts */
+export const MIN_PROTOCOL_VERSION = 4;
+
+/** Request header carrying the daemon's protocol version */
+export const PROTOCOL_HEADER = "x-shared-things-protocol";
+
+/** Things "When" lists, in the order Things shows them */
+export const TODO_WHENS: readonly TodoWhen[] = [
+	"today",
+	"evening",
+	"anytime",
+	"someday",
+];
+
+/** Valid values of the daemon's remoteDeleteAction setting */
+export const REMOTE_DELETE_ACTIONS: readonly RemoteDeleteAction[] = [
+	"trash",
+	"cancel",
+	"ask",
+];
+
+/** Project roles, from most to least privileged */
+export const PROJECT_ROLES: readonly ProjectRole[] = [
+	"owner",
+	"editor",
+	"viewer",
+];
+
+/**
+ * Fields a project can make personal: each member's value is stored
+ * separately and only synced to their own Things
+ */
+export const PRIVATE_TODO_FIELDS: readonly TodoField[] = [
+	"when",
+	"startDate",
+	"deadline",
+	"tags",
+];
+
+/** Every independently merged todo field */
+export const TODO_FIELDS: readonly TodoField[] = [
+	"title",
+	"notes",
+	"when",
+	"startDate",
+	"deadline",
+	"tags",
+	"status",
+	"position",
+	"headingId",
+];
+
+/** Path of invite links: `<server URL>/invite/<token>` */
+export const INVITE_PATH = "/invite/";
+
+/** Largest page the server returns from GET /state and GET /delta */
+export const MAX_PAGE_LIMIT = 1000;
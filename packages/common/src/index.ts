@@ -1,3 +1,6 @@
+// Constants
+export * from "./constants.js";
+
 // Types
 export * from "./types.js";
 
@@ -6,6 +6,30 @@
 // Core Entities
 // =============================================================================
 
+/** Todo fields that are merged independently during sync */
+export type TodoField =
+	| "title"
+	| "notes"
+	| "when"
+	| "startDate"
+	| "deadline"
+	| "tags"
+	| "status"
+	| "position"
+	| "headingId";
+
+/** Things "When" list a todo sits in */
+export type TodoWhen = "today" | "evening" | "anytime" | "someday";
+
+/**
+ * What a project member may do: viewers only read, editors also push and
+ * restore, owners may also reset the server data
+ */
+export type ProjectRole = "owner" | "editor" | "viewer";
+
+/** Client edit timestamp (ISO 8601) per field */
+export type FieldTimestamps = Partial<Record<TodoField, string>>;
+
 export interface Todo {
 	/** Server-assigned unique ID */
 	id: string;
@@ -13,20 +37,71 @@ export interface Todo {
 	title: string;
 	/** Notes/description */
 	notes: string;
-	/** Due date (ISO 8601) */
-	dueDate: string | null;
+	/** Today, This Evening, Anytime or Someday */
+	when: TodoWhen;
+	/** Start date (YYYY-MM-DD) of a todo scheduled for later */
+	startDate: string | null;
+	/** Deadline (YYYY-MM-DD) */
+	deadline: string | null;
 	/** Tags (comma-separated in Things) */
 	tags: string[];
 	/** Status */
 	status: "open" | "completed" | "canceled";
 	/** Position within project for ordering */
 	position: number;
+	/** Server ID of the heading this todo is filed under */
+	headingId: string | null;
+	/** Client edit timestamp (ISO 8601), the latest of fieldEditedAt */
+	editedAt: string;
+	/** Per-field edit timestamps (missing fields fall back to editedAt) */
+	fieldEditedAt: FieldTimestamps;
+	/** Server update timestamp (ISO 8601) */
+	updatedAt: string;
+}
+
+export interface Heading {
+	/** Server-assigned unique ID */
+	id: string;
+	/** Heading title */
+	title: string;
+	/** Position within project for ordering */
+	position: number;
+	/** Client edit timestamp (ISO 8601) */
+	editedAt: string;
+	/** Server update timestamp (ISO 8601) */
+	updatedAt: string;
+}
+
+export interface ChecklistItem {
+	/** Server-assigned unique ID */
+	id: string;
+	/** Server ID of the todo this item belongs to */
+	todoId: string;
+	/** Item title */
+	title: string;
+	/** Whether the item is checked off */
+	completed: boolean;
+	/** Position within the todo's checklist */
+	position: number;
 	/** Client edit timestamp (ISO 8601) */
 	editedAt: string;
 	/** Server update timestamp (ISO 8601) */
 	updatedAt: string;
 }
 
+export interface Project {
+	/** Unique project ID */
+	id: string;
+	/** Display name */
+	name: string;
+	/** Todo fields each member keeps to themselves (see PRIVATE_TODO_FIELDS) */
+	privateFields: TodoField[];
+	/** Creation timestamp */
+	createdAt: string;
+	/** The caller's role (GET /projects) */
+	role?: ProjectRole;
+}
+
 export interface User {
 	/** Unique user ID */
 	id: string;
@@ -42,11 +117,35 @@ export interface User {
 // API Types
 // =============================================================================
 
+/** Response from GET /meta (no auth) */
+export interface ServerMeta {
+	/** Newest protocol the server speaks */
+	protocolVersion: number;
+	/** Oldest daemon protocol the server accepts */
+	minProtocolVersion: number;
+}
+
+/** Projects the authenticated user is a member of */
+export interface ProjectList {
+	projects: Project[];
+}
+
 /** Full project state for initial sync */
 export interface ProjectState {
 	todos: Todo[];
+	headings: Heading[];
+	checklistItems: ChecklistItem[];
 	/** Server timestamp for this state */
 	syncedAt: string;
+	/** Change sequence number this state includes, for GET /delta?cursor= */
+	cursor: number;
+	/** The caller's role in the project */
+	role?: ProjectRole;
+	/**
+	 * Paged requests only: pass as `after` to get the next page of todos;
+	 * missing on the last page. Continue with the first page's cursor.
+	 */
+	nextPage?: string;
 }
 
 /** Changes since last sync */
@@ -56,8 +155,24 @@ export interface SyncDelta {
 		upserted: Todo[];
 		deleted: { serverId: string; deletedAt: string }[];
 	};
+	/** Headings that were added, modified or deleted */
+	headings: {
+		upserted: Heading[];
+		deleted: { serverId: string; deletedAt: string }[];
+	};
+	/** Checklist items that were added, modified or deleted */
+	checklistItems: {
+		upserted: ChecklistItem[];
+		deleted: { serverId: string; deletedAt: string }[];
+	};
 	/** Server timestamp for this delta */
 	syncedAt: string;
+	/** Change sequence number to pass as the next cursor */
+	cursor: number;
+	/** Paged requests only: more changes follow after `cursor` */
+	hasMore?: boolean;
+	/** The caller's role in the project */
+	role?: ProjectRole;
 }
 
 /** Todo data for push request - includes optional serverId for updates */
@@ -68,10 +183,51 @@ export interface PushTodo {
 	clientId?: string;
 	title: string;
 	notes: string;
-	dueDate: string | null;
+	when: TodoWhen;
+	startDate: string | null;
+	deadline: string | null;
 	tags: string[];
 	status: "open" | "completed" | "canceled";
 	position: number;
+	/** Heading server ID (null = no heading, omit to keep the current one) */
+	headingId?: string | null;
+	/** Client ID of a heading created in the same push */
+	headingClientId?: string;
+	/** Client edit timestamp */
+	editedAt: string;
+	/**
+	 * Fields edited locally since the last sync and when. Only these fields
+	 * are merged into an existing todo; omit to treat every field as edited
+	 * at editedAt.
+	 */
+	fieldEditedAt?: FieldTimestamps;
+}
+
+/** Heading data for push request */
+export interface PushHeading {
+	/** Server ID (include for updates, omit for new items) */
+	serverId?: string;
+	/** Client-local ID for mapping (not stored on server) */
+	clientId?: string;
+	title: string;
+	position: number;
+	/** Client edit timestamp */
+	editedAt: string;
+}
+
+/** Checklist item data for push request */
+export interface PushChecklistItem {
+	/** Server ID (include for updates, omit for new items) */
+	serverId?: string;
+	/** Client-local ID for mapping (not stored on server) */
+	clientId?: string;
+	/** Server ID of the parent todo */
+	todoServerId?: string;
+	/** Client ID of a parent todo created in the same push */
+	todoClientId?: string;
+	title: string;
+	completed: boolean;
+	position: number;
 	/** Client edit timestamp */
 	editedAt: string;
 }
@@ -82,43 +238,179 @@ export interface PushRequest {
 		upserted: PushTodo[];
 		deleted: { serverId: string; deletedAt: string }[];
 	};
-	/** Client's last known sync timestamp */
-	lastSyncedAt: string;
+	/** Heading changes (optional for older clients) */
+	headings?: {
+		upserted: PushHeading[];
+		deleted: { serverId: string; deletedAt: string }[];
+	};
+	/** Checklist item changes (optional for older clients) */
+	checklistItems?: {
+		upserted: PushChecklistItem[];
+		deleted: { serverId: string; deletedAt: string }[];
+	};
+	/** Client's last known sync timestamp (ignored, sent by older clients) */
+	lastSyncedAt?: string;
+	/** Send the whole project state back in the response */
+	includeState?: boolean;
 }
 
 /** Response from push */
 export interface PushResponse {
-	/** Server's current state after applying changes */
-	state: ProjectState;
+	/** Server's current state after applying changes, if includeState was set */
+	state?: ProjectState;
 	/** Conflicts that occurred (for logging/debugging) */
 	conflicts: Conflict[];
 	/** Server ID mappings for newly created todos */
 	mappings?: { serverId: string; clientId: string }[];
+	/** Heading conflicts */
+	headingConflicts?: HeadingConflict[];
+	/** Server ID mappings for newly created headings */
+	headingMappings?: { serverId: string; clientId: string }[];
+	/** Checklist item conflicts */
+	checklistConflicts?: ChecklistItemConflict[];
+	/** Server ID mappings for newly created checklist items */
+	checklistMappings?: { serverId: string; clientId: string }[];
 }
 
 export interface Conflict {
 	serverId: string;
 	reason: string;
+	/** Edited fields that lost to a newer remote edit (field-level merges) */
+	fields?: TodoField[];
 	serverTodo: Todo | null;
 	clientTodo?: PushTodo;
 	clientDeletedAt?: string;
 }
 
+export interface HeadingConflict {
+	serverId: string;
+	reason: string;
+	serverHeading: Heading | null;
+	clientHeading?: PushHeading;
+	clientDeletedAt?: string;
+}
+
+export interface ChecklistItemConflict {
+	serverId: string;
+	reason: string;
+	serverItem: ChecklistItem | null;
+	clientItem?: PushChecklistItem;
+	clientDeletedAt?: string;
+}
+
+/** Todo contents recorded in a revision */
+export type TodoSnapshot = Pick<Todo, TodoField>;
+
+/** One entry of a todo's revision log */
+export interface TodoRevision {
+	id: string;
+	action: "created" | "updated" | "deleted";
+	/** Todo contents after the change (null for deletions) */
+	todo: TodoSnapshot | null;
+	/** Client timestamp of the edit or deletion */
+	editedAt: string;
+	/** Server timestamp when the revision was recorded */
+	recordedAt: string;
+	user: { id: string; name: string };
+}
+
+/** Response from GET /todos/:id/history, oldest revision first */
+export interface TodoHistory {
+	todoId: string;
+	revisions: TodoRevision[];
+}
+
+/** Content kept with a deleted todo's tombstone so it can be restored */
+export interface TodoTombstone {
+	todo: TodoSnapshot;
+	checklistItems: Pick<
+		ChecklistItem,
+		"id" | "title" | "completed" | "position"
+	>[];
+}
+
+/** A restorable deleted todo, from GET /todos/deleted */
+export interface DeletedTodo extends TodoTombstone {
+	id: string;
+	/** Client timestamp of the deletion */
+	deletedAt: string;
+	deletedBy: { id: string; name: string };
+}
+
+/** Response from GET /todos/deleted, most recently deleted first */
+export interface DeletedTodoList {
+	todos: DeletedTodo[];
+}
+
+/** A tag used in a project, from GET /tags */
+export interface ProjectTag {
+	name: string;
+	/** Number of todos carrying the tag */
+	todoCount: number;
+}
+
+/** Response from GET /tags, sorted by name */
+export interface TagList {
+	tags: ProjectTag[];
+}
+
+/** Body of POST /enroll (no auth): trades an invite for an account */
+export interface EnrollRequest {
+	/** Token from the invite link */
+	token: string;
+	/** Username for the new account */
+	name: string;
+}
+
+/** Response from POST /enroll */
+export interface EnrollResponse {
+	user: { id: string; name: string };
+	/** The new user's API key; only returned here */
+	apiKey: string;
+	/** The project the invite was for, with the user's role */
+	project: Project;
+}
+
+/** Sent on GET /events whenever a project's data changes */
+export interface ProjectChangeEvent {
+	projectId: string;
+	/** Server timestamp of the change */
+	changedAt: string;
+}
+
 // =============================================================================
 // Daemon Config
 // =============================================================================
 
+/** Links a local Things project to a server project */
+export interface ProjectMapping {
+	/** Things project name to sync */
+	thingsProjectName: string;
+	/** Server project ID */
+	serverProjectId: string;
+	/** Server project name (for display) */
+	serverProjectName: string;
+}
+
+/**
+ * What the daemon does with a todo another member deleted: move it to the
+ * Trash, mark it canceled, or keep it until the user decides
+ */
+export type RemoteDeleteAction = "trash" | "cancel" | "ask";
+
 export interface DaemonConfig {
 	/** Server URL (e.g., https://things.example.com) */
 	serverUrl: string;
 	/** User's API key */
 	apiKey: string;
-	/** Things project name to sync */
-	projectName: string;
+	/** Things projects to sync and the server projects they map to */
+	projects: ProjectMapping[];
 	/** Polling interval in seconds */
 	pollInterval: number;
 	/** Things URL Scheme auth token (from Things → Settings → General → Things URLs) */
 	thingsAuthToken: string;
+	/** Handling of todos deleted by other members (default "trash") */
+	remoteDeleteAction?: RemoteDeleteAction;
 }
 
 // =============================================================================
@@ -2,7 +2,8 @@
  * Validation utilities
  */
 
-import type { PushRequest, Todo } from "./types.js";
+import { TODO_WHENS } from "./constants.js";
+import type { PushRequest, Todo, TodoWhen } from "./types.js";
 
 export function isValidTodo(obj: unknown): obj is Partial<Todo> {
 	if (typeof obj !== "object" || obj === null) return false;
@@ -15,6 +16,12 @@ export function isValidTodo(obj: unknown): obj is Partial<Todo> {
 		!["open", "completed", "canceled"].includes(todo.status as string)
 	)
 		return false;
+	if (todo.when !== undefined && !TODO_WHENS.includes(todo.when as TodoWhen))
+		return false;
+	for (const date of [todo.startDate, todo.deadline]) {
+		if (date !== undefined && date !== null && typeof date !== "string")
+			return false;
+	}
 	if (todo.tags !== undefined && !Array.isArray(todo.tags)) return false;
 
 	return true;
@@ -24,7 +31,8 @@ export function isValidPushRequest(obj: unknown): obj is PushRequest {
 	if (typeof obj !== "object" || obj === null) return false;
 	const req = obj as Record<string, unknown>;
 
-	if (typeof req.lastSyncedAt !== "string") return false;
+	if (req.lastSyncedAt !== undefined && typeof req.lastSyncedAt !== "string")
+		return false;
 	if (typeof req.todos !== "object" || req.todos === null) return false;
 
 	return true;
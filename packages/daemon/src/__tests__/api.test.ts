@@ -0,0 +1,74 @@
+/**
+ * ApiClient tests against a server that rate limits
+ */
+
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { ApiClient, ApiRequestError } from "../api.js";
+
+describe("ApiClient", () => {
+	let server: http.Server;
+
+	afterEach(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	/** Answers 429 with `retryAfter` to the first request, then an empty delta */
+	async function serveLimited(retryAfter: string) {
+		const requests: string[] = [];
+		server = http.createServer((request, response) => {
+			requests.push(request.url ?? "");
+			response.setHeader("Content-Type", "application/json");
+			if (requests.length === 1) {
+				response.writeHead(429, { "Retry-After": retryAfter });
+				response.end(
+					JSON.stringify({ error: "Too many requests", code: "RATE_LIMITED" }),
+				);
+				return;
+			}
+			response.end(
+				JSON.stringify({
+					todos: { upserted: [], deleted: [] },
+					headings: { upserted: [], deleted: [] },
+					checklistItems: { upserted: [], deleted: [] },
+					syncedAt: new Date().toISOString(),
+					cursor: 7,
+				}),
+			);
+		});
+		await new Promise<void>((resolve) =>
+			server.listen(0, "127.0.0.1", resolve),
+		);
+		const { port } = server.address() as AddressInfo;
+		return {
+			api: new ApiClient(`http://127.0.0.1:${port}`, "key"),
+			requests,
+		};
+	}
+
+	it("should wait out a short Retry-After on pull and try again", async () => {
+		const { api, requests } = await serveLimited("1");
+		const started = Date.now();
+
+		const delta = await api.getDelta("default", 0);
+
+		expect(delta.cursor).toBe(7);
+		expect(requests).toHaveLength(2);
+		expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+	});
+
+	it("should fail with the wait when Retry-After is long", async () => {
+		const { api, requests } = await serveLimited("600");
+
+		const error = await api.getDelta("default", 0).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ApiRequestError);
+		expect(error).toMatchObject({
+			status: 429,
+			code: "RATE_LIMITED",
+			retryAfterMs: 600_000,
+		});
+		expect(requests).toHaveLength(1);
+	});
+});
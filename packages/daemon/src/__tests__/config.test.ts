@@ -0,0 +1,77 @@
+/**
+ * Config and secret storage tests
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { DaemonConfig } from "@shared-things/common";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadConfig, saveConfig, useSecretStore } from "../config.js";
+import { createFileStore, createMemoryStore } from "../secrets.js";
+
+const CONFIG: DaemonConfig = {
+	serverUrl: "https://things.example.com",
+	apiKey: "secret-api-key",
+	projects: [],
+	pollInterval: 30,
+	thingsAuthToken: "secret-things-token",
+};
+
+describe("config", () => {
+	let home: string;
+	let previousHome: string | undefined;
+
+	beforeEach(() => {
+		home = path.join(
+			os.tmpdir(),
+			`shared-things-config-${crypto.randomUUID()}`,
+		);
+		previousHome = process.env.SHARED_THINGS_HOME;
+		process.env.SHARED_THINGS_HOME = home;
+		useSecretStore(createMemoryStore());
+	});
+
+	afterEach(() => {
+		useSecretStore(null);
+		if (previousHome === undefined) {
+			delete process.env.SHARED_THINGS_HOME;
+		} else {
+			process.env.SHARED_THINGS_HOME = previousHome;
+		}
+		fs.rmSync(home, { recursive: true, force: true });
+	});
+
+	function readConfigFile() {
+		return fs.readFileSync(path.join(home, "config.json"), "utf-8");
+	}
+
+	it("should keep secrets out of config.json", () => {
+		saveConfig(CONFIG);
+
+		expect(readConfigFile()).not.toContain("secret-");
+		expect(loadConfig()).toEqual(CONFIG);
+	});
+
+	it("should move secrets out of configs that hold them in plaintext", () => {
+		fs.mkdirSync(home, { recursive: true });
+		fs.writeFileSync(path.join(home, "config.json"), JSON.stringify(CONFIG));
+
+		expect(loadConfig()).toEqual(CONFIG);
+		expect(readConfigFile()).not.toContain("secret-");
+		expect(loadConfig()).toEqual(CONFIG);
+	});
+
+	it("should only let the user read the secrets file", () => {
+		fs.mkdirSync(home, { recursive: true });
+		const filePath = path.join(home, "secrets.json");
+		const store = createFileStore(filePath);
+
+		store.set("apiKey", "secret-api-key");
+
+		expect(store.get("apiKey")).toBe("secret-api-key");
+		expect(store.get("thingsAuthToken")).toBeNull();
+		expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+	});
+});
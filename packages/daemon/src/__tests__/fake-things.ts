@@ -0,0 +1,166 @@
+/**
+ * In-memory stand-in for Things
+ *
+ * Writes behave like the URL scheme and reads like AppleScript, so sync runs
+ * without macOS. Tests play the user through add/edit/remove.
+ */
+
+import type {
+	NewThingsTodo,
+	ThingsAdapter,
+	ThingsChecklistItem,
+	ThingsTodo,
+	ThingsTodoUpdate,
+} from "../things.js";
+
+interface StoredTodo extends ThingsTodo {
+	project: string;
+}
+
+export class FakeThings implements ThingsAdapter {
+	private todos: StoredTodo[] = [];
+	private tags = new Set<string>();
+	private nextId = 1;
+
+	async getTodosFromProject(projectName: string): Promise<ThingsTodo[]> {
+		return this.todos
+			.filter((todo) => todo.project === projectName)
+			.map(({ project: _, ...todo }) => ({
+				...structuredClone(todo),
+				// AppleScript can't see This Evening
+				when: todo.when === "evening" ? "today" : todo.when,
+			}));
+	}
+
+	async createTodo(
+		projectName: string,
+		todo: NewThingsTodo,
+	): Promise<ThingsTodo> {
+		const { thingsId } = this.add(projectName, {
+			title: todo.title,
+			notes: todo.notes ?? "",
+			when: todo.startDate ? "anytime" : (todo.when ?? "anytime"),
+			startDate: todo.startDate ?? null,
+			deadline: todo.deadline ?? null,
+			tags: this.knownTags(todo.tags ?? []),
+			status: todo.status ?? "open",
+			heading: todo.heading ?? null,
+		});
+		const created = (await this.getTodosFromProject(projectName)).find(
+			(t) => t.thingsId === thingsId,
+		);
+		if (!created) throw new Error(`Created todo ${thingsId} is missing`);
+		return created;
+	}
+
+	async updateTodo(thingsId: string, updates: ThingsTodoUpdate): Promise<void> {
+		const todo = this.get(thingsId);
+		if (updates.title !== undefined) todo.title = updates.title;
+		if (updates.notes !== undefined) todo.notes = updates.notes;
+		if (updates.startDate) {
+			todo.when = "anytime";
+			todo.startDate = updates.startDate;
+		} else if (updates.when !== undefined) {
+			todo.when = updates.when;
+			todo.startDate = null;
+		}
+		if (updates.deadline !== undefined) todo.deadline = updates.deadline;
+		if (updates.tags !== undefined) todo.tags = this.knownTags(updates.tags);
+		if (updates.completed) {
+			todo.status = "completed";
+		} else if (updates.canceled) {
+			todo.status = "canceled";
+		} else if (updates.completed === false || updates.canceled === false) {
+			todo.status = "open";
+		}
+		if (updates.list !== undefined) {
+			todo.project = updates.list;
+			todo.heading = updates.heading ?? null;
+		}
+	}
+
+	async setChecklistItems(
+		thingsId: string,
+		items: ThingsChecklistItem[],
+	): Promise<void> {
+		this.get(thingsId).checklistItems = structuredClone(items);
+	}
+
+	async ensureTags(names: string[]): Promise<void> {
+		this.addTags(names);
+	}
+
+	async trashTodo(thingsId: string): Promise<void> {
+		this.remove(thingsId);
+	}
+
+	async moveTodo(
+		thingsId: string,
+		placement: "before" | "after",
+		anchorId: string,
+	): Promise<void> {
+		const todo = this.get(thingsId);
+		this.todos = this.todos.filter((t) => t !== todo);
+		const anchor = this.todos.indexOf(this.get(anchorId));
+		this.todos.splice(placement === "before" ? anchor : anchor + 1, 0, todo);
+	}
+
+	close(): void {}
+
+	/** Tags Things knows, as listed in its sidebar */
+	tagNames(): string[] {
+		return [...this.tags];
+	}
+
+	/** Add a todo to the end of a project, as the user would */
+	add(
+		projectName: string,
+		todo: Partial<Omit<ThingsTodo, "thingsId">> & { title: string },
+	): ThingsTodo {
+		const stored: StoredTodo = {
+			thingsId: `fake-${this.nextId++}`,
+			notes: "",
+			when: "anytime",
+			startDate: null,
+			deadline: null,
+			tags: [],
+			status: "open",
+			heading: null,
+			checklistItems: [],
+			...todo,
+			project: projectName,
+		};
+		this.addTags(stored.tags);
+		this.todos.push(stored);
+		return stored;
+	}
+
+	/** Change a todo in place, as the user would */
+	edit(thingsId: string, changes: Partial<Omit<ThingsTodo, "thingsId">>): void {
+		Object.assign(this.get(thingsId), changes);
+		this.addTags(changes.tags ?? []);
+	}
+
+	remove(thingsId: string): void {
+		this.todos = this.todos.filter((todo) => todo.thingsId !== thingsId);
+	}
+
+	find(title: string): ThingsTodo | undefined {
+		return this.todos.find((todo) => todo.title === title);
+	}
+
+	private addTags(names: string[]): void {
+		for (const name of names) this.tags.add(name);
+	}
+
+	/** Like Things, drop tags that don't exist yet */
+	private knownTags(names: string[]): string[] {
+		return names.filter((name) => this.tags.has(name));
+	}
+
+	private get(thingsId: string): StoredTodo {
+		const todo = this.todos.find((t) => t.thingsId === thingsId);
+		if (!todo) throw new Error(`No todo with id ${thingsId}`);
+		return todo;
+	}
+}
@@ -0,0 +1,45 @@
+/**
+ * Keychain store tests (a recorder stands in for the security CLI)
+ */
+
+import { describe, expect, it } from "vitest";
+import { createKeychainStore, type SecurityCommand } from "../secrets.js";
+
+describe("createKeychainStore", () => {
+	function recordCalls() {
+		const calls: { args: string[]; input?: string }[] = [];
+		const security: SecurityCommand = (args, input) => {
+			calls.push({ args, input });
+			return { status: 0, stdout: "", stderr: "" };
+		};
+		return { calls, store: createKeychainStore(security) };
+	}
+
+	it("should pass secrets on stdin, never as arguments", () => {
+		const { calls, store } = recordCalls();
+		const secret = 'sk_"quoted"\\key';
+
+		store.set("apiKey", secret);
+
+		expect(calls).toHaveLength(1);
+		expect(calls[0].args.join(" ")).not.toContain("sk_");
+		expect(calls[0].input).toContain('-w" "sk_\\"quoted\\"\\\\key"');
+	});
+
+	it("should refuse secrets that would end the command line", () => {
+		const { calls, store } = recordCalls();
+
+		expect(() => store.set("apiKey", "sk_abc\nquit")).toThrow("line breaks");
+		expect(calls).toEqual([]);
+	});
+
+	it("should read missing items as null", () => {
+		const store = createKeychainStore(() => ({
+			status: 44,
+			stdout: "",
+			stderr: "The specified item could not be found in the keychain.",
+		}));
+
+		expect(store.get("apiKey")).toBeNull();
+	});
+});
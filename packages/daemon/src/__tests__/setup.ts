@@ -0,0 +1,113 @@
+/**
+ * Daemon test utilities
+ *
+ * Each test client is a daemon with its own config directory and an
+ * in-memory Things, syncing against a real test server.
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	type DaemonConfig,
+	DEFAULT_PROJECT_ID,
+	type ProjectMapping,
+} from "@shared-things/common";
+import type { TestContext } from "../../../server/src/__tests__/setup.js";
+import { getStatePath, saveConfig, useSecretStore } from "../config.js";
+import { createMemoryStore } from "../secrets.js";
+import { runSync } from "../sync.js";
+import { FakeThings } from "./fake-things.js";
+
+// Keep test API keys out of the developer's Keychain
+useSecretStore(createMemoryStore());
+
+/**
+ * Points config, state and logs at another directory until the returned
+ * function is called
+ */
+function enterHome(home: string): () => void {
+	const previous = process.env.SHARED_THINGS_HOME;
+	process.env.SHARED_THINGS_HOME = home;
+	return () => {
+		if (previous === undefined) {
+			delete process.env.SHARED_THINGS_HOME;
+		} else {
+			process.env.SHARED_THINGS_HOME = previous;
+		}
+	};
+}
+
+export const PROJECT_NAME = "Shared";
+
+/** The project every test client syncs */
+export const PROJECT: ProjectMapping = {
+	thingsProjectName: PROJECT_NAME,
+	serverProjectId: DEFAULT_PROJECT_ID,
+	serverProjectName: DEFAULT_PROJECT_ID,
+};
+
+export interface TestClient {
+	things: FakeThings;
+	sync: () => ReturnType<typeof runSync>;
+	/** Runs a CLI action as this client */
+	run: <T>(action: () => T | Promise<T>) => Promise<T>;
+	cleanup: () => void;
+}
+
+/**
+ * Creates a daemon for a test user, configured to sync PROJECT_NAME with
+ * the server's default project
+ */
+export function createTestClient(
+	ctx: TestContext,
+	apiKey: string,
+	config: Partial<DaemonConfig> = {},
+): TestClient {
+	const home = path.join(
+		os.tmpdir(),
+		`shared-things-daemon-test-${crypto.randomUUID()}`,
+	);
+	const things = new FakeThings();
+
+	const leave = enterHome(home);
+	try {
+		saveConfig({
+			serverUrl: ctx.baseUrl,
+			apiKey,
+			projects: [PROJECT],
+			pollInterval: 30,
+			thingsAuthToken: "test-token",
+			...config,
+		});
+		// Same empty state "shared-things init" writes
+		fs.writeFileSync(
+			getStatePath(DEFAULT_PROJECT_ID),
+			JSON.stringify({
+				cursor: 0,
+				todos: {},
+				serverIdToThingsId: {},
+				dirty: { upserted: [], deleted: {} },
+			}),
+		);
+	} finally {
+		leave();
+	}
+
+	const run = async <T>(action: () => T | Promise<T>): Promise<T> => {
+		const leave = enterHome(home);
+		try {
+			return await action();
+		} finally {
+			leave();
+		}
+	};
+
+	return {
+		things,
+		sync: () => run(() => runSync({ things })),
+		run,
+		cleanup: () => fs.rmSync(home, { recursive: true, force: true }),
+	};
+}
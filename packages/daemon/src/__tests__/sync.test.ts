@@ -0,0 +1,535 @@
+/**
+ * Multi-client sync tests (in-memory Things against a real server)
+ */
+
+import type { DeletedTodoList } from "@shared-things/common";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	apiRequest,
+	createTestServer,
+	type TestContext,
+} from "../../../server/src/__tests__/setup.js";
+import { setProjectRole } from "../../../server/src/db.js";
+import { loadConfig, saveConfig } from "../config.js";
+import {
+	getUploadStatus,
+	listPendingDeletions,
+	resolvePendingDeletion,
+	runSync,
+} from "../sync.js";
+import {
+	createTestClient,
+	PROJECT,
+	PROJECT_NAME,
+	type TestClient,
+} from "./setup.js";
+
+describe("runSync", () => {
+	let ctx: TestContext;
+	let alice: TestClient;
+	let bob: TestClient;
+
+	beforeEach(async () => {
+		ctx = await createTestServer();
+		alice = createTestClient(ctx, ctx.userA.apiKey);
+		bob = createTestClient(ctx, ctx.userB.apiKey);
+	});
+
+	afterEach(async () => {
+		alice.cleanup();
+		bob.cleanup();
+		await ctx.cleanup();
+	});
+
+	/** Adds a todo on Alice's Mac and brings it to Bob's */
+	async function shareTodo(title: string) {
+		const todo = alice.things.add(PROJECT_NAME, { title });
+		await alice.sync();
+		await bob.sync();
+		const copy = bob.things.find(title);
+		if (!copy) throw new Error(`${title} did not reach Bob`);
+		return { aliceId: todo.thingsId, bobId: copy.thingsId };
+	}
+
+	async function titles(client: TestClient) {
+		const todos = await client.things.getTodosFromProject(PROJECT_NAME);
+		return todos.map((t) => t.title);
+	}
+
+	it("should bring a new todo to the other client", async () => {
+		alice.things.add(PROJECT_NAME, {
+			title: "Buy milk",
+			notes: "Oat",
+			when: "anytime",
+			startDate: "2026-01-08",
+			deadline: "2026-01-10",
+			tags: ["Errand"],
+		});
+
+		const pushed = await alice.sync();
+		const pulled = await bob.sync();
+
+		expect(pushed).toMatchObject({ pushed: 1, isFirstSync: true });
+		expect(pulled).toMatchObject({ pulled: 1 });
+		expect(await bob.things.getTodosFromProject(PROJECT_NAME)).toEqual([
+			expect.objectContaining({
+				title: "Buy milk",
+				notes: "Oat",
+				startDate: "2026-01-08",
+				deadline: "2026-01-10",
+				tags: ["Errand"],
+				status: "open",
+			}),
+		]);
+	});
+
+	it("should create many todos at once with full notes and status", async () => {
+		const notes = "Long notes. ".repeat(1000);
+		for (let i = 0; i < 50; i++) {
+			alice.things.add(PROJECT_NAME, {
+				title: `Todo ${i}`,
+				notes,
+				status: i % 10 === 0 ? "completed" : "open",
+			});
+		}
+		await alice.sync();
+
+		expect((await bob.sync()).pulled).toBe(50);
+		const todos = await bob.things.getTodosFromProject(PROJECT_NAME);
+		expect(todos).toHaveLength(50);
+		expect(todos.every((t) => t.notes === notes)).toBe(true);
+		expect(todos.filter((t) => t.status === "completed")).toHaveLength(5);
+		expect((await bob.sync()).pushed).toBe(0);
+	});
+
+	it("should pull projects larger than a page", async () => {
+		const ids = Array.from(
+			{ length: 501 },
+			(_, i) => alice.things.add(PROJECT_NAME, { title: `Todo ${i}` }).thingsId,
+		);
+		await alice.sync();
+
+		expect((await bob.sync()).pulled).toBe(501);
+		for (const thingsId of ids) {
+			alice.things.edit(thingsId, { notes: "Edited" });
+		}
+		await alice.sync();
+		expect((await bob.sync()).pulled).toBe(501);
+
+		const todos = await bob.things.getTodosFromProject(PROJECT_NAME);
+		expect(todos).toHaveLength(501);
+		expect(todos.every((t) => t.notes === "Edited")).toBe(true);
+	});
+
+	it("should keep todos with the same title apart", async () => {
+		const oat = alice.things.add(PROJECT_NAME, {
+			title: "Buy milk",
+			notes: "Oat",
+		});
+		alice.things.add(PROJECT_NAME, { title: "Buy milk", notes: "Soy" });
+		await alice.sync();
+		await bob.sync();
+
+		const soy = (await bob.things.getTodosFromProject(PROJECT_NAME)).find(
+			(t) => t.notes === "Soy",
+		);
+		if (!soy) throw new Error("Soy milk did not reach Bob");
+		bob.things.edit(soy.thingsId, { title: "Buy soy milk" });
+		expect((await bob.sync()).pushed).toBe(1);
+		await alice.sync();
+
+		expect(
+			(await alice.things.getTodosFromProject(PROJECT_NAME)).map((t) => [
+				t.title,
+				t.notes,
+			]),
+		).toEqual([
+			["Buy milk", "Oat"],
+			["Buy soy milk", "Soy"],
+		]);
+		expect(alice.things.find("Buy milk")?.thingsId).toBe(oat.thingsId);
+		expect((await alice.sync()).pushed).toBe(0);
+	});
+
+	it("should merge edits to different fields of the same todo", async () => {
+		const { aliceId, bobId } = await shareTodo("Call plumber");
+
+		alice.things.edit(aliceId, { title: "Call the plumber" });
+		await alice.sync();
+		bob.things.edit(bobId, { notes: "Kitchen sink" });
+		await bob.sync();
+		await alice.sync();
+
+		for (const client of [alice, bob]) {
+			expect(await client.things.getTodosFromProject(PROJECT_NAME)).toEqual([
+				expect.objectContaining({
+					title: "Call the plumber",
+					notes: "Kitchen sink",
+				}),
+			]);
+		}
+	});
+
+	it("should sync When scheduling separately from the deadline", async () => {
+		const { aliceId, bobId } = await shareTodo("File taxes");
+
+		alice.things.edit(aliceId, { when: "evening", deadline: "2026-04-15" });
+		await alice.sync();
+		await bob.sync();
+		// This Evening reads back as Today, which must not count as an edit
+		expect((await alice.sync()).pushed).toBe(0);
+
+		bob.things.edit(bobId, { when: "someday" });
+		await bob.sync();
+		await alice.sync();
+
+		expect(await bob.things.getTodosFromProject(PROJECT_NAME)).toEqual([
+			expect.objectContaining({ when: "someday", deadline: "2026-04-15" }),
+		]);
+		expect(await alice.things.getTodosFromProject(PROJECT_NAME)).toEqual([
+			expect.objectContaining({
+				when: "someday",
+				startDate: null,
+				deadline: "2026-04-15",
+			}),
+		]);
+	});
+
+	it("should create, replace and remove tags on the other client", async () => {
+		const { aliceId, bobId } = await shareTodo("Renew passport");
+
+		alice.things.edit(aliceId, { tags: ["Errand", "Urgent"] });
+		await alice.sync();
+		await bob.sync();
+
+		expect(bob.things.tagNames()).toEqual(["Errand", "Urgent"]);
+		expect(bob.things.find("Renew passport")?.tags).toEqual([
+			"Errand",
+			"Urgent",
+		]);
+
+		bob.things.edit(bobId, { tags: [] });
+		await bob.sync();
+		await alice.sync();
+
+		expect(alice.things.find("Renew passport")?.tags).toEqual([]);
+	});
+
+	it("should reorder todos on the other client", async () => {
+		const first = await shareTodo("First");
+		await shareTodo("Second");
+		const third = await shareTodo("Third");
+
+		await alice.things.moveTodo(third.aliceId, "before", first.aliceId);
+		expect((await alice.sync()).pushed).toBe(1);
+		await bob.sync();
+
+		expect(await titles(bob)).toEqual(["Third", "First", "Second"]);
+	});
+
+	it("should keep both moves when members reorder at the same time", async () => {
+		const first = await shareTodo("First");
+		const second = await shareTodo("Second");
+		const third = await shareTodo("Third");
+
+		await alice.things.moveTodo(third.aliceId, "before", first.aliceId);
+		await bob.things.moveTodo(second.bobId, "before", first.bobId);
+		await alice.sync();
+		await bob.sync();
+		await alice.sync();
+
+		expect(await titles(alice)).toEqual(await titles(bob));
+		expect((await titles(alice)).at(-1)).toBe("First");
+		expect((await alice.sync()).pushed).toBe(0);
+		expect((await bob.sync()).pushed).toBe(0);
+	});
+
+	it("should carry status and checklist changes", async () => {
+		const { aliceId, bobId } = await shareTodo("Pack bags");
+
+		alice.things.edit(aliceId, {
+			status: "completed",
+			checklistItems: [
+				{ title: "Passport", completed: true },
+				{ title: "Charger", completed: false },
+			],
+		});
+		await alice.sync();
+		await bob.sync();
+
+		expect(await bob.things.getTodosFromProject(PROJECT_NAME)).toEqual([
+			expect.objectContaining({
+				thingsId: bobId,
+				status: "completed",
+				checklistItems: [
+					{ title: "Passport", completed: true },
+					{ title: "Charger", completed: false },
+				],
+			}),
+		]);
+	});
+
+	it("should push todos deleted in Things as deletions", async () => {
+		const { aliceId } = await shareTodo("Old errand");
+
+		alice.things.remove(aliceId);
+		const result = await alice.sync();
+
+		expect(result.pushed).toBe(1);
+		const { data } = await apiRequest(ctx, "GET", "/todos/deleted", {
+			apiKey: ctx.userB.apiKey,
+		});
+		expect((data as DeletedTodoList).todos).toEqual([
+			expect.objectContaining({
+				todo: expect.objectContaining({ title: "Old errand" }),
+				deletedBy: expect.objectContaining({ name: "TestUserA" }),
+			}),
+		]);
+	});
+
+	it("should move todos deleted by others to the Trash", async () => {
+		const { aliceId } = await shareTodo("Old errand");
+
+		alice.things.remove(aliceId);
+		await alice.sync();
+		const pulled = await bob.sync();
+
+		expect(pulled.pulled).toBe(1);
+		expect(bob.things.find("Old errand")).toBeUndefined();
+		expect((await bob.sync()).pushed).toBe(0);
+	});
+
+	it("should cancel todos deleted by others when configured to", async () => {
+		bob.cleanup();
+		bob = createTestClient(ctx, ctx.userB.apiKey, {
+			remoteDeleteAction: "cancel",
+		});
+		const { aliceId } = await shareTodo("Old errand");
+
+		alice.things.remove(aliceId);
+		await alice.sync();
+		await bob.sync();
+
+		expect(bob.things.find("Old errand")?.status).toBe("canceled");
+		expect((await bob.sync()).pushed).toBe(0);
+	});
+
+	it("should keep todos deleted by others until the user decides", async () => {
+		bob.cleanup();
+		bob = createTestClient(ctx, ctx.userB.apiKey, {
+			remoteDeleteAction: "ask",
+		});
+		const { aliceId } = await shareTodo("Old errand");
+
+		alice.things.remove(aliceId);
+		await alice.sync();
+		const result = await bob.sync();
+
+		expect(result.pendingDeletions).toBe(1);
+		expect(bob.things.find("Old errand")).toBeDefined();
+		const [pending] = await bob.run(() => listPendingDeletions(PROJECT));
+		expect(pending).toMatchObject({ title: "Old errand" });
+
+		await bob.run(() =>
+			resolvePendingDeletion(PROJECT, pending.serverId, "trash", {
+				things: bob.things,
+			}),
+		);
+
+		expect(bob.things.find("Old errand")).toBeUndefined();
+		expect(await bob.run(() => listPendingDeletions(PROJECT))).toEqual([]);
+	});
+
+	it("should keep changes for a later upload while the server is unreachable", async () => {
+		const offline = createTestClient(ctx, ctx.userA.apiKey, {
+			serverUrl: "http://127.0.0.1:9",
+		});
+		try {
+			offline.things.add(PROJECT_NAME, { title: "Written offline" });
+
+			expect(await offline.sync()).toMatchObject({
+				pushed: 0,
+				uploadPending: 1,
+			});
+			const status = await offline.run(() => getUploadStatus(PROJECT));
+			expect(status.pending).toBe(1);
+			expect(status.failure).toMatchObject({ attempts: 1 });
+
+			await offline.run(() => {
+				const config = loadConfig();
+				if (config) saveConfig({ ...config, serverUrl: ctx.baseUrl });
+			});
+			// Still backing off, unless the user syncs by hand, but pulling
+			bob.things.add(PROJECT_NAME, { title: "Written meanwhile" });
+			await bob.sync();
+			expect(await offline.sync()).toMatchObject({
+				pushed: 0,
+				pulled: 1,
+				uploadPending: 1,
+			});
+			expect(offline.things.find("Written meanwhile")).toBeDefined();
+			expect(
+				await offline.run(() =>
+					runSync({ things: offline.things, retryNow: true }),
+				),
+			).toMatchObject({ pushed: 1, uploadPending: 0 });
+			expect(await offline.run(() => getUploadStatus(PROJECT))).toEqual({
+				pending: 0,
+				failure: undefined,
+				readOnly: false,
+				parked: [],
+			});
+
+			await bob.sync();
+			expect(bob.things.find("Written offline")).toBeDefined();
+		} finally {
+			offline.cleanup();
+		}
+	});
+
+	it("should keep a deletion waiting for upload when an older remote edit is pulled", async () => {
+		const { aliceId, bobId } = await shareTodo("Old errand");
+		const moveServer = (serverUrl: string) =>
+			bob.run(() => {
+				const config = loadConfig();
+				if (config) saveConfig({ ...config, serverUrl });
+			});
+		alice.things.edit(aliceId, { notes: "Before the deletion" });
+		await alice.sync();
+
+		await moveServer("http://127.0.0.1:9");
+		bob.things.remove(bobId);
+		expect(await bob.sync()).toMatchObject({ uploadPending: 1 });
+		await moveServer(ctx.baseUrl);
+		// Still backing off, but pulling Alice's edit
+		expect(await bob.sync()).toMatchObject({ pushed: 0, uploadPending: 1 });
+
+		expect(bob.things.find("Old errand")).toBeUndefined();
+		expect(
+			await bob.run(() => runSync({ things: bob.things, retryNow: true })),
+		).toMatchObject({ pushed: 1 });
+		await alice.sync();
+		expect(alice.things.find("Old errand")).toBeUndefined();
+	});
+
+	it("should hold back local changes while the user is a viewer", async () => {
+		await shareTodo("Existing");
+		setProjectRole(ctx.db, "default", ctx.userB.id, "viewer");
+		bob.things.add(PROJECT_NAME, { title: "Written by a viewer" });
+
+		expect(await bob.sync()).toMatchObject({ pushed: 0 });
+		expect(await bob.run(() => getUploadStatus(PROJECT))).toMatchObject({
+			pending: 1,
+			readOnly: true,
+		});
+		alice.things.add(PROJECT_NAME, { title: "Still arrives" });
+		await alice.sync();
+		await bob.sync();
+		expect(bob.things.find("Still arrives")).toBeDefined();
+		await alice.sync();
+		expect(alice.things.find("Written by a viewer")).toBeUndefined();
+
+		setProjectRole(ctx.db, "default", ctx.userB.id, "editor");
+		await bob.sync();
+		expect(await bob.sync()).toMatchObject({ pushed: 1 });
+		await alice.sync();
+		expect(alice.things.find("Written by a viewer")).toBeDefined();
+	});
+
+	it("should keep a viewer's deletion when an older remote edit is pulled", async () => {
+		const { aliceId, bobId } = await shareTodo("Old errand");
+		setProjectRole(ctx.db, "default", ctx.userB.id, "viewer");
+		alice.things.edit(aliceId, { notes: "Before the deletion" });
+		await alice.sync();
+
+		bob.things.remove(bobId);
+		await bob.sync();
+
+		expect(bob.things.find("Old errand")).toBeUndefined();
+		expect(await bob.run(() => getUploadStatus(PROJECT))).toMatchObject({
+			pending: 1,
+			readOnly: true,
+		});
+		setProjectRole(ctx.db, "default", ctx.userB.id, "editor");
+		await bob.sync();
+		expect(await bob.sync()).toMatchObject({ pushed: 1 });
+		await alice.sync();
+		expect(alice.things.find("Old errand")).toBeUndefined();
+	});
+});
+
+describe("runSync against a server with tight limits", () => {
+	let ctx: TestContext;
+	let alice: TestClient;
+	let bob: TestClient;
+
+	afterEach(async () => {
+		alice.cleanup();
+		bob.cleanup();
+		await ctx.cleanup();
+	});
+
+	async function serve(limits: Parameters<typeof createTestServer>[0]) {
+		ctx = await createTestServer(limits);
+		alice = createTestClient(ctx, ctx.userA.apiKey);
+		bob = createTestClient(ctx, ctx.userB.apiKey);
+	}
+
+	it("should upload more changes than the server takes in one push", async () => {
+		await serve({ maxPushItems: 2 });
+		for (let i = 1; i <= 5; i++) {
+			alice.things.add(PROJECT_NAME, { title: `Todo ${i}` });
+		}
+		const packing = alice.things.add(PROJECT_NAME, { title: "Pack bags" });
+		alice.things.edit(packing.thingsId, {
+			checklistItems: [
+				{ title: "Passport", completed: false },
+				{ title: "Charger", completed: false },
+				{ title: "Tickets", completed: false },
+			],
+		});
+
+		expect(await alice.sync()).toMatchObject({ pushed: 9, uploadPending: 0 });
+		await bob.sync();
+
+		expect(bob.things.find("Todo 5")).toBeDefined();
+		expect(bob.things.find("Pack bags")?.checklistItems).toEqual([
+			{ title: "Passport", completed: false },
+			{ title: "Charger", completed: false },
+			{ title: "Tickets", completed: false },
+		]);
+	});
+
+	it("should park a todo the server refuses and keep syncing the rest", async () => {
+		await serve({ maxFieldLength: 20 });
+		alice.things.add(PROJECT_NAME, { title: "Short" });
+		const long = alice.things.add(PROJECT_NAME, {
+			title: "Long",
+			notes: "x".repeat(21),
+		});
+
+		expect(await alice.sync()).toMatchObject({ pushed: 1 });
+		const status = await alice.run(() => getUploadStatus(PROJECT));
+		expect(status.pending).toBe(0);
+		expect(status.parked).toEqual([
+			expect.objectContaining({
+				title: "Long",
+				error: expect.stringContaining("Too long: notes"),
+			}),
+		]);
+		bob.things.add(PROJECT_NAME, { title: "From Bob" });
+		await bob.sync();
+		expect(await alice.sync()).toMatchObject({ pushed: 0, pulled: 1 });
+		expect(alice.things.find("From Bob")).toBeDefined();
+		expect(bob.things.find("Short")).toBeDefined();
+		expect(bob.things.find("Long")).toBeUndefined();
+
+		alice.things.edit(long.thingsId, { notes: "Fits now" });
+		expect(await alice.sync()).toMatchObject({ pushed: 1 });
+		expect((await alice.run(() => getUploadStatus(PROJECT))).parked).toEqual(
+			[],
+		);
+		await bob.sync();
+		expect(bob.things.find("Long")?.notes).toBe("Fits now");
+	});
+});
@@ -0,0 +1,46 @@
+/**
+ * Things bridge process tests (a Node script stands in for osascript)
+ */
+
+import { afterEach, describe, expect, it } from "vitest";
+import { ThingsBridge } from "../things-bridge.js";
+
+/**
+ * Answers its first batch with "ok" for every call, then stops reading
+ * stdin while staying alive, like a helper whose script has died
+ */
+const ANSWER_ONCE = `
+const fs = require("node:fs");
+const chunk = Buffer.alloc(65536);
+let line = "";
+while (!line.includes("\\n")) {
+	line += chunk.toString("utf8", 0, fs.readSync(0, chunk));
+}
+const batch = JSON.parse(line);
+process.stdout.write(
+	JSON.stringify(batch.map((r) => ({ jsonrpc: "2.0", id: r.id, result: "ok" }))) + "\\n",
+);
+fs.closeSync(0);
+setInterval(() => {}, 1000);
+`;
+
+describe("ThingsBridge", () => {
+	let bridge: ThingsBridge;
+
+	afterEach(() => {
+		bridge.close();
+	});
+
+	it("should fail the batch and start a new helper when the old one stops reading", async () => {
+		bridge = new ThingsBridge("", [process.execPath, "-e", ANSWER_ONCE]);
+		expect(await bridge.call("ping", {})).toBe("ok");
+		// Give the helper time to close its end of the pipe
+		await new Promise((resolve) => setTimeout(resolve, 200));
+
+		await expect(bridge.call("ping", {})).rejects.toThrow(
+			/Things bridge stopped reading/,
+		);
+
+		expect(await bridge.call("ping", {})).toBe("ok");
+	});
+});
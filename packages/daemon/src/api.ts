@@ -2,29 +2,111 @@
  * API client for the shared-things server
  */
 
-import type {
-	ProjectState,
-	PushRequest,
-	PushResponse,
-	SyncDelta,
+import { setTimeout as sleep } from "node:timers/promises";
+import {
+	type ApiError,
+	type DeletedTodoList,
+	type EnrollResponse,
+	PROTOCOL_HEADER,
+	PROTOCOL_VERSION,
+	type ProjectList,
+	type ProjectState,
+	type PushRequest,
+	type PushResponse,
+	type ServerMeta,
+	type SyncDelta,
+	type Todo,
+	type TodoHistory,
 } from "@shared-things/common";
 
+/**
+ * Error response from the server, with its ApiError code when it sent one
+ * and how long it asked us to wait (Retry-After, in milliseconds)
+ */
+export class ApiRequestError extends Error {
+	constructor(
+		message: string,
+		readonly status: number,
+		readonly code?: string,
+		readonly retryAfterMs?: number,
+	) {
+		super(message);
+		this.name = "ApiRequestError";
+	}
+}
+
+/**
+ * Whether a failed request may succeed later as it is: the server was
+ * unreachable, too slow, overloaded or failing
+ */
+export function isTransientError(error: unknown): boolean {
+	if (!(error instanceof ApiRequestError)) return true;
+	return error.status === 429 || error.status >= 500;
+}
+
+/** The server refused a write because the user may only view the project */
+export function isReadOnlyError(error: unknown): boolean {
+	return error instanceof ApiRequestError && error.code === "INSUFFICIENT_ROLE";
+}
+
+/** The server refused a push for its size or for a field over its limit */
+export function isTooLargeError(error: unknown): boolean {
+	return (
+		error instanceof ApiRequestError &&
+		(error.status === 413 || error.code === "FIELD_TOO_LONG")
+	);
+}
+
+/** Retry-After is either delay seconds or an HTTP date */
+function parseRetryAfter(header: string | null): number | undefined {
+	if (!header) return undefined;
+	const seconds = Number(header);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(header);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
 export class ApiClient {
 	private static readonly TIMEOUT_MS = 30_000;
+	/** Longest Retry-After a request waits out before failing instead */
+	private static readonly MAX_RETRY_AFTER_MS = 60_000;
 
 	constructor(
 		private serverUrl: string,
 		private apiKey: string,
 	) {}
 
+	/**
+	 * Send a request. A 429 whose Retry-After is short enough is waited out
+	 * and sent once more; longer ones fail with `retryAfterMs` so callers
+	 * can back off.
+	 */
 	private async request<T>(
 		path: string,
 		options: RequestInit = {},
 	): Promise<T> {
+		try {
+			return await this.send<T>(path, options);
+		} catch (error) {
+			if (
+				!(error instanceof ApiRequestError) ||
+				error.status !== 429 ||
+				error.retryAfterMs === undefined ||
+				error.retryAfterMs > ApiClient.MAX_RETRY_AFTER_MS
+			) {
+				throw error;
+			}
+			await sleep(error.retryAfterMs);
+			return this.send<T>(path, options);
+		}
+	}
+
+	private async send<T>(path: string, options: RequestInit): Promise<T> {
 		const url = `${this.serverUrl}${path}`;
 		const headers = {
 			Authorization: `Bearer ${this.apiKey}`,
 			"Content-Type": "application/json",
+			[PROTOCOL_HEADER]: String(PROTOCOL_VERSION),
 			...options.headers,
 		};
 
@@ -48,39 +130,188 @@ export class ApiClient {
 		}
 
 		if (!response.ok) {
-			const error = await response
-				.json()
-				.catch(() => ({ error: "Unknown error" }));
-			throw new Error(`API error: ${error.error || response.statusText}`);
+			throw await ApiClient.toError(response);
 		}
 
 		return response.json() as Promise<T>;
 	}
 
+	private static async toError(response: Response): Promise<ApiRequestError> {
+		const error = (await response
+			.json()
+			.catch(() => ({ error: "Unknown error" }))) as Partial<ApiError>;
+		return new ApiRequestError(
+			`API error: ${error.error || response.statusText}`,
+			response.status,
+			error.code,
+			parseRetryAfter(response.headers.get("Retry-After")),
+		);
+	}
+
+	private projectPath(projectId: string, path: string): string {
+		return `/projects/${encodeURIComponent(projectId)}${path}`;
+	}
+
+	/**
+	 * Protocol versions the server speaks
+	 */
+	async getMeta(): Promise<ServerMeta> {
+		return this.request<ServerMeta>("/meta");
+	}
+
+	/**
+	 * Trade an invite token for a new account (the client's API key is
+	 * ignored)
+	 */
+	async enroll(token: string, name: string): Promise<EnrollResponse> {
+		return this.request<EnrollResponse>("/enroll", {
+			method: "POST",
+			body: JSON.stringify({ token, name }),
+		});
+	}
+
 	/**
-	 * Get full project state
+	 * List projects the user is a member of
 	 */
-	async getState(): Promise<ProjectState> {
-		return this.request<ProjectState>("/state");
+	async listProjects(): Promise<ProjectList> {
+		return this.request<ProjectList>("/projects");
 	}
 
 	/**
-	 * Get changes since timestamp
+	 * Get full project state, or one page of its todos
 	 */
-	async getDelta(since: string): Promise<SyncDelta> {
-		return this.request<SyncDelta>(`/delta?since=${encodeURIComponent(since)}`);
+	async getState(
+		projectId: string,
+		page?: { after?: string; limit: number },
+	): Promise<ProjectState> {
+		const query = page
+			? `?limit=${page.limit}${page.after ? `&after=${encodeURIComponent(page.after)}` : ""}`
+			: "";
+		return this.request<ProjectState>(
+			this.projectPath(projectId, `/state${query}`),
+		);
+	}
+
+	/**
+	 * Get changes after a cursor, or since a timestamp for the one pull from
+	 * a state file written before cursors (its `lastSyncedAt`)
+	 */
+	async getDelta(
+		projectId: string,
+		after: number | string,
+		limit?: number,
+	): Promise<SyncDelta> {
+		const query =
+			typeof after === "number"
+				? `cursor=${after}${limit ? `&limit=${limit}` : ""}`
+				: `since=${encodeURIComponent(after)}`;
+		return this.request<SyncDelta>(
+			this.projectPath(projectId, `/delta?${query}`),
+		);
 	}
 
 	/**
 	 * Push local changes
 	 */
-	async push(request: PushRequest): Promise<PushResponse> {
-		return this.request<PushResponse>("/push", {
+	async push(projectId: string, request: PushRequest): Promise<PushResponse> {
+		return this.request<PushResponse>(this.projectPath(projectId, "/push"), {
 			method: "POST",
 			body: JSON.stringify(request),
 		});
 	}
 
+	/**
+	 * Get the revision log of a todo
+	 */
+	async getTodoHistory(
+		projectId: string,
+		todoId: string,
+	): Promise<TodoHistory> {
+		return this.request<TodoHistory>(
+			this.projectPath(
+				projectId,
+				`/todos/${encodeURIComponent(todoId)}/history`,
+			),
+		);
+	}
+
+	/**
+	 * List deleted todos that can be restored
+	 */
+	async listDeletedTodos(projectId: string): Promise<DeletedTodoList> {
+		return this.request<DeletedTodoList>(
+			this.projectPath(projectId, "/todos/deleted"),
+		);
+	}
+
+	/**
+	 * Restore a deleted todo for everyone in the project
+	 */
+	async restoreTodo(projectId: string, todoId: string): Promise<Todo> {
+		return this.request<Todo>(
+			this.projectPath(
+				projectId,
+				`/todos/${encodeURIComponent(todoId)}/restore`,
+			),
+			{ method: "POST", body: JSON.stringify({}) },
+		);
+	}
+
+	/**
+	 * Stream server-sent events for a project until the connection drops or
+	 * the signal aborts. Resolves when the stream ends.
+	 */
+	async streamEvents(
+		projectId: string,
+		signal: AbortSignal,
+		onEvent: (event: string, data: string) => void,
+	): Promise<void> {
+		const response = await fetch(
+			`${this.serverUrl}${this.projectPath(projectId, "/events")}`,
+			{
+				headers: {
+					Authorization: `Bearer ${this.apiKey}`,
+					Accept: "text/event-stream",
+					[PROTOCOL_HEADER]: String(PROTOCOL_VERSION),
+				},
+				signal,
+			},
+		);
+
+		if (!response.ok) {
+			throw await ApiClient.toError(response);
+		}
+		if (!response.body) {
+			throw new Error("API error: empty event stream");
+		}
+
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = "";
+
+		for (;;) {
+			const { value, done } = await reader.read();
+			if (done) return;
+			buffer += decoder.decode(value, { stream: true });
+
+			let boundary = buffer.indexOf("\n\n");
+			while (boundary !== -1) {
+				const block = buffer.slice(0, boundary);
+				buffer = buffer.slice(boundary + 2);
+				boundary = buffer.indexOf("\n\n");
+
+				let event = "message";
+				const data: string[] = [];
+				for (const line of block.split("\n")) {
+					if (line.startsWith("event: ")) event = line.slice(7);
+					else if (line.startsWith("data: ")) data.push(line.slice(6));
+				}
+				// Comment-only blocks are heartbeats
+				if (data.length > 0) onEvent(event, data.join("\n"));
+			}
+		}
+	}
+
 	/**
 	 * Health check
 	 */
@@ -89,16 +320,16 @@ export class ApiClient {
 	}
 
 	/**
-	 * Reset all user data on server
+	 * Reset all user data in a project on the server
 	 */
-	async reset(): Promise<{
+	async reset(projectId: string): Promise<{
 		success: boolean;
 		deleted: { todos: number };
 	}> {
 		return this.request<{
 			success: boolean;
 			deleted: { todos: number };
-		}>("/reset", {
+		}>(this.projectPath(projectId, "/reset"), {
 			method: "DELETE",
 		});
 	}
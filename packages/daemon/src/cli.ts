@@ -6,18 +6,33 @@
 
 import { spawn } from "node:child_process";
 import * as fs from "node:fs";
+import * as os from "node:os";
 import * as path from "node:path";
 import { confirm, input, password, select } from "@inquirer/prompts";
+import {
+	type DaemonConfig,
+	type DeletedTodo,
+	INVITE_PATH,
+	PROTOCOL_VERSION,
+	type ProjectMapping,
+	type RemoteDeleteAction,
+	TODO_FIELDS,
+	type TodoHistory,
+	type TodoSnapshot,
+} from "@shared-things/common";
 import chalk from "chalk";
 import { Command } from "commander";
 import updateNotifier from "update-notifier";
-import { ApiClient } from "./api.js";
+import { ApiClient, ApiRequestError } from "./api.js";
 import {
 	configExists,
 	getConfigDir,
+	getSecretStoreKind,
+	getStatePath,
 	loadConfig,
 	saveConfig,
 } from "./config.js";
+import { watchProjectChanges } from "./events.js";
 import {
 	getLaunchAgentStatus,
 	installLaunchAgent,
@@ -26,9 +41,15 @@ import {
 	uninstallLaunchAgent,
 } from "./launchagent.js";
 import { logError, logInfo } from "./logger.js";
-import { runSync } from "./sync.js";
 import {
-	getTodosFromProject,
+	getUploadStatus,
+	listPendingDeletions,
+	resolvePendingDeletion,
+	runSync,
+} from "./sync.js";
+import {
+	countTodosInProject,
+	createThingsAdapter,
 	isThingsRunning,
 	listProjects,
 } from "./things.js";
@@ -96,7 +117,7 @@ const program = new Command();
 
 program
 	.name("shared-things")
-	.description("Sync a Things 3 project between multiple users")
+	.description("Sync Things 3 projects between multiple users")
 	.version(pkg.version);
 
 // =============================================================================
@@ -105,7 +126,16 @@ program
 program
 	.command("init")
 	.description("Setup wizard")
-	.action(async () => {
+	.option("--invite <url>", "Invite link from the server admin")
+	.action(async (options) => {
+		const invite = options.invite ? parseInviteLink(options.invite) : null;
+		if (options.invite && !invite) {
+			console.error(
+				`❌ Not an invite link: ${options.invite} (expected <server URL>${INVITE_PATH}<token>)`,
+			);
+			process.exit(1);
+		}
+
 		console.log("\n🔄 shared-things Setup\n");
 
 		// Check if already configured
@@ -119,11 +149,14 @@ program
 				return;
 			}
 			// Delete old state to start fresh
-			const statePath = path.join(getConfigDir(), "state.json");
-			if (fs.existsSync(statePath)) {
-				fs.unlinkSync(statePath);
-				console.log(chalk.dim("Old sync state cleared.\n"));
+			const oldConfig = loadConfig();
+			for (const project of oldConfig?.projects ?? []) {
+				const statePath = getStatePath(project.serverProjectId);
+				if (fs.existsSync(statePath)) {
+					fs.unlinkSync(statePath);
+				}
 			}
+			console.log(chalk.dim("Old sync state cleared.\n"));
 		}
 
 		// Check Things
@@ -132,24 +165,28 @@ program
 		}
 
 		// Step 1: Server URL
-		const serverUrl = await input({
-			message: "Server URL",
-			default: "https://things.example.com",
-			validate: (value) => {
-				if (!value) return "Server URL is required";
-				if (!value.startsWith("http://") && !value.startsWith("https://")) {
-					return "URL must start with http:// or https://";
-				}
-				return true;
-			},
-		});
+		const serverUrl =
+			invite?.serverUrl ??
+			(await input({
+				message: "Server URL",
+				default: "https://things.example.com",
+				validate: (value) => {
+					if (!value) return "Server URL is required";
+					if (!value.startsWith("http://") && !value.startsWith("https://")) {
+						return "URL must start with http:// or https://";
+					}
+					return true;
+				},
+			}));
 
 		// Step 2: API Key
-		const apiKey = await password({
-			message: "API Key",
-			mask: "*",
-			validate: (value) => (value ? true : "API key is required"),
-		});
+		const apiKey = invite
+			? await enroll(serverUrl, invite.token)
+			: await password({
+					message: "API Key",
+					mask: "*",
+					validate: (value) => (value ? true : "API key is required"),
+				});
 
 		// Verify connection and API key
 		console.log("\n⏳ Verifying connection...");
@@ -164,38 +201,77 @@ program
 
 		// Verify API key by calling an authenticated endpoint
 		console.log("⏳ Verifying API key...");
+		let serverProjects: { id: string; name: string }[];
 		try {
-			await api.getState();
+			serverProjects = (await api.listProjects()).projects;
 			console.log("✅ API key valid!\n");
 		} catch (error) {
 			console.error(`❌ Invalid API key: ${error}`);
 			process.exit(1);
 		}
 
-		// Step 3: Select Things project
-		const projects = listProjects();
-		if (projects.length === 0) {
+		if (serverProjects.length === 0) {
 			console.error(
-				"❌ No Things projects found. Create a project in Things first.",
+				"❌ You are not a member of any server project. Ask the server admin to add you.",
 			);
 			process.exit(1);
 		}
 
-		const projectName = await select({
-			message: "Things project to sync",
-			choices: projects.map((p) => ({ name: p, value: p })),
-		});
-
-		// Verify project access
-		console.log("\n⏳ Checking Things project...");
-		const todos = getTodosFromProject(projectName);
-		if (todos.length > 0) {
+		// Step 3: Map Things projects to server projects
+		const thingsProjects = listProjects();
+		if (thingsProjects.length === 0) {
 			console.error(
-				`❌ Project "${projectName}" must be empty for first sync (found ${todos.length}).`,
+				"❌ No Things projects found. Create a project in Things first.",
 			);
 			process.exit(1);
 		}
-		console.log(`✅ Project "${projectName}" is empty.\n`);
+
+		const projects: ProjectMapping[] = [];
+		while (true) {
+			const serverChoices = serverProjects.filter(
+				(sp) => !projects.some((p) => p.serverProjectId === sp.id),
+			);
+			const thingsChoices = thingsProjects.filter(
+				(tp) => !projects.some((p) => p.thingsProjectName === tp),
+			);
+
+			const serverProject =
+				serverChoices.length === 1
+					? serverChoices[0]
+					: await select({
+							message: "Server project to sync",
+							choices: serverChoices.map((p) => ({ name: p.name, value: p })),
+						});
+
+			const thingsProjectName = await select({
+				message: `Things project for "${serverProject.name}"`,
+				choices: thingsChoices.map((p) => ({ name: p, value: p })),
+			});
+
+			// Verify project access
+			console.log("\n⏳ Checking Things project...");
+			const todoCount = countTodosInProject(thingsProjectName);
+			if (todoCount > 0) {
+				console.error(
+					`❌ Project "${thingsProjectName}" must be empty for first sync (found ${todoCount}).`,
+				);
+				process.exit(1);
+			}
+			console.log(`✅ Project "${thingsProjectName}" is empty.\n`);
+
+			projects.push({
+				thingsProjectName,
+				serverProjectId: serverProject.id,
+				serverProjectName: serverProject.name,
+			});
+
+			if (serverChoices.length === 1 || thingsChoices.length === 1) break;
+			const another = await confirm({
+				message: "Sync another project?",
+				default: false,
+			});
+			if (!another) break;
+		}
 
 		// Step 4: Things Auth Token
 		console.log("📋 Find your Things Auth Token in:");
@@ -212,22 +288,35 @@ program
 			chalk.yellow("\n⚠️  Auth token will be verified on first sync.\n"),
 		);
 
+		// Step 5: Remote deletions
+		const remoteDeleteAction = await select<RemoteDeleteAction>({
+			message: "When someone else deletes a todo",
+			choices: [
+				{ name: "Move it to the Trash", value: "trash" },
+				{ name: "Mark it as canceled", value: "cancel" },
+				{ name: "Keep it and ask me later", value: "ask" },
+			],
+		});
+
 		// Save config
 		saveConfig({
 			serverUrl,
 			apiKey,
-			projectName,
+			projects,
 			pollInterval: 30,
 			thingsAuthToken,
+			remoteDeleteAction,
 		});
 
-		// Initialize state.json
-		writeState({
-			lastSyncedAt: new Date().toISOString(),
-			todos: {},
-			serverIdToThingsId: {},
-			dirty: { upserted: [], deleted: {} },
-		});
+		// Initialize one state file per project
+		for (const project of projects) {
+			writeState(getStatePath(project.serverProjectId), {
+				cursor: 0,
+				todos: {},
+				serverIdToThingsId: {},
+				dirty: { upserted: [], deleted: {} },
+			});
+		}
 
 		console.log("\n✅ Configuration saved!\n");
 
@@ -244,6 +333,48 @@ program
 		console.log('  2. Or run "shared-things start" to run the daemon\n');
 	});
 
+// =============================================================================
+// set-key command
+// =============================================================================
+program
+	.command("set-key")
+	.description("Replace the API key (e.g. after the server rotated it)")
+	.argument("[key]", "New API key (prompted for if omitted)")
+	.action(async (key?: string) => {
+		const config = loadConfig();
+		if (!config) {
+			console.error('Not configured. Run "shared-things init" first.');
+			process.exit(1);
+		}
+
+		const apiKey =
+			key ??
+			(await password({
+				message: "New API Key",
+				mask: "*",
+				validate: (value) => (value ? true : "API key is required"),
+			}));
+
+		console.log("\n⏳ Verifying API key...");
+		try {
+			await new ApiClient(config.serverUrl, apiKey).listProjects();
+			console.log("✅ API key valid!");
+		} catch (error) {
+			console.error(`❌ Invalid API key: ${error}`);
+			process.exit(1);
+		}
+
+		saveConfig({ ...config, apiKey });
+		logInfo("API key replaced by user");
+		console.log("✅ Configuration saved!\n");
+
+		// The daemon only reads its config on start
+		if (getLaunchAgentStatus() === "running") {
+			stopLaunchAgent();
+			startLaunchAgent();
+		}
+	});
+
 // =============================================================================
 // install command
 // =============================================================================
@@ -319,24 +450,45 @@ program
 		console.log(
 			`${chalk.dim("Server:")}    ${chalk.cyan(config.serverUrl)} ${serverReachable ? chalk.green("●") : chalk.red("○")}`,
 		);
-		console.log(
-			`${chalk.dim("Project:")}   ${chalk.white(config.projectName)}`,
-		);
 		console.log(`${chalk.dim("Interval:")}  ${config.pollInterval}s`);
 		console.log(
 			`${chalk.dim("Daemon:")}    ${isRunning ? chalk.green("● running") : chalk.red("○ stopped")}`,
 		);
 
-		const state = readState();
-		if (state) {
-			const lastSync = new Date(state.lastSyncedAt);
-			const ago = formatTimeAgo(lastSync);
-			console.log(`${chalk.dim("Last sync:")} ${ago}`);
+		for (const project of config.projects) {
 			console.log(
-				`${chalk.dim("Dirty:")}    upserted=${state.dirty.upserted.length}, deleted=${Object.keys(state.dirty.deleted).length}`,
+				`\n${chalk.dim("Project:")}   ${chalk.white(project.thingsProjectName)} ${chalk.dim(`→ ${project.serverProjectName}`)}`,
 			);
-		} else {
-			console.log(`${chalk.dim("Last sync:")} ${chalk.yellow("never")}`);
+			const state = readState(getStatePath(project.serverProjectId));
+			if (state) {
+				const ago = formatTimeAgo(state.savedAt);
+				console.log(`${chalk.dim("Last sync:")} ${ago}`);
+				let upload: ReturnType<typeof getUploadStatus> | undefined;
+				try {
+					upload = getUploadStatus(project);
+				} catch {
+					// Unreadable state; "shared-things doctor" reports it
+				}
+				if (upload?.readOnly) {
+					console.log(
+						`${chalk.dim("Upload:")}    ${chalk.yellow(`read-only project, ${upload.pending} local changes not uploaded`)}`,
+					);
+				} else if (upload && (upload.pending > 0 || upload.failure)) {
+					const failure = upload.failure
+						? `, last error: ${upload.failure.error} (${formatTimeAgo(new Date(upload.failure.failedAt))})`
+						: "";
+					console.log(
+						`${chalk.dim("Upload:")}    ${chalk.yellow(`${upload.pending} changes pending upload${failure}`)}`,
+					);
+				}
+				for (const parked of upload?.parked ?? []) {
+					console.log(
+						`${chalk.dim("Upload:")}    ${chalk.yellow(`"${parked.title}" not uploaded until edited: ${parked.error}`)}`,
+					);
+				}
+			} else {
+				console.log(`${chalk.dim("Last sync:")} ${chalk.yellow("never")}`);
+			}
 		}
 
 		const conflicts = readConflicts();
@@ -373,7 +525,7 @@ program
 		}
 
 		try {
-			const result = await runSync();
+			const result = await runSync({ retryNow: true });
 			if (result.skipped) {
 				console.log(chalk.yellow("⚠️  Sync skipped (another sync is running)."));
 				return;
@@ -385,6 +537,13 @@ program
 					`✅ Done! Pushed: ${result.pushed}, Pulled: ${result.pulled}, Conflicts: ${result.conflicts}`,
 				),
 			);
+			if (result.uploadPending) {
+				console.log(
+					chalk.yellow(
+						`⚠️  ${result.uploadPending} changes pending upload; the server could not be reached (see "shared-things status").`,
+					),
+				);
+			}
 		} catch (error) {
 			logError("Manual sync failed", error);
 			console.error(chalk.red(`❌ Sync failed: ${error}`));
@@ -409,8 +568,43 @@ program
 		logInfo(`Polling interval: ${config.pollInterval}s`);
 		console.log(`Daemon started. Syncing every ${config.pollInterval}s...`);
 
+		// One Things bridge for the daemon's lifetime
+		const things = createThingsAdapter(config.thingsAuthToken);
+
+		// Syncs never overlap; requests made while one runs are merged into
+		// a single follow-up sync
+		let running = false;
+		let queuedPull: boolean | null = null;
+		const requestSync = async (pullRemote: boolean) => {
+			if (running) {
+				queuedPull = (queuedPull ?? false) || pullRemote;
+				return;
+			}
+			running = true;
+			let next: boolean | null = pullRemote;
+			while (next !== null) {
+				queuedPull = null;
+				try {
+					await runSync({ pullRemote: next, things });
+				} catch (error) {
+					logError("Sync failed", error);
+				}
+				next = queuedPull;
+			}
+			running = false;
+		};
+
+		// Sync as soon as the server announces a change
+		const watcher = watchProjectChanges(
+			new ApiClient(config.serverUrl, config.apiKey),
+			config.projects,
+			() => void requestSync(true),
+		);
+
 		// Handle graceful shutdown
 		const shutdown = () => {
+			watcher.stop();
+			things.close();
 			logInfo("Daemon stopped");
 			process.exit(0);
 		};
@@ -418,20 +612,12 @@ program
 		process.on("SIGINT", shutdown);
 
 		// Initial sync
-		try {
-			await runSync();
-			logInfo("Initial sync complete");
-		} catch (error) {
-			logError("Initial sync failed", error);
-		}
+		await requestSync(true);
 
-		// Poll loop
-		setInterval(async () => {
-			try {
-				await runSync();
-			} catch (error) {
-				logError("Sync failed", error);
-			}
+		// Poll loop: local Things edits are only found by polling, and the
+		// server is polled too whenever the event stream is down
+		setInterval(() => {
+			void requestSync(!watcher.isConnected());
 		}, config.pollInterval * 1000);
 	});
 
@@ -466,6 +652,7 @@ program
 	.description("Reset sync state")
 	.option("--local", "Clear local state (re-sync from server)")
 	.option("--server", "Clear server data for this user")
+	.option("-p, --project <name>", "Only reset this Things project")
 	.action(async (options) => {
 		if (!configExists()) {
 			console.log(chalk.yellow("Not configured. Nothing to reset."));
@@ -478,21 +665,25 @@ program
 		}
 
 		const config = loadConfig()!;
-		const statePath = path.join(getConfigDir(), "state.json");
-		const hasLocalState = fs.existsSync(statePath);
+		const projects = selectProjects(config, options.project);
+		if (projects.length === 0) {
+			console.log(chalk.yellow(`Project "${options.project}" is not synced.`));
+			return;
+		}
 
 		if (options.local) {
-			try {
-				const todos = getTodosFromProject(config.projectName);
-				if (todos.length > 0) {
-					console.error(
-						`❌ Project "${config.projectName}" must be empty to reset local state.`,
-					);
+			for (const project of projects) {
+				try {
+					if (countTodosInProject(project.thingsProjectName) > 0) {
+						console.error(
+							`❌ Project "${project.thingsProjectName}" must be empty to reset local state.`,
+						);
+						return;
+					}
+				} catch (error) {
+					console.error(`❌ Failed to read Things project: ${error}`);
 					return;
 				}
-			} catch (error) {
-				console.error(`❌ Failed to read Things project: ${error}`);
-				return;
 			}
 		}
 
@@ -510,32 +701,45 @@ program
 		if (options.server) {
 			const api = new ApiClient(config.serverUrl, config.apiKey);
 
-			try {
-				console.log(chalk.dim("Deleting server data..."));
-				const result = await api.reset();
-				logInfo(`Server reset: deleted ${result.deleted.todos} todos`);
-				console.log(
-					chalk.green(`✅ Server data deleted (${result.deleted.todos} todos)`),
-				);
-			} catch (error) {
-				logError("Server reset failed", error);
-				console.error(chalk.red(`❌ Failed to reset server: ${error}`));
-				return;
+			for (const project of projects) {
+				try {
+					console.log(
+						chalk.dim(
+							`Deleting server data for "${project.serverProjectName}"...`,
+						),
+					);
+					const result = await api.reset(project.serverProjectId);
+					logInfo(
+						`Server reset (${project.serverProjectName}): deleted ${result.deleted.todos} todos`,
+					);
+					console.log(
+						chalk.green(
+							`✅ Server data deleted (${result.deleted.todos} todos)`,
+						),
+					);
+				} catch (error) {
+					logError("Server reset failed", error);
+					console.error(chalk.red(`❌ Failed to reset server: ${error}`));
+					return;
+				}
 			}
 		}
 
 		if (options.local) {
-			if (hasLocalState) {
-				fs.unlinkSync(statePath);
+			for (const project of projects) {
+				const statePath = getStatePath(project.serverProjectId);
+				if (fs.existsSync(statePath)) {
+					fs.unlinkSync(statePath);
+				}
+				writeState(statePath, {
+					cursor: 0,
+					todos: {},
+					serverIdToThingsId: {},
+					dirty: { upserted: [], deleted: {} },
+				});
 			}
 			const conflictsPath = path.join(getConfigDir(), "conflicts.json");
 			if (fs.existsSync(conflictsPath)) fs.unlinkSync(conflictsPath);
-			writeState({
-				lastSyncedAt: new Date(0).toISOString(),
-				todos: {},
-				serverIdToThingsId: {},
-				dirty: { upserted: [], deleted: {} },
-			});
 			logInfo("Local sync state reset by user");
 		}
 
@@ -584,6 +788,185 @@ program
 		}
 	});
 
+// =============================================================================
+// history command
+// =============================================================================
+program
+	.command("history")
+	.description("Show who changed a todo and what it was before")
+	.argument("<title-or-id>", "Todo title, Things ID or server ID")
+	.option("-p, --project <name>", "Only search this Things project")
+	.action(async (query: string, options) => {
+		const config = loadConfig();
+		if (!config) {
+			console.error('Not configured. Run "shared-things init" first.');
+			process.exit(1);
+		}
+
+		const projects = selectProjects(config, options.project);
+		const match = findTodo(projects, query);
+		// Unknown locally (e.g. already deleted): try it as a server ID
+		const candidates = match
+			? [match]
+			: projects.map((project) => ({ project, serverId: query }));
+
+		const api = new ApiClient(config.serverUrl, config.apiKey);
+		let history: TodoHistory | null = null;
+		for (const candidate of candidates) {
+			try {
+				history = await api.getTodoHistory(
+					candidate.project.serverProjectId,
+					candidate.serverId,
+				);
+				break;
+			} catch {
+				// Not in this project
+			}
+		}
+
+		if (!history) {
+			console.log(chalk.yellow(`No history found for "${query}".`));
+			return;
+		}
+
+		console.log(chalk.bold(`\n📜 History (${history.todoId})\n`));
+		let previous: TodoSnapshot | null = null;
+		for (const revision of history.revisions) {
+			console.log(
+				`${chalk.dim(revision.editedAt)} ${chalk.white(revision.action)} by ${revision.user.name}`,
+			);
+			if (revision.todo) {
+				for (const line of describeChanges(previous, revision.todo)) {
+					console.log(`  ${line}`);
+				}
+			}
+			previous = revision.todo;
+		}
+		console.log();
+	});
+
+// =============================================================================
+// restore command
+// =============================================================================
+program
+	.command("restore")
+	.description("Bring back a recently deleted todo")
+	.argument("[id]", "Server ID of the deleted todo (prompts if omitted)")
+	.option("-p, --project <name>", "Only list this Things project")
+	.action(async (id: string | undefined, options) => {
+		const config = loadConfig();
+		if (!config) {
+			console.error('Not configured. Run "shared-things init" first.');
+			process.exit(1);
+		}
+
+		const api = new ApiClient(config.serverUrl, config.apiKey);
+		const projects = selectProjects(config, options.project);
+		const deleted: Array<{ project: ProjectMapping; todo: DeletedTodo }> = [];
+		try {
+			for (const project of projects) {
+				const { todos } = await api.listDeletedTodos(project.serverProjectId);
+				for (const todo of todos) deleted.push({ project, todo });
+			}
+		} catch (error) {
+			console.error(chalk.red(`❌ Failed to list deleted todos: ${error}`));
+			process.exit(1);
+		}
+
+		const candidates = deleted
+			.filter((entry) => !id || entry.todo.id === id)
+			.sort((a, b) => b.todo.deletedAt.localeCompare(a.todo.deletedAt));
+		if (candidates.length === 0) {
+			console.log(
+				chalk.yellow(
+					id
+						? `No restorable todo with ID "${id}".`
+						: "No deleted todos to restore.",
+				),
+			);
+			return;
+		}
+
+		const choice =
+			candidates.length === 1 && id
+				? candidates[0]
+				: await select({
+						message: "Todo to restore",
+						choices: candidates.map((entry) => ({
+							name: `${entry.todo.todo.title} ${chalk.dim(
+								`(${projects.length > 1 ? `${entry.project.thingsProjectName}, ` : ""}deleted by ${entry.todo.deletedBy.name} ${formatTimeAgo(new Date(entry.todo.deletedAt))})`,
+							)}`,
+							value: entry,
+						})),
+					});
+
+		try {
+			const todo = await api.restoreTodo(
+				choice.project.serverProjectId,
+				choice.todo.id,
+			);
+			console.log(
+				chalk.green(
+					`✅ Restored "${todo.title}". It reappears in Things with the next sync.`,
+				),
+			);
+		} catch (error) {
+			console.error(chalk.red(`❌ Restore failed: ${error}`));
+			process.exit(1);
+		}
+	});
+
+// =============================================================================
+// deletions command
+// =============================================================================
+program
+	.command("deletions")
+	.description("Decide what happens to todos others deleted")
+	.option("-p, --project <name>", "Only this Things project")
+	.action(async (options) => {
+		const config = loadConfig();
+		if (!config) {
+			console.error('Not configured. Run "shared-things init" first.');
+			process.exit(1);
+		}
+
+		const pending = selectProjects(config, options.project).flatMap((project) =>
+			listPendingDeletions(project).map((deletion) => ({
+				project,
+				deletion,
+			})),
+		);
+		if (pending.length === 0) {
+			console.log(chalk.green("No deleted todos waiting for you."));
+			return;
+		}
+
+		const api = new ApiClient(config.serverUrl, config.apiKey);
+		for (const { project, deletion } of pending) {
+			const action = await select<"trash" | "cancel" | "keep" | "later">({
+				message: `"${deletion.title}" was deleted ${formatTimeAgo(new Date(deletion.deletedAt))}`,
+				choices: [
+					{ name: "Move it to the Trash", value: "trash" },
+					{ name: "Mark it as canceled", value: "cancel" },
+					{ name: "Keep it (restores it for everyone)", value: "keep" },
+					{ name: "Decide later", value: "later" },
+				],
+			});
+			if (action === "later") continue;
+
+			try {
+				if (action === "keep") {
+					await api.restoreTodo(project.serverProjectId, deletion.serverId);
+				}
+				await resolvePendingDeletion(project, deletion.serverId, action);
+			} catch (error) {
+				console.error(chalk.red(`❌ ${error}`));
+				process.exit(1);
+			}
+		}
+		console.log(chalk.green("✅ Done."));
+	});
+
 // =============================================================================
 // repair command
 // =============================================================================
@@ -592,12 +975,17 @@ program
 	.description("Diagnose state issues (no auto-fix)")
 	.action(() => {
 		const issues: string[] = [];
-		if (!configExists()) {
+		const config = loadConfig();
+		if (!config) {
 			issues.push("Missing config.json (run init)");
+		} else if (config.projects.length === 0) {
+			issues.push("No projects configured (run init)");
 		}
-		const state = readState();
-		if (!state) {
-			issues.push("Missing or invalid state.json");
+		for (const project of config?.projects ?? []) {
+			const statePath = getStatePath(project.serverProjectId);
+			if (!readState(statePath)) {
+				issues.push(`Missing or invalid ${path.basename(statePath)}`);
+			}
 		}
 		if (issues.length === 0) {
 			console.log(chalk.green("No issues detected."));
@@ -625,10 +1013,10 @@ program
 
 		const config = loadConfig()!;
 		console.log(chalk.green("Config: ok"));
-
-		const state = readState();
 		console.log(
-			state ? chalk.green("State: ok") : chalk.red("State: missing/invalid"),
+			config.apiKey && config.thingsAuthToken
+				? chalk.green(`Secrets: ${getSecretStoreKind() ?? "config.json"}`)
+				: chalk.red("Secrets: missing API key or Things token (run init)"),
 		);
 
 		if (!isThingsRunning()) {
@@ -637,11 +1025,23 @@ program
 			console.log(chalk.green("Things 3: running"));
 		}
 
-		const projects = listProjects();
-		if (!projects.includes(config.projectName)) {
-			console.log(chalk.red(`Project: "${config.projectName}" not found`));
-		} else {
-			console.log(chalk.green(`Project: ${config.projectName}`));
+		const thingsProjects = listProjects();
+		for (const project of config.projects) {
+			const name = project.thingsProjectName;
+			if (!thingsProjects.includes(name)) {
+				console.log(chalk.red(`Project: "${name}" not found`));
+			} else {
+				console.log(
+					chalk.green(`Project: ${name} → ${project.serverProjectName}`),
+				);
+			}
+
+			const state = readState(getStatePath(project.serverProjectId));
+			console.log(
+				state
+					? chalk.green(`State (${name}): ok`)
+					: chalk.red(`State (${name}): missing/invalid`),
+			);
 		}
 
 		const api = new ApiClient(config.serverUrl, config.apiKey);
@@ -652,30 +1052,176 @@ program
 			console.log(chalk.red("Server: unreachable"));
 		}
 
+		try {
+			const meta = await api.getMeta();
+			if (PROTOCOL_VERSION > meta.protocolVersion) {
+				console.log(
+					chalk.red(
+						`Protocol: server too old (speaks ${meta.protocolVersion}, daemon needs ${PROTOCOL_VERSION}), update shared-things-server`,
+					),
+				);
+			} else if (PROTOCOL_VERSION < meta.minProtocolVersion) {
+				console.log(
+					chalk.red(
+						`Protocol: server too new (requires ${meta.minProtocolVersion}, daemon speaks ${PROTOCOL_VERSION}), update shared-things-daemon`,
+					),
+				);
+			} else {
+				console.log(chalk.green(`Protocol: ${PROTOCOL_VERSION} ok`));
+			}
+		} catch (error) {
+			// Servers from before negotiation have no /meta
+			if (error instanceof ApiRequestError && error.status === 404) {
+				console.log(
+					chalk.red(
+						"Protocol: server too old (no version handshake), update shared-things-server",
+					),
+				);
+			}
+		}
+
+		try {
+			const { projects } = await api.listProjects();
+			for (const project of config.projects) {
+				if (!projects.some((p) => p.id === project.serverProjectId)) {
+					console.log(
+						chalk.red(
+							`Membership: not a member of "${project.serverProjectName}"`,
+						),
+					);
+				}
+			}
+		} catch {
+			// Reported as unreachable above
+		}
+
 		const daemonStatus = getLaunchAgentStatus();
 		console.log(chalk.green(`Daemon: ${daemonStatus}`));
 		console.log();
 	});
 
-function readState(): {
-	lastSyncedAt: string;
-	dirty: { upserted: string[]; deleted: Record<string, string> };
+/**
+ * Split an invite link (`<server URL>/invite/<token>`) into its parts. The
+ * server may live under a path behind a proxy.
+ */
+function parseInviteLink(
+	link: string,
+): { serverUrl: string; token: string } | null {
+	let url: URL;
+	try {
+		url = new URL(link);
+	} catch {
+		return null;
+	}
+	const index = url.pathname.lastIndexOf(INVITE_PATH);
+	const token = url.pathname.slice(index + INVITE_PATH.length);
+	if (index === -1 || !token || !url.protocol.startsWith("http")) return null;
+	return {
+		serverUrl: `${url.origin}${url.pathname.slice(0, index)}`,
+		token: decodeURIComponent(token),
+	};
+}
+
+/**
+ * Create this user's account from an invite and return its API key
+ */
+async function enroll(serverUrl: string, token: string): Promise<string> {
+	const name = await input({
+		message: "Your username",
+		default: os.userInfo().username,
+		validate: (value) => (value.trim() ? true : "Username is required"),
+	});
+
+	console.log("\n⏳ Redeeming invite...");
+	try {
+		const enrolled = await new ApiClient(serverUrl, "").enroll(
+			token,
+			name.trim(),
+		);
+		console.log(
+			`✅ Joined "${enrolled.project.name}" as ${enrolled.user.name} (${enrolled.project.role})`,
+		);
+		// The invite is used up now; without the key a failed init can't be rerun
+		console.log(
+			chalk.dim(
+				`   Your API key (for "shared-things init" without --invite): ${enrolled.apiKey}`,
+			),
+		);
+		return enrolled.apiKey;
+	} catch (error) {
+		// The server leaves the invite unused, e.g. to retry another username
+		console.error(`❌ Failed to redeem invite: ${error}`);
+		process.exit(1);
+	}
+}
+
+function selectProjects(
+	config: DaemonConfig,
+	thingsProjectName?: string,
+): ProjectMapping[] {
+	if (!thingsProjectName) return config.projects;
+	return config.projects.filter(
+		(p) => p.thingsProjectName === thingsProjectName,
+	);
+}
+
+/**
+ * Look up a todo in the local sync state by server ID, Things ID or title
+ */
+function findTodo(
+	projects: ProjectMapping[],
+	query: string,
+): { project: ProjectMapping; serverId: string } | null {
+	const needle = query.toLowerCase();
+	for (const project of projects) {
+		const statePath = getStatePath(project.serverProjectId);
+		if (!fs.existsSync(statePath)) continue;
+		try {
+			const data = JSON.parse(fs.readFileSync(statePath, "utf-8")) as {
+				todos?: Record<string, { title: string }>;
+				serverIdToThingsId?: Record<string, string>;
+			};
+			for (const [serverId, thingsId] of Object.entries(
+				data.serverIdToThingsId ?? {},
+			)) {
+				const todo = data.todos?.[thingsId];
+				if (
+					serverId === query ||
+					thingsId === query ||
+					todo?.title.toLowerCase() === needle
+				) {
+					return { project, serverId };
+				}
+			}
+		} catch {
+			// Unreadable state, see "repair"
+		}
+	}
+	return null;
+}
+
+function describeChanges(
+	previous: TodoSnapshot | null,
+	current: TodoSnapshot,
+): string[] {
+	const format = (value: unknown) => JSON.stringify(value);
+	return TODO_FIELDS.filter(
+		(field) => !previous || format(previous[field]) !== format(current[field]),
+	).map((field) =>
+		previous
+			? `${chalk.dim(`${field}:`)} ${format(previous[field])} → ${format(current[field])}`
+			: `${chalk.dim(`${field}:`)} ${format(current[field])}`,
+	);
+}
+
+function readState(statePath: string): {
+	/** Every sync saves the state file, so this is the last sync time */
+	savedAt: Date;
 } | null {
-	const statePath = path.join(getConfigDir(), "state.json");
 	if (!fs.existsSync(statePath)) return null;
 	try {
-		const raw = fs.readFileSync(statePath, "utf-8");
-		const data = JSON.parse(raw) as {
-			lastSyncedAt: string;
-			dirty?: { upserted?: string[]; deleted?: Record<string, string> };
-		};
-		return {
-			lastSyncedAt: data.lastSyncedAt,
-			dirty: {
-				upserted: data.dirty?.upserted ?? [],
-				deleted: data.dirty?.deleted ?? {},
-			},
-		};
+		JSON.parse(fs.readFileSync(statePath, "utf-8"));
+		return { savedAt: fs.statSync(statePath).mtime };
 	} catch {
 		return null;
 	}
@@ -708,13 +1254,15 @@ function formatConflictVersion(version: {
 	return "unknown";
 }
 
-function writeState(state: {
-	lastSyncedAt: string;
-	todos: Record<string, unknown>;
-	serverIdToThingsId: Record<string, string>;
-	dirty: { upserted: string[]; deleted: Record<string, string> };
-}) {
-	const statePath = path.join(getConfigDir(), "state.json");
+function writeState(
+	statePath: string,
+	state: {
+		cursor: number;
+		todos: Record<string, unknown>;
+		serverIdToThingsId: Record<string, string>;
+		dirty: { upserted: string[]; deleted: Record<string, string> };
+	},
+) {
 	const temp = `${statePath}.tmp-${process.pid}`;
 	fs.writeFileSync(temp, JSON.stringify(state, null, 2));
 	fs.renameSync(temp, statePath);
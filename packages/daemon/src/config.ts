@@ -5,39 +5,189 @@
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
-import type { DaemonConfig } from "@shared-things/common";
+import { type DaemonConfig, DEFAULT_PROJECT_ID } from "@shared-things/common";
+import {
+	createFileStore,
+	createKeychainStore,
+	isKeychainAvailable,
+	SECRET_NAMES,
+	type SecretName,
+	type SecretStore,
+	type SecretStoreKind,
+} from "./secrets.js";
 
-const CONFIG_DIR = path.join(os.homedir(), ".shared-things");
-const CONFIG_PATH = path.join(CONFIG_DIR, "config.json");
+const CONFIG_FILE = "config.json";
+const SECRETS_FILE = "secrets.json";
 
+/**
+ * config.json as written: the secrets sit in `secretStore`. Configs from
+ * before it hold them in plaintext.
+ */
+type StoredConfig = Omit<DaemonConfig, SecretName> &
+	Partial<Pick<DaemonConfig, SecretName>> & {
+		secretStore?: SecretStoreKind;
+		projectName?: string;
+	};
+
+let secretStoreOverride: SecretStore | null = null;
+
+/**
+ * Keep secrets in `store` instead of the backend config.json names (tests);
+ * null goes back to normal
+ */
+export function useSecretStore(store: SecretStore | null): void {
+	secretStoreOverride = store;
+}
+
+/**
+ * ~/.shared-things, unless SHARED_THINGS_HOME points elsewhere (tests run
+ * several daemons side by side this way)
+ */
 export function getConfigDir(): string {
-	return CONFIG_DIR;
+	return (
+		process.env.SHARED_THINGS_HOME || path.join(os.homedir(), ".shared-things")
+	);
+}
+
+function getConfigPath(): string {
+	return path.join(getConfigDir(), CONFIG_FILE);
+}
+
+/**
+ * Path of the sync state file for a server project. The default project keeps
+ * the original state.json so single-project setups carry over unchanged.
+ */
+export function getStatePath(serverProjectId: string): string {
+	const fileName =
+		serverProjectId === DEFAULT_PROJECT_ID
+			? "state.json"
+			: `state-${serverProjectId}.json`;
+	return path.join(getConfigDir(), fileName);
 }
 
 export function ensureConfigDir(): void {
-	if (!fs.existsSync(CONFIG_DIR)) {
-		fs.mkdirSync(CONFIG_DIR, { recursive: true });
+	const configDir = getConfigDir();
+	if (!fs.existsSync(configDir)) {
+		fs.mkdirSync(configDir, { recursive: true });
 	}
 }
 
 export function loadConfig(): DaemonConfig | null {
-	if (!fs.existsSync(CONFIG_PATH)) {
+	const stored = readStoredConfig();
+	if (!stored) return null;
+
+	const { secretStore, projectName: _, ...rest } = migrateConfig(stored);
+	if (!secretStore) {
+		const config = {
+			...rest,
+			apiKey: stored.apiKey ?? "",
+			thingsAuthToken: stored.thingsAuthToken ?? "",
+		};
+		try {
+			saveConfig(config);
+		} catch {
+			// Keep using them from config.json until the next save
+		}
+		return config;
+	}
+
+	const store = getSecretStore(secretStore);
+	return {
+		...rest,
+		apiKey: store.get(getSecretAccount("apiKey")) ?? "",
+		thingsAuthToken: store.get(getSecretAccount("thingsAuthToken")) ?? "",
+	};
+}
+
+/**
+ * Write config.json and put the secrets into the Keychain, or into a file
+ * only the user can read where there is none
+ */
+export function saveConfig(config: DaemonConfig): void {
+	ensureConfigDir();
+	const { apiKey, thingsAuthToken, ...rest } = config;
+	const secretStore = storeSecrets({ apiKey, thingsAuthToken });
+	const stored: StoredConfig = { ...rest, secretStore };
+	fs.writeFileSync(getConfigPath(), JSON.stringify(stored, null, 2));
+}
+
+/** Backend holding the secrets, null before they are moved out of config.json */
+export function getSecretStoreKind(): SecretStoreKind | null {
+	return readStoredConfig()?.secretStore ?? null;
+}
+
+export function configExists(): boolean {
+	return fs.existsSync(getConfigPath());
+}
+
+function readStoredConfig(): StoredConfig | null {
+	const configPath = getConfigPath();
+	if (!fs.existsSync(configPath)) {
 		return null;
 	}
 
 	try {
-		const content = fs.readFileSync(CONFIG_PATH, "utf-8");
-		return JSON.parse(content) as DaemonConfig;
+		return JSON.parse(fs.readFileSync(configPath, "utf-8"));
 	} catch {
 		return null;
 	}
 }
 
-export function saveConfig(config: DaemonConfig): void {
-	ensureConfigDir();
-	fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
+function getSecretStore(kind: SecretStoreKind): SecretStore {
+	if (secretStoreOverride) return secretStoreOverride;
+	return kind === "keychain"
+		? createKeychainStore()
+		: createFileStore(path.join(getConfigDir(), SECRETS_FILE));
 }
 
-export function configExists(): boolean {
-	return fs.existsSync(CONFIG_PATH);
+/**
+ * Daemons with their own SHARED_THINGS_HOME get their own Keychain items
+ */
+function getSecretAccount(name: SecretName): string {
+	return process.env.SHARED_THINGS_HOME ? `${name}@${getConfigDir()}` : name;
+}
+
+/**
+ * Store the secrets in the Keychain if possible, else in the secrets file.
+ * Returns where they went.
+ */
+function storeSecrets(secrets: Record<SecretName, string>): SecretStoreKind {
+	const kinds: SecretStoreKind[] = isKeychainAvailable()
+		? ["keychain", "file"]
+		: ["file"];
+	for (const kind of kinds) {
+		try {
+			const store = getSecretStore(kind);
+			for (const name of SECRET_NAMES) {
+				store.set(getSecretAccount(name), secrets[name]);
+			}
+			return kind;
+		} catch (error) {
+			// e.g. the Keychain is locked or access was denied
+			if (kind === "file") throw error;
+		}
+	}
+	throw new Error("No secret store available");
+}
+
+/**
+ * Configs written before multi-project support hold a single `projectName`
+ * that synced with the server's only (now default) project.
+ */
+function migrateConfig(raw: StoredConfig): StoredConfig {
+	if (Array.isArray(raw.projects)) return raw;
+
+	const { projectName, ...rest } = raw;
+	return {
+		...rest,
+		projects: projectName
+			? [
+					{
+						thingsProjectName: projectName,
+						serverProjectId: DEFAULT_PROJECT_ID,
+						serverProjectName: DEFAULT_PROJECT_ID,
+					},
+				]
+			: [],
+	};
 }
@@ -0,0 +1,83 @@
+/**
+ * Server change notifications: keeps an event stream open per project and
+ * reconnects with backoff when it drops
+ */
+
+import { setTimeout as sleep } from "node:timers/promises";
+import type { ProjectMapping } from "@shared-things/common";
+import { type ApiClient, ApiRequestError } from "./api.js";
+import { logDebug, logInfo, logWarn } from "./logger.js";
+
+const MIN_RECONNECT_MS = 1_000;
+const MAX_RECONNECT_MS = 5 * 60_000;
+
+export interface ChangeWatcher {
+	/** True while the stream of every project is connected */
+	isConnected(): boolean;
+	stop(): void;
+}
+
+export function watchProjectChanges(
+	api: ApiClient,
+	projects: ProjectMapping[],
+	onChange: (project: ProjectMapping) => void,
+): ChangeWatcher {
+	const controller = new AbortController();
+	const connected = new Set<string>();
+
+	const watch = async (project: ProjectMapping) => {
+		const projectId = project.serverProjectId;
+		const projectName = project.thingsProjectName;
+		let delay = MIN_RECONNECT_MS;
+		let reconnecting = false;
+
+		while (!controller.signal.aborted) {
+			let wait = delay;
+			try {
+				await api.streamEvents(projectId, controller.signal, (event) => {
+					if (event === "ready") {
+						connected.add(projectId);
+						delay = MIN_RECONNECT_MS;
+						logInfo(`[${projectName}] Listening for server changes`);
+						// Changes may have been missed while disconnected
+						if (reconnecting) onChange(project);
+					} else if (event === "change") {
+						logDebug(`[${projectName}] Server announced a change`);
+						onChange(project);
+					}
+				});
+			} catch (error) {
+				if (controller.signal.aborted) return;
+				logDebug(`[${projectName}] Event stream error: ${String(error)}`);
+				// Rate limited: reconnecting sooner would only be refused again
+				if (error instanceof ApiRequestError && error.retryAfterMs) {
+					wait = Math.max(delay, error.retryAfterMs);
+				}
+			}
+
+			if (connected.delete(projectId)) {
+				logWarn(
+					`[${projectName}] Event stream dropped, polling until it reconnects`,
+				);
+			}
+			reconnecting = true;
+
+			try {
+				await sleep(wait, undefined, { signal: controller.signal });
+			} catch {
+				return;
+			}
+			delay = Math.min(delay * 2, MAX_RECONNECT_MS);
+		}
+	};
+
+	for (const project of projects) {
+		void watch(project);
+	}
+
+	return {
+		isConnected: () =>
+			projects.every((project) => connected.has(project.serverProjectId)),
+		stop: () => controller.abort(),
+	};
+}
@@ -0,0 +1,141 @@
+/**
+ * Where the daemon keeps its API key and Things token
+ */
+
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+
+/** Config values that are kept out of config.json */
+export type SecretName = "apiKey" | "thingsAuthToken";
+
+export const SECRET_NAMES: readonly SecretName[] = [
+	"apiKey",
+	"thingsAuthToken",
+];
+
+/** Backends config.json can point at */
+export type SecretStoreKind = "keychain" | "file";
+
+/**
+ * A place for secrets. Accounts tell apart daemons that share a backend
+ * (see getSecretAccount in config.ts).
+ */
+export interface SecretStore {
+	get(account: string): string | null;
+	set(account: string, value: string): void;
+}
+
+const KEYCHAIN_SERVICE = "com.shared-things.daemon";
+
+/** `security` exits with this when the Keychain has no such item */
+const SECURITY_ITEM_NOT_FOUND = 44;
+
+/** Runs the `security` CLI with `args`, writing `input` to its stdin */
+export type SecurityCommand = (
+	args: string[],
+	input?: string,
+) => { status: number | null; stdout: string; stderr: string };
+
+const runSecurity: SecurityCommand = (args, input) => {
+	const result = spawnSync("security", args, { encoding: "utf-8", input });
+	if (result.error) throw result.error;
+	return result;
+};
+
+/** Quote a word for `security -i`, which splits its input lines itself */
+function quoteWord(word: string): string {
+	if (/[\r\n]/.test(word)) {
+		throw new Error("Secrets cannot contain line breaks");
+	}
+	return `"${word.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * The user's login Keychain, through the `security` CLI. Secrets only
+ * travel over stdin: arguments are visible to every user through `ps`.
+ */
+export function createKeychainStore(
+	security: SecurityCommand = runSecurity,
+): SecretStore {
+	return {
+		get(account) {
+			const result = security([
+				"find-generic-password",
+				"-s",
+				KEYCHAIN_SERVICE,
+				"-a",
+				account,
+				"-w",
+			]);
+			if (result.status === SECURITY_ITEM_NOT_FOUND) return null;
+			if (result.status !== 0) {
+				throw new Error(`Keychain lookup failed: ${result.stderr.trim()}`);
+			}
+			return result.stdout.replace(/\n$/, "");
+		},
+		set(account, value) {
+			// -i reads commands from stdin; -U updates the item if it exists
+			const command = [
+				"add-generic-password",
+				"-U",
+				"-s",
+				KEYCHAIN_SERVICE,
+				"-a",
+				account,
+				"-l",
+				`shared-things ${account}`,
+				"-w",
+				value,
+			]
+				.map(quoteWord)
+				.join(" ");
+			const result = security(["-i"], `${command}\n`);
+			// Interactive mode reports failed commands on stderr only
+			if (result.status !== 0 || result.stderr.trim()) {
+				throw new Error(`Keychain update failed: ${result.stderr.trim()}`);
+			}
+		},
+	};
+}
+
+/**
+ * A JSON file only the user can read, for machines without a Keychain
+ */
+export function createFileStore(filePath: string): SecretStore {
+	const read = (): Record<string, string> => {
+		if (!fs.existsSync(filePath)) return {};
+		return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+	};
+	const write = (secrets: Record<string, string>) => {
+		fs.writeFileSync(filePath, JSON.stringify(secrets, null, 2), {
+			mode: 0o600,
+		});
+		// writeFileSync only applies the mode to new files
+		fs.chmodSync(filePath, 0o600);
+	};
+
+	return {
+		get: (account) => read()[account] ?? null,
+		set(account, value) {
+			write({ ...read(), [account]: value });
+		},
+	};
+}
+
+/**
+ * Secrets that live as long as the process, for tests
+ */
+export function createMemoryStore(): SecretStore {
+	const secrets = new Map<string, string>();
+	return {
+		get: (account) => secrets.get(account) ?? null,
+		set(account, value) {
+			secrets.set(account, value);
+		},
+	};
+}
+
+/** Whether this machine has a Keychain the daemon can use */
+export function isKeychainAvailable(): boolean {
+	return process.platform === "darwin" && fs.existsSync("/usr/bin/security");
+}
@@ -3,11 +3,38 @@
  */
 
 import { execSync } from "node:child_process";
+import { randomUUID } from "node:crypto";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import type { PushResponse, Todo } from "@shared-things/common";
-import { ApiClient } from "./api.js";
-import { ensureConfigDir, getConfigDir, loadConfig } from "./config.js";
+import {
+	type ChecklistItem,
+	type FieldTimestamps,
+	type Heading,
+	type ProjectMapping,
+	type PushChecklistItem,
+	type PushHeading,
+	type PushRequest,
+	type PushResponse,
+	type PushTodo,
+	type RemoteDeleteAction,
+	TODO_FIELDS,
+	type Todo,
+	type TodoField,
+	type TodoWhen,
+} from "@shared-things/common";
+import {
+	ApiClient,
+	ApiRequestError,
+	isReadOnlyError,
+	isTooLargeError,
+	isTransientError,
+} from "./api.js";
+import {
+	ensureConfigDir,
+	getConfigDir,
+	getStatePath,
+	loadConfig,
+} from "./config.js";
 import {
 	logDebug,
 	logError,
@@ -19,39 +46,120 @@ import {
 	logWarn,
 } from "./logger.js";
 import {
-	createTodo,
-	getTodosFromProject,
+	createThingsAdapter,
+	type ThingsAdapter,
+	type ThingsChecklistItem,
 	type ThingsTodo,
-	updateTodo,
 } from "./things.js";
 
-const STATE_FILE = path.join(getConfigDir(), "state.json");
-const STATE_BAK_FILE = path.join(getConfigDir(), "state.json.bak");
-const LOCK_FILE = path.join(getConfigDir(), "sync.lock");
-const CONFLICTS_FILE = path.join(getConfigDir(), "conflicts.json");
+const LOCK_FILE = "sync.lock";
+const CONFLICTS_FILE = "conflicts.json";
+/** Todos per /state page and changes per /delta page */
+const PAGE_SIZE = 500;
+const MIN_UPLOAD_RETRY_MS = 15_000;
+const MAX_UPLOAD_RETRY_MS = 30 * 60_000;
+/** Changes per push, and its size in bytes (below Fastify's default limit) */
+const PUSH_CHUNK_ITEMS = 500;
+const PUSH_CHUNK_BYTES = 512 * 1024;
 
 interface LocalTodoState {
 	thingsId: string;
 	title: string;
 	notes: string;
-	dueDate: string | null;
+	when: TodoWhen;
+	startDate: string | null;
+	deadline: string | null;
 	tags: string[];
 	status: "open" | "completed" | "canceled";
 	position: number;
 	editedAt: string;
+	/** When each field last changed (base version for field-level merges) */
+	fieldEditedAt?: FieldTimestamps;
+	/** Heading title in Things (null = none, undefined = unknown) */
+	heading?: string | null;
+	/** Checklist in display order (position = index) */
+	checklist?: LocalChecklistItemState[];
+}
+
+interface LocalHeadingState {
+	localId: string;
+	serverId?: string;
+	/** Title as it appears in Things */
+	title: string;
+	position: number;
+	editedAt: string;
+}
+
+interface LocalChecklistItemState {
+	localId: string;
+	serverId?: string;
+	title: string;
+	completed: boolean;
+	editedAt: string;
 }
 
 interface DirtyState {
 	upserted: string[];
+	// thingsId -> fields edited since the last push (missing = whole todo)
+	fields: Record<string, TodoField[]>;
 	// serverId -> deletedAt
 	deleted: Record<string, string>;
+	// heading localIds
+	headingsUpserted: string[];
+	// checklist item localIds
+	checklistUpserted: string[];
+	// checklist item serverId -> deletedAt
+	checklistDeleted: Record<string, string>;
+}
+
+/** Last failed upload of the dirty changes; cleared by a successful push */
+export interface UploadFailure {
+	/** Failed uploads in a row */
+	attempts: number;
+	error: string;
+	failedAt: string;
+	/** No new upload before this, unless the user syncs by hand */
+	retryAt: string;
+}
+
+/** A todo deleted by another member, kept until the user decides */
+export interface PendingDeletion {
+	serverId: string;
+	thingsId: string;
+	title: string;
+	/** Client timestamp of the remote deletion */
+	deletedAt: string;
+}
+
+/**
+ * A todo the server refuses even when it is sent on its own, left out of
+ * uploads until it is edited again
+ */
+export interface ParkedTodo {
+	thingsId: string;
+	title: string;
+	error: string;
+	/** Latest edit of the todo or its checklist when it was refused */
+	editedAt: string;
+	parkedAt: string;
 }
 
 interface LocalState {
-	lastSyncedAt: string;
+	/** Server change sequence number the last pull caught up to */
+	cursor: number;
+	/** Only in state files written before cursors; used for one more pull */
+	lastSyncedAt?: string;
 	todos: Record<string, LocalTodoState>;
+	headings: LocalHeadingState[];
 	serverIdToThingsId: Record<string, string>;
 	dirty: DirtyState;
+	/** serverId -> remote deletion waiting for the user ("ask" mode) */
+	pendingDeletions: Record<string, PendingDeletion>;
+	/** thingsId -> todo kept out of uploads */
+	parked: Record<string, ParkedTodo>;
+	uploadFailure?: UploadFailure;
+	/** The user is a viewer: local changes stay here instead of uploading */
+	readOnly?: boolean;
 }
 
 interface ConflictEntry {
@@ -63,15 +171,15 @@ interface ConflictEntry {
 	reason: string;
 }
 
-function loadLocalState(): LocalState {
-	if (!fs.existsSync(STATE_FILE)) {
+function loadLocalState(stateFile: string): LocalState {
+	if (!fs.existsSync(stateFile)) {
 		throw new Error('State file missing. Run "shared-things init" first.');
 	}
 
 	ensureConfigDir();
-	fs.copyFileSync(STATE_FILE, STATE_BAK_FILE);
+	fs.copyFileSync(stateFile, `${stateFile}.bak`);
 
-	const raw = fs.readFileSync(STATE_FILE, "utf-8");
+	const raw = fs.readFileSync(stateFile, "utf-8");
 	let data: unknown;
 	try {
 		data = JSON.parse(raw);
@@ -84,8 +192,9 @@ function loadLocalState(): LocalState {
 	}
 	const obj = data as Record<string, unknown>;
 
+	const cursor = typeof obj.cursor === "number" ? obj.cursor : null;
 	const lastSyncedAt =
-		typeof obj.lastSyncedAt === "string" ? obj.lastSyncedAt : null;
+		typeof obj.lastSyncedAt === "string" ? obj.lastSyncedAt : undefined;
 	const todos =
 		typeof obj.todos === "object" && obj.todos !== null
 			? (obj.todos as Record<string, LocalTodoState>)
@@ -100,7 +209,7 @@ function loadLocalState(): LocalState {
 			? (obj.dirty as Record<string, unknown>)
 			: null;
 
-	if (!lastSyncedAt || !todos || !serverIdToThingsId) {
+	if ((cursor === null && !lastSyncedAt) || !todos || !serverIdToThingsId) {
 		throw new Error("State file is corrupted (missing fields).");
 	}
 
@@ -109,6 +218,21 @@ function loadLocalState(): LocalState {
 			? (dirtyObj?.upserted as string[])
 			: [],
 		deleted: {},
+		fields:
+			typeof dirtyObj?.fields === "object" && dirtyObj?.fields !== null
+				? (dirtyObj?.fields as Record<string, TodoField[]>)
+				: {},
+		headingsUpserted: Array.isArray(dirtyObj?.headingsUpserted)
+			? (dirtyObj?.headingsUpserted as string[])
+			: [],
+		checklistUpserted: Array.isArray(dirtyObj?.checklistUpserted)
+			? (dirtyObj?.checklistUpserted as string[])
+			: [],
+		checklistDeleted:
+			typeof dirtyObj?.checklistDeleted === "object" &&
+			dirtyObj?.checklistDeleted !== null
+				? (dirtyObj?.checklistDeleted as Record<string, string>)
+				: {},
 	};
 
 	if (dirtyObj?.deleted) {
@@ -132,6 +256,25 @@ function loadLocalState(): LocalState {
 		}
 	}
 
+	// dueDate held the deadline before "When" was synced
+	for (const [thingsId, todo] of Object.entries(todos)) {
+		const { dueDate, ...rest } = todo as LocalTodoState & {
+			dueDate?: string | null;
+		};
+		if (dueDate === undefined) continue;
+		todos[thingsId] = {
+			...rest,
+			when: "anytime",
+			startDate: null,
+			deadline: dueDate,
+		};
+	}
+	for (const [thingsId, fields] of Object.entries(dirty.fields)) {
+		dirty.fields[thingsId] = fields.map((field) =>
+			(field as string) === "dueDate" ? "deadline" : field,
+		);
+	}
+
 	// Ensure todos have editedAt (migrate from v1 if missing)
 	for (const [thingsId, todo] of Object.entries(todos)) {
 		if (!todo.editedAt) {
@@ -139,14 +282,16 @@ function loadLocalState(): LocalState {
 				thingsId,
 				title: todo.title || "",
 				notes: todo.notes || "",
-				dueDate: todo.dueDate ?? null,
+				when: todo.when ?? "anytime",
+				startDate: todo.startDate ?? null,
+				deadline: todo.deadline ?? null,
 				tags: Array.isArray(todo.tags) ? todo.tags : [],
 				status: (todo.status as LocalTodoState["status"]) || "open",
 				position:
 					typeof todo.position === "number" && Number.isFinite(todo.position)
 						? todo.position
 						: 0,
-				editedAt: lastSyncedAt,
+				editedAt: lastSyncedAt ?? new Date(0).toISOString(),
 			};
 		} else if (
 			typeof todo.position !== "number" ||
@@ -162,68 +307,101 @@ function loadLocalState(): LocalState {
 	validateMapping(todos, serverIdToThingsId);
 
 	return {
-		lastSyncedAt,
+		cursor: cursor ?? 0,
+		// Superseded as soon as the server hands out a cursor
+		lastSyncedAt: cursor === null ? lastSyncedAt : undefined,
 		todos,
+		headings: Array.isArray(obj.headings)
+			? (obj.headings as LocalHeadingState[])
+			: [],
 		serverIdToThingsId,
 		dirty,
+		pendingDeletions:
+			typeof obj.pendingDeletions === "object" && obj.pendingDeletions !== null
+				? (obj.pendingDeletions as Record<string, PendingDeletion>)
+				: {},
+		parked:
+			typeof obj.parked === "object" && obj.parked !== null
+				? (obj.parked as Record<string, ParkedTodo>)
+				: {},
+		uploadFailure:
+			typeof obj.uploadFailure === "object" && obj.uploadFailure !== null
+				? (obj.uploadFailure as UploadFailure)
+				: undefined,
+		readOnly: obj.readOnly === true ? true : undefined,
 	};
 }
 
-function saveLocalState(state: LocalState): void {
+function saveLocalState(stateFile: string, state: LocalState): void {
 	ensureConfigDir();
-	const tempFile = `${STATE_FILE}.tmp-${process.pid}`;
+	const tempFile = `${stateFile}.tmp-${process.pid}`;
 	const data = JSON.stringify(state, null, 2);
 	fs.writeFileSync(tempFile, data);
-	fs.renameSync(tempFile, STATE_FILE);
+	fs.renameSync(tempFile, stateFile);
 }
 
 function acquireLock(): boolean {
 	ensureConfigDir();
-	if (fs.existsSync(LOCK_FILE)) {
-		const pid = parseInt(fs.readFileSync(LOCK_FILE, "utf-8"), 10);
+	const lockFile = path.join(getConfigDir(), LOCK_FILE);
+	if (fs.existsSync(lockFile)) {
+		const pid = parseInt(fs.readFileSync(lockFile, "utf-8"), 10);
 		if (pid) {
 			try {
 				process.kill(pid, 0);
 				return false;
 			} catch {
-				fs.unlinkSync(LOCK_FILE);
+				fs.unlinkSync(lockFile);
 			}
 		}
 	}
-	fs.writeFileSync(LOCK_FILE, String(process.pid));
+	fs.writeFileSync(lockFile, String(process.pid));
 	return true;
 }
 
 function releaseLock(): void {
-	if (fs.existsSync(LOCK_FILE)) {
-		fs.unlinkSync(LOCK_FILE);
+	const lockFile = path.join(getConfigDir(), LOCK_FILE);
+	if (fs.existsSync(lockFile)) {
+		fs.unlinkSync(lockFile);
 	}
 }
 
 function appendConflicts(entries: ConflictEntry[]): void {
 	if (entries.length === 0) return;
 	ensureConfigDir();
+	const conflictsFile = path.join(getConfigDir(), CONFLICTS_FILE);
 	let existing: ConflictEntry[] = [];
-	if (fs.existsSync(CONFLICTS_FILE)) {
+	if (fs.existsSync(conflictsFile)) {
 		try {
-			const raw = fs.readFileSync(CONFLICTS_FILE, "utf-8");
+			const raw = fs.readFileSync(conflictsFile, "utf-8");
 			existing = JSON.parse(raw) as ConflictEntry[];
 		} catch {
 			existing = [];
 		}
 	}
 	const next = [...existing, ...entries];
-	const tempFile = `${CONFLICTS_FILE}.tmp-${process.pid}`;
+	const tempFile = `${conflictsFile}.tmp-${process.pid}`;
 	fs.writeFileSync(tempFile, JSON.stringify(next, null, 2));
-	fs.renameSync(tempFile, CONFLICTS_FILE);
+	fs.renameSync(tempFile, conflictsFile);
 }
 
 function notifyConflicts(count: number): void {
 	if (count <= 0) return;
-	try {
-		const message = `Sync complete. ${count} conflict${
+	notify(
+		`Sync complete. ${count} conflict${
 			count === 1 ? "" : "s"
-		} resolved (your edits were older).`;
+		} resolved (your edits were older).`,
+	);
+}
+
+function notifyPendingDeletions(count: number): void {
+	if (count <= 0) return;
+	notify(
+		`${count} todo${count === 1 ? " was" : "s were"} deleted by others. Run "shared-things deletions" to decide.`,
+	);
+}
+
+function notify(message: string): void {
+	try {
 		const safeMessage = message.replace(/"/g, '\\"');
 		const cmd = `osascript -e 'display notification "${safeMessage}" with title "shared-things"'`;
 		execSync(cmd);
@@ -232,13 +410,32 @@ function notifyConflicts(count: number): void {
 	}
 }
 
-export async function runSync(): Promise<{
+interface SyncResult {
 	pushed: number;
 	pulled: number;
 	isFirstSync: boolean;
 	skipped?: boolean;
 	conflicts: number;
-}> {
+	/** Remote deletions newly waiting for the user */
+	pendingDeletions?: number;
+	/** Local changes left for a later upload after it failed */
+	uploadPending?: number;
+}
+
+export interface SyncOptions {
+	/**
+	 * Fetch remote changes even if nothing was pushed. The daemon turns this
+	 * off while the server's event stream is connected.
+	 */
+	pullRemote?: boolean;
+	/** Access to Things; defaults to the app itself */
+	things?: ThingsAdapter;
+	/** Upload right away even while backing off from a failed upload */
+	retryNow?: boolean;
+}
+
+export async function runSync(options: SyncOptions = {}): Promise<SyncResult> {
+	const pullRemote = options.pullRemote ?? true;
 	const config = loadConfig();
 	if (!config) {
 		throw new Error('Not configured. Run "shared-things init" first.');
@@ -255,19 +452,69 @@ export async function runSync(): Promise<{
 		};
 	}
 
-	let localState: LocalState;
+	const api = new ApiClient(config.serverUrl, config.apiKey);
+	const things = options.things ?? createThingsAdapter(config.thingsAuthToken);
+	const deleteAction = config.remoteDeleteAction ?? "trash";
+	const total: SyncResult = {
+		pushed: 0,
+		pulled: 0,
+		isFirstSync: false,
+		conflicts: 0,
+		pendingDeletions: 0,
+		uploadPending: 0,
+	};
+
 	try {
-		localState = loadLocalState();
-	} catch (error) {
+		for (const project of config.projects) {
+			const result = await syncProject(
+				api,
+				things,
+				project,
+				pullRemote,
+				deleteAction,
+				options.retryNow ?? false,
+			);
+			total.pushed += result.pushed;
+			total.pulled += result.pulled;
+			total.conflicts += result.conflicts;
+			total.pendingDeletions =
+				(total.pendingDeletions ?? 0) + (result.pendingDeletions ?? 0);
+			total.uploadPending =
+				(total.uploadPending ?? 0) + (result.uploadPending ?? 0);
+			total.isFirstSync ||= result.isFirstSync;
+		}
+	} finally {
+		// A long-running daemon passes its own adapter and keeps the bridge up
+		if (!options.things) things.close();
 		releaseLock();
-		throw error;
 	}
+
+	if (total.conflicts > 0) {
+		notifyConflicts(total.conflicts);
+	}
+	notifyPendingDeletions(total.pendingDeletions ?? 0);
+
+	return total;
+}
+
+async function syncProject(
+	api: ApiClient,
+	things: ThingsAdapter,
+	project: ProjectMapping,
+	pullRemote: boolean,
+	deleteAction: RemoteDeleteAction,
+	retryNow: boolean,
+): Promise<SyncResult> {
+	const projectId = project.serverProjectId;
+	const projectName = project.thingsProjectName;
+	const stateFile = getStatePath(projectId);
+
+	const localState = loadLocalState(stateFile);
 	logDebug(
-		`Loaded state: todos=${Object.keys(localState.todos).length}, mappings=${Object.keys(localState.serverIdToThingsId).length}, dirtyUpserted=${localState.dirty.upserted.length}, dirtyDeleted=${Object.keys(localState.dirty.deleted).length}`,
+		`[${projectName}] Loaded state: todos=${Object.keys(localState.todos).length}, mappings=${Object.keys(localState.serverIdToThingsId).length}, dirtyUpserted=${localState.dirty.upserted.length}, dirtyDeleted=${Object.keys(localState.dirty.deleted).length}`,
 	);
-	logInfo("Sync started");
+	logInfo(`[${projectName}] Sync started`);
 
-	const api = new ApiClient(config.serverUrl, config.apiKey);
 	const isFirstSync =
 		Object.keys(localState.todos).length === 0 &&
 		Object.keys(localState.serverIdToThingsId).length === 0;
@@ -275,14 +522,14 @@ export async function runSync(): Promise<{
 	let pushed = 0;
 	let pulled = 0;
 	let conflictCount = 0;
+	let pendingDeletions = 0;
+	let uploadPending = 0;
 
 	try {
 		// 1. Read current Things state
-		const currentTodos = getTodosFromProject(config.projectName);
+		const currentTodos = await things.getTodosFromProject(projectName);
 		logDebug(`Read Things: todos=${currentTodos.length}`);
-		const positionMap = new Map(
-			currentTodos.map((todo, idx) => [todo.thingsId, idx]),
-		);
+		const positionMap = assignPositions(currentTodos, localState);
 		const currentTodosMap = new Map(currentTodos.map((t) => [t.thingsId, t]));
 
 		// 2. Detect local changes
@@ -292,32 +539,54 @@ export async function runSync(): Promise<{
 		for (const [thingsId, todo] of currentTodosMap) {
 			const prev = localState.todos[thingsId];
 			const position = positionMap.get(thingsId) ?? 0;
+			// Things reports This Evening as Today; keep it until it moves
+			if (prev?.when === "evening" && todo.when === "today") {
+				todo.when = "evening";
+			}
 			if (!prev) {
 				localState.todos[thingsId] = {
 					thingsId,
 					title: todo.title,
 					notes: todo.notes,
-					dueDate: todo.dueDate,
+					when: todo.when,
+					startDate: todo.startDate,
+					deadline: todo.deadline,
 					tags: todo.tags,
 					status: todo.status,
 					position,
 					editedAt: now,
+					heading: todo.heading,
 				};
 				dirtyUpserted.add(thingsId);
 				continue;
 			}
 
-			if (hasChanged(prev, todo, position)) {
+			const fields = changedFields(prev, todo, position);
+			if (fields.length > 0) {
 				localState.todos[thingsId] = {
 					...prev,
 					title: todo.title,
 					notes: todo.notes,
-					dueDate: todo.dueDate,
+					when: todo.when,
+					startDate: todo.startDate,
+					deadline: todo.deadline,
 					tags: todo.tags,
 					status: todo.status,
 					position,
 					editedAt: now,
+					fieldEditedAt: {
+						...prev.fieldEditedAt,
+						...Object.fromEntries(fields.map((field) => [field, now])),
+					},
+					heading: todo.heading === undefined ? prev.heading : todo.heading,
 				};
+				// A todo already waiting to be pushed whole stays whole
+				const pendingFields = localState.dirty.fields[thingsId];
+				if (!dirtyUpserted.has(thingsId) || pendingFields) {
+					localState.dirty.fields[thingsId] = [
+						...new Set([...(pendingFields ?? []), ...fields]),
+					];
+				}
 				dirtyUpserted.add(thingsId);
 			}
 		}
@@ -338,96 +607,672 @@ export async function runSync(): Promise<{
 		localState.dirty.upserted = localState.dirty.upserted.filter((id) =>
 			currentTodosMap.has(id),
 		);
+		for (const thingsId of Object.keys(localState.dirty.fields)) {
+			if (!dirtyUpserted.has(thingsId) || !currentTodosMap.has(thingsId)) {
+				delete localState.dirty.fields[thingsId];
+			}
+		}
+		// Deleting a pending todo settles it; editing it brings it back
+		for (const [serverId, pending] of Object.entries(
+			localState.pendingDeletions,
+		)) {
+			if (
+				!localState.todos[pending.thingsId] ||
+				dirtyUpserted.has(pending.thingsId)
+			) {
+				delete localState.pendingDeletions[serverId];
+			}
+		}
+		detectHeadings(currentTodos, localState, now);
+		detectChecklistChanges(currentTodosMap, localState, now);
+		// Editing a parked todo lets it try again
+		for (const [thingsId, parked] of Object.entries(localState.parked)) {
+			const todo = localState.todos[thingsId];
+			if (!todo || lastEdit(todo) !== parked.editedAt) {
+				delete localState.parked[thingsId];
+			}
+		}
 		logDebug(
-			`Local changes: upserted=${localState.dirty.upserted.length}, deleted=${Object.keys(localState.dirty.deleted).length}`,
+			`Local changes: upserted=${localState.dirty.upserted.length}, deleted=${Object.keys(localState.dirty.deleted).length}, headingsUpserted=${localState.dirty.headingsUpserted.length}, checklistUpserted=${localState.dirty.checklistUpserted.length}, checklistDeleted=${Object.keys(localState.dirty.checklistDeleted).length}`,
 		);
 
 		// 3. Build push payload
-		const pushUpserts = buildUpserts(currentTodosMap, localState);
-		const pushDeletes = buildDeletes(currentTodosMap, localState);
+		const pushRequest = buildPush(currentTodosMap, localState);
+		const pushCount = countPush(pushRequest);
 		logDebug(
-			`Push payload: upserted=${pushUpserts.length}, deleted=${pushDeletes.length}`,
+			`Push payload: upserted=${pushRequest.todos.upserted.length}, deleted=${pushRequest.todos.deleted.length}, headingsUpserted=${pushRequest.headings.upserted.length}, checklistUpserted=${pushRequest.checklistItems.upserted.length}, checklistDeleted=${pushRequest.checklistItems.deleted.length}`,
 		);
-		if (pushUpserts.length > 0 || pushDeletes.length > 0) {
-			logDebug(
-				`Push payload body: ${JSON.stringify({
-					todos: { upserted: pushUpserts, deleted: pushDeletes },
-					lastSyncedAt: localState.lastSyncedAt,
-				})}`,
-			);
+		if (pushCount > 0) {
+			logDebug(`Push payload body: ${JSON.stringify(pushRequest)}`);
 		}
 
-		// 4. Push to server
-		if (pushUpserts.length > 0 || pushDeletes.length > 0) {
-			const pushResponse = await api.push({
-				todos: {
-					upserted: pushUpserts,
-					deleted: pushDeletes,
-				},
-				lastSyncedAt: localState.lastSyncedAt,
-			});
-
-			pushed = pushUpserts.length + pushDeletes.length;
-			processPushMappings(localState, pushResponse);
-
-			const conflictEntries = conflictsFromPush(pushResponse);
-			logDebug(
-				`Push response: conflicts=${conflictEntries.length}, mappings=${pushResponse.mappings?.length ?? 0}`,
+		// 4. Push to server; while it's unreachable the changes stay dirty
+		// (persisted) and uploads back off, but remote changes still come in.
+		// Viewers keep them until they may edit again.
+		if (pushCount > 0 && !localState.readOnly) {
+			const failure = localState.uploadFailure;
+			if (failure && !retryNow && Date.now() < Date.parse(failure.retryAt)) {
+				logDebug(
+					`[${projectName}] ${pushCount} change(s) wait for upload until ${failure.retryAt}`,
+				);
+				uploadPending = pushCount;
+			} else {
+				const upload = await pushChanges(
+					api,
+					projectId,
+					projectName,
+					currentTodosMap,
+					localState,
+				);
+				pushed = upload.pushed;
+				conflictCount += upload.conflicts;
+				uploadPending = upload.left;
+			}
+		}
+		const heldBack = localState.readOnly ? pushCount : 0;
+		if (heldBack > 0) {
+			logWarn(
+				`[${projectName}] Read-only project: ${heldBack} local change(s) not uploaded`,
 			);
-			conflictCount += conflictEntries.length;
-			appendConflicts(conflictEntries);
-
-			localState.dirty = { upserted: [], deleted: {} };
 		}
 
-		// 5. Pull from server
-		const delta = await getServerDelta(api, localState, currentTodos);
+		// 5. Pull from server (the event stream announces remote changes;
+		// held back changes pull to learn when the role allows editing again)
+		if (!pullRemote && pushed === 0 && heldBack === 0 && !isFirstSync) {
+			saveLocalState(stateFile, localState);
+			logSync(pushed, pulled, isFirstSync, conflictCount);
+			return {
+				pushed,
+				pulled,
+				isFirstSync,
+				conflicts: conflictCount,
+				uploadPending,
+			};
+		}
+		let delta: Awaited<ReturnType<typeof getServerDelta>>;
+		try {
+			delta = await getServerDelta(api, projectId, localState, currentTodos);
+		} catch (error) {
+			// A server that is failing uploads likely fails this too; the
+			// changes stay queued either way
+			if (uploadPending === 0 || !isTransientError(error)) throw error;
+			logWarn(
+				`[${projectName}] Pull failed while ${uploadPending} change(s) wait for upload: ${String(error)}`,
+			);
+			saveLocalState(stateFile, localState);
+			return {
+				pushed,
+				pulled,
+				isFirstSync,
+				conflicts: conflictCount,
+				uploadPending,
+			};
+		}
 		logDebug(
-			`Delta response: upserted=${delta.todos.upserted.length}, deleted=${delta.todos.deleted.length}, syncedAt=${delta.syncedAt}`,
+			`Delta response: upserted=${delta.todos.upserted.length}, deleted=${delta.todos.deleted.length}, cursor=${delta.cursor}`,
 		);
+		// Headings first so remote todos can be placed under them
+		if (delta.headings) {
+			applyRemoteHeadings(
+				delta.headings.upserted,
+				delta.headings.deleted,
+				localState,
+			);
+		}
 		const remoteResult = await applyRemoteChanges(
-			config.thingsAuthToken,
-			config.projectName,
+			things,
+			projectName,
 			delta.todos.upserted,
 			delta.todos.deleted,
 			currentTodosMap,
 			localState,
+			deleteAction,
+			() => saveLocalState(stateFile, localState),
 		);
 		pulled += remoteResult.applied;
+		pendingDeletions += remoteResult.pendingDeletions;
 		conflictCount += remoteResult.conflicts.length;
 		appendConflicts(remoteResult.conflicts);
+		if (remoteResult.applied > 0) {
+			await reorderTodos(things, projectName, localState);
+		}
 
-		localState.lastSyncedAt = delta.syncedAt;
+		// Older servers don't send checklist items
+		if (delta.checklistItems) {
+			pulled += await applyRemoteChecklistChanges(
+				things,
+				delta.checklistItems.upserted,
+				delta.checklistItems.deleted,
+				currentTodosMap,
+				localState,
+			);
+		}
+
+		localState.cursor = delta.cursor;
+		localState.lastSyncedAt = undefined;
+		// Servers without roles let everyone edit
+		localState.readOnly = delta.role === "viewer" ? true : undefined;
 
-		saveLocalState(localState);
+		saveLocalState(stateFile, localState);
 		logSync(pushed, pulled, isFirstSync, conflictCount);
-		if (conflictCount > 0) {
-			notifyConflicts(conflictCount);
-		}
 	} catch (error) {
-		logError("Sync failed", error);
-		saveLocalState(localState);
+		logError(`[${projectName}] Sync failed`, error);
+		saveLocalState(stateFile, localState);
 		throw error;
-	} finally {
-		releaseLock();
 	}
 
-	return { pushed, pulled, isFirstSync, conflicts: conflictCount };
+	return {
+		pushed,
+		pulled,
+		isFirstSync,
+		conflicts: conflictCount,
+		pendingDeletions,
+		uploadPending,
+	};
+}
+
+/**
+ * Positions that follow the order of todos in Things. Todos still in their
+ * stored order keep their position; moved and new todos get one between
+ * their neighbours, so only they count as repositioned.
+ */
+function assignPositions(
+	currentTodos: ThingsTodo[],
+	state: LocalState,
+): Map<string, number> {
+	const stored = currentTodos.map(
+		(todo) => state.todos[todo.thingsId]?.position,
+	);
+	const kept = longestOrderedRun(stored);
+
+	// Position of the next todo that keeps its place, for each index
+	const nextKept: Array<number | undefined> = [];
+	let next: number | undefined;
+	for (let index = stored.length - 1; index >= 0; index--) {
+		nextKept[index] = next;
+		if (kept.has(index)) next = stored[index];
+	}
+
+	const positions = new Map<string, number>();
+	let previous: number | undefined;
+	currentTodos.forEach((todo, index) => {
+		const storedPosition = stored[index];
+		const position =
+			kept.has(index) && storedPosition !== undefined
+				? storedPosition
+				: positionBetween(previous, nextKept[index]);
+		positions.set(todo.thingsId, position);
+		previous = position;
+	});
+	return positions;
+}
+
+/**
+ * A position between two neighbours, either of which may be missing.
+ * Picking a random point in the middle of the gap keeps members who move
+ * todos into the same gap at the same time from colliding.
+ */
+function positionBetween(before?: number, after?: number): number {
+	const jitter = 0.25 + Math.random() * 0.5;
+	if (before === undefined && after === undefined) return 0;
+	if (before === undefined) return (after ?? 0) - 2 * jitter;
+	if (after === undefined) return before + 2 * jitter;
+	return before + (after - before) * jitter;
+}
+
+/**
+ * Indices of the longest non-decreasing run of values (skipping missing
+ * ones): the items that can stay where they are
+ */
+function longestOrderedRun(values: Array<number | undefined>): Set<number> {
+	// Best run of each length, by the index and value it ends with
+	const tailIndices: number[] = [];
+	const tailValues: number[] = [];
+	const previous = new Map<number, number>();
+
+	values.forEach((value, index) => {
+		if (value === undefined) return;
+		let low = 0;
+		let high = tailValues.length;
+		while (low < high) {
+			const mid = (low + high) >> 1;
+			if (tailValues[mid] <= value) low = mid + 1;
+			else high = mid;
+		}
+		if (low > 0) previous.set(index, tailIndices[low - 1]);
+		tailIndices[low] = index;
+		tailValues[low] = value;
+	});
+
+	const run = new Set<number>();
+	for (
+		let index = tailIndices.at(-1);
+		index !== undefined;
+		index = previous.get(index)
+	) {
+		run.add(index);
+	}
+	return run;
 }
 
-function hasChanged(
+function changedFields(
 	prev: LocalTodoState,
 	curr: ThingsTodo,
 	position: number,
+): TodoField[] {
+	const fields: TodoField[] = [];
+	if (prev.title !== curr.title) fields.push("title");
+	if (prev.notes !== curr.notes) fields.push("notes");
+	if (prev.when !== curr.when) fields.push("when");
+	if (prev.startDate !== curr.startDate) fields.push("startDate");
+	if (prev.deadline !== curr.deadline) fields.push("deadline");
+	if (JSON.stringify(prev.tags) !== JSON.stringify(curr.tags)) {
+		fields.push("tags");
+	}
+	if (prev.status !== curr.status) fields.push("status");
+	if (prev.position !== position) fields.push("position");
+	if (curr.heading !== undefined && (prev.heading ?? null) !== curr.heading) {
+		fields.push("headingId");
+	}
+	return fields;
+}
+
+/**
+ * Register headings seen in Things that the server doesn't know yet.
+ * Things doesn't expose heading IDs, so headings are matched by title.
+ */
+function detectHeadings(
+	currentTodos: ThingsTodo[],
+	state: LocalState,
+	now: string,
+): void {
+	const dirty = new Set(state.dirty.headingsUpserted);
+
+	for (const todo of currentTodos) {
+		if (!todo.heading) continue;
+		if (state.headings.some((h) => h.title === todo.heading)) continue;
+
+		const localId = randomUUID();
+		state.headings.push({
+			localId,
+			title: todo.heading,
+			position: state.headings.length,
+			editedAt: now,
+		});
+		dirty.add(localId);
+	}
+
+	state.dirty.headingsUpserted = Array.from(dirty);
+}
+
+function findHeadingByTitle(
+	state: LocalState,
+	title: string,
+): LocalHeadingState | undefined {
+	return (
+		state.headings.find((h) => h.title === title && h.serverId) ??
+		state.headings.find((h) => h.title === title)
+	);
+}
+
+/** Heading reference for a pushed todo (omitted when unknown) */
+function headingRef(
+	state: LocalState,
+	title: string | null | undefined,
+): Pick<PushTodo, "headingId" | "headingClientId"> {
+	if (title === undefined) return {};
+	if (title === null) return { headingId: null };
+	const heading = findHeadingByTitle(state, title);
+	if (!heading) return {};
+	return heading.serverId
+		? { headingId: heading.serverId }
+		: { headingClientId: heading.localId };
+}
+
+/**
+ * Diff each todo's Things checklist against the stored one.
+ * Items are matched by title first, then by order for renamed items.
+ */
+function detectChecklistChanges(
+	currentTodosMap: Map<string, ThingsTodo>,
+	state: LocalState,
+	now: string,
+): void {
+	const dirtyUpserted = new Set(state.dirty.checklistUpserted);
+
+	for (const [thingsId, todo] of currentTodosMap) {
+		const stored = state.todos[thingsId];
+		// Unreadable checklists are left untouched rather than treated as empty
+		if (!stored || !todo.checklistItems) continue;
+
+		const prev = stored.checklist ?? [];
+		const matched = matchChecklistItems(prev, todo.checklistItems);
+		const next: LocalChecklistItemState[] = [];
+
+		todo.checklistItems.forEach((item, index) => {
+			const prevItem = matched[index];
+			if (!prevItem) {
+				const localId = randomUUID();
+				next.push({ localId, ...item, editedAt: now });
+				dirtyUpserted.add(localId);
+				return;
+			}
+			if (
+				prevItem.title !== item.title ||
+				prevItem.completed !== item.completed ||
+				prev.indexOf(prevItem) !== index
+			) {
+				next.push({ ...prevItem, ...item, editedAt: now });
+				dirtyUpserted.add(prevItem.localId);
+				return;
+			}
+			next.push(prevItem);
+		});
+
+		for (const prevItem of prev) {
+			if (matched.includes(prevItem)) continue;
+			dirtyUpserted.delete(prevItem.localId);
+			if (prevItem.serverId) {
+				state.dirty.checklistDeleted[prevItem.serverId] ??= now;
+			}
+		}
+
+		stored.checklist = next;
+	}
+
+	// Drop dirty entries for items that no longer exist locally
+	const existing = new Set(
+		Object.values(state.todos).flatMap((todo) =>
+			(todo.checklist ?? []).map((item) => item.localId),
+		),
+	);
+	state.dirty.checklistUpserted = Array.from(dirtyUpserted).filter((id) =>
+		existing.has(id),
+	);
+}
+
+function matchChecklistItems(
+	prev: LocalChecklistItemState[],
+	current: ThingsChecklistItem[],
+): Array<LocalChecklistItemState | undefined> {
+	const used = new Set<LocalChecklistItemState>();
+	const matched: Array<LocalChecklistItemState | undefined> = current.map(
+		(item) => {
+			const found = prev.find((p) => !used.has(p) && p.title === item.title);
+			if (found) used.add(found);
+			return found;
+		},
+	);
+
+	// Pair leftovers in order so a renamed item keeps its identity
+	const leftovers = prev.filter((p) => !used.has(p));
+	for (let i = 0; i < matched.length && leftovers.length > 0; i++) {
+		if (!matched[i]) {
+			matched[i] = leftovers.shift();
+		}
+	}
+
+	return matched;
+}
+
+function checklistEquals(
+	a: ThingsChecklistItem[],
+	b: ThingsChecklistItem[],
 ): boolean {
 	return (
-		prev.title !== curr.title ||
-		prev.notes !== curr.notes ||
-		prev.dueDate !== curr.dueDate ||
-		prev.status !== curr.status ||
-		prev.position !== position ||
-		JSON.stringify(prev.tags) !== JSON.stringify(curr.tags)
+		a.length === b.length &&
+		a.every(
+			(item, i) =>
+				item.title === b[i].title && item.completed === b[i].completed,
+		)
+	);
+}
+
+/** A push request with every list present */
+type PushBatch = Required<
+	Pick<PushRequest, "todos" | "headings" | "checklistItems">
+>;
+
+/** All dirty changes except those of parked todos */
+function buildPush(
+	currentTodosMap: Map<string, ThingsTodo>,
+	state: LocalState,
+): PushBatch {
+	return {
+		todos: {
+			upserted: buildUpserts(currentTodosMap, state),
+			deleted: buildDeletes(currentTodosMap, state),
+		},
+		headings: { upserted: buildHeadingUpserts(state), deleted: [] },
+		checklistItems: {
+			upserted: buildChecklistUpserts(state),
+			deleted: Object.entries(state.dirty.checklistDeleted).map(
+				([serverId, deletedAt]) => ({ serverId, deletedAt }),
+			),
+		},
+	};
+}
+
+function countPush(push: PushBatch): number {
+	return (
+		push.todos.upserted.length +
+		push.todos.deleted.length +
+		push.headings.upserted.length +
+		push.checklistItems.upserted.length +
+		push.checklistItems.deleted.length
+	);
+}
+
+/**
+ * Upload the dirty changes in pushes the server accepts. Each push is built
+ * after the one before, so it names what that one created by server ID. A
+ * push refused as too large is sent again in halves; a todo refused on its
+ * own is parked instead of holding up the rest. Returns the changes uploaded
+ * and those left for a later upload.
+ */
+async function pushChanges(
+	api: ApiClient,
+	projectId: string,
+	projectName: string,
+	currentTodosMap: Map<string, ThingsTodo>,
+	state: LocalState,
+): Promise<{ pushed: number; conflicts: number; left: number }> {
+	let pushed = 0;
+	let conflicts = 0;
+	let maxItems = PUSH_CHUNK_ITEMS;
+	let push = buildPush(currentTodosMap, state);
+
+	while (countPush(push) > 0) {
+		const chunk = takeChunk(push, maxItems);
+		const count = countPush(chunk);
+		let response: PushResponse;
+		try {
+			response = await api.push(projectId, chunk);
+		} catch (error) {
+			if (isTooLargeError(error)) {
+				if (count > 1) {
+					maxItems = Math.ceil(count / 2);
+					continue;
+				}
+				const thingsId = refusedTodo(state, chunk);
+				const todo = thingsId ? state.todos[thingsId] : undefined;
+				if (thingsId && todo) {
+					state.parked[thingsId] = {
+						thingsId,
+						title: todo.title,
+						error: error instanceof Error ? error.message : String(error),
+						editedAt: lastEdit(todo),
+						parkedAt: new Date().toISOString(),
+					};
+					logWarn(
+						`[${projectName}] "${todo.title}" is too large for the server and won't upload until it is edited: ${String(error)}`,
+					);
+					maxItems = PUSH_CHUNK_ITEMS;
+					push = buildPush(currentTodosMap, state);
+					continue;
+				}
+			}
+			if (isReadOnlyError(error)) {
+				// Made a viewer since the last pull
+				state.readOnly = true;
+				return { pushed, conflicts, left: 0 };
+			}
+			if (!isTransientError(error)) throw error;
+			const left = countPush(push);
+			state.uploadFailure = uploadFailed(state.uploadFailure, error);
+			logWarn(
+				`[${projectName}] Upload of ${left} change(s) failed, retrying after ${state.uploadFailure.retryAt}: ${String(error)}`,
+			);
+			return { pushed, conflicts, left };
+		}
+
+		state.uploadFailure = undefined;
+		pushed += count;
+		processPushMappings(state, response);
+
+		const conflictEntries = conflictsFromPush(response);
+		logDebug(
+			`Push response: conflicts=${conflictEntries.length}, mappings=${response.mappings?.length ?? 0}, checklistMappings=${response.checklistMappings?.length ?? 0}`,
+		);
+		conflicts += conflictEntries.length;
+		appendConflicts(conflictEntries);
+
+		clearPushed(state, chunk);
+		push = buildPush(currentTodosMap, state);
+	}
+
+	// Whatever is still dirty can't be uploaded: gone from Things, or parked
+	state.dirty = keepParked(state);
+	return { pushed, conflicts, left: 0 };
+}
+
+/**
+ * The first changes of a push that fit into one request: headings, todos,
+ * checklist items, then deletions. A change that names a new heading or todo
+ * by client ID waits until that has a server ID, unless it is in the same
+ * request. The first change always goes, so every request makes progress.
+ */
+function takeChunk(push: PushBatch, maxItems: number): PushBatch {
+	const chunk: PushBatch = {
+		todos: { upserted: [], deleted: [] },
+		headings: { upserted: [], deleted: [] },
+		checklistItems: { upserted: [], deleted: [] },
+	};
+	let count = 0;
+	let bytes = 0;
+	const take = <T>(
+		items: T[],
+		into: T[],
+		ready: (item: T) => boolean = () => true,
+	): boolean => {
+		for (const item of items) {
+			if (!ready(item) && count > 0) continue;
+			const size = Buffer.byteLength(JSON.stringify(item));
+			if (count > 0 && (count >= maxItems || bytes + size > PUSH_CHUNK_BYTES)) {
+				return false;
+			}
+			into.push(item);
+			count++;
+			bytes += size;
+		}
+		return true;
+	};
+
+	const headings = new Set<string | undefined>();
+	const todos = new Set<string | undefined>();
+	take(push.headings.upserted, chunk.headings.upserted, (heading) => {
+		headings.add(heading.clientId);
+		return true;
+	}) &&
+		take(push.todos.upserted, chunk.todos.upserted, (todo) => {
+			if (todo.headingClientId && !headings.has(todo.headingClientId)) {
+				return false;
+			}
+			todos.add(todo.clientId);
+			return true;
+		}) &&
+		take(
+			push.checklistItems.upserted,
+			chunk.checklistItems.upserted,
+			(item) => !item.todoClientId || todos.has(item.todoClientId),
+		) &&
+		take(push.todos.deleted, chunk.todos.deleted) &&
+		take(push.checklistItems.deleted, chunk.checklistItems.deleted);
+	return chunk;
+}
+
+/** The todo behind the only change of a refused push, if it is one */
+function refusedTodo(state: LocalState, chunk: PushBatch): string | undefined {
+	const [todo] = chunk.todos.upserted;
+	if (todo) return todo.clientId;
+	const [item] = chunk.checklistItems.upserted;
+	if (!item) return undefined;
+	return (
+		item.todoClientId ??
+		(item.todoServerId
+			? state.serverIdToThingsId[item.todoServerId]
+			: undefined)
+	);
+}
+
+/** Latest edit of a todo or any of its checklist items */
+function lastEdit(todo: LocalTodoState): string {
+	return (todo.checklist ?? []).reduce(
+		(latest, item) => (item.editedAt > latest ? item.editedAt : latest),
+		todo.editedAt,
+	);
+}
+
+/** Take what the server accepted off the dirty lists */
+function clearPushed(state: LocalState, chunk: PushBatch): void {
+	const { dirty } = state;
+	const todos = new Set(chunk.todos.upserted.map((todo) => todo.clientId));
+	dirty.upserted = dirty.upserted.filter((thingsId) => !todos.has(thingsId));
+	for (const thingsId of todos) {
+		if (thingsId) delete dirty.fields[thingsId];
+	}
+	for (const { serverId } of chunk.todos.deleted) {
+		delete dirty.deleted[serverId];
+	}
+	const headings = new Set(
+		chunk.headings.upserted.map((heading) => heading.clientId),
+	);
+	dirty.headingsUpserted = dirty.headingsUpserted.filter(
+		(localId) => !headings.has(localId),
+	);
+	const items = new Set(
+		chunk.checklistItems.upserted.map((item) => item.clientId),
+	);
+	dirty.checklistUpserted = dirty.checklistUpserted.filter(
+		(localId) => !items.has(localId),
 	);
+	for (const { serverId } of chunk.checklistItems.deleted) {
+		delete dirty.checklistDeleted[serverId];
+	}
+}
+
+/** The dirty lists once everything that can be uploaded is */
+function keepParked(state: LocalState): DirtyState {
+	const parked = (thingsId: string) => thingsId in state.parked;
+	const parkedItems = new Set(
+		Object.keys(state.parked).flatMap((thingsId) =>
+			(state.todos[thingsId]?.checklist ?? []).map((item) => item.localId),
+		),
+	);
+	return {
+		upserted: state.dirty.upserted.filter(parked),
+		fields: Object.fromEntries(
+			Object.entries(state.dirty.fields).filter(([thingsId]) =>
+				parked(thingsId),
+			),
+		),
+		deleted: {},
+		headingsUpserted: [],
+		checklistUpserted: state.dirty.checklistUpserted.filter((localId) =>
+			parkedItems.has(localId),
+		),
+		checklistDeleted: {},
+	};
 }
 
 function buildUpserts(
@@ -436,39 +1281,54 @@ function buildUpserts(
 ) {
 	const thingsIdToServerId = invertMapping(state.serverIdToThingsId);
 
-	const upserts: Array<{
-		serverId?: string;
-		clientId?: string;
-		title: string;
-		notes: string;
-		dueDate: string | null;
-		tags: string[];
-		status: "open" | "completed" | "canceled";
-		position: number;
-		editedAt: string;
-	}> = [];
+	const upserts: PushTodo[] = [];
 
 	for (const thingsId of state.dirty.upserted) {
 		const todo = currentTodosMap.get(thingsId);
 		const stored = state.todos[thingsId];
-		if (!todo || !stored) continue;
+		if (!todo || !stored || state.parked[thingsId]) continue;
+		const fields = state.dirty.fields[thingsId];
 
 		upserts.push({
 			serverId: thingsIdToServerId.get(thingsId),
 			clientId: thingsId,
 			title: stored.title,
 			notes: stored.notes,
-			dueDate: stored.dueDate,
+			when: stored.when,
+			startDate: stored.startDate,
+			deadline: stored.deadline,
 			tags: stored.tags,
 			status: stored.status,
 			position: stored.position,
+			...headingRef(state, stored.heading),
 			editedAt: stored.editedAt,
+			fieldEditedAt: fields
+				? Object.fromEntries(
+						fields.map((field) => [
+							field,
+							stored.fieldEditedAt?.[field] ?? stored.editedAt,
+						]),
+					)
+				: undefined,
 		});
 	}
 
 	return upserts;
 }
 
+function buildHeadingUpserts(state: LocalState): PushHeading[] {
+	const dirty = new Set(state.dirty.headingsUpserted);
+	return state.headings
+		.filter((heading) => dirty.has(heading.localId))
+		.map((heading) => ({
+			serverId: heading.serverId,
+			clientId: heading.localId,
+			title: heading.title,
+			position: heading.position,
+			editedAt: heading.editedAt,
+		}));
+}
+
 function buildDeletes(
 	currentTodosMap: Map<string, ThingsTodo>,
 	state: LocalState,
@@ -488,19 +1348,83 @@ function buildDeletes(
 	return deletes;
 }
 
+function buildChecklistUpserts(state: LocalState): PushChecklistItem[] {
+	const dirty = new Set(state.dirty.checklistUpserted);
+	const thingsIdToServerId = invertMapping(state.serverIdToThingsId);
+	const upserts: PushChecklistItem[] = [];
+
+	for (const [thingsId, todo] of Object.entries(state.todos)) {
+		if (state.parked[thingsId]) continue;
+		const todoServerId = thingsIdToServerId.get(thingsId);
+		(todo.checklist ?? []).forEach((item, position) => {
+			if (!dirty.has(item.localId)) return;
+			upserts.push({
+				serverId: item.serverId,
+				clientId: item.localId,
+				// New todos are referenced by the clientId they are pushed with
+				...(todoServerId ? { todoServerId } : { todoClientId: thingsId }),
+				title: item.title,
+				completed: item.completed,
+				position,
+				editedAt: item.editedAt,
+			});
+		});
+	}
+
+	return upserts;
+}
+
 function processPushMappings(state: LocalState, response: PushResponse): void {
-	if (!response.mappings) return;
-	for (const mapping of response.mappings) {
+	for (const mapping of response.mappings ?? []) {
 		if (!mapping.clientId) continue;
 		setMapping(state, mapping.serverId, mapping.clientId);
 	}
+
+	for (const mapping of response.headingMappings ?? []) {
+		const heading = state.headings.find((h) => h.localId === mapping.clientId);
+		if (heading) heading.serverId = mapping.serverId;
+	}
+
+	if (!response.checklistMappings) return;
+	const byLocalId = new Map(
+		Object.values(state.todos).flatMap((todo) =>
+			(todo.checklist ?? []).map((item) => [item.localId, item] as const),
+		),
+	);
+	for (const mapping of response.checklistMappings) {
+		const item = mapping.clientId ? byLocalId.get(mapping.clientId) : undefined;
+		if (item) item.serverId = mapping.serverId;
+	}
 }
 
 function conflictsFromPush(response: PushResponse): ConflictEntry[] {
-	if (!response.conflicts || response.conflicts.length === 0) return [];
 	const timestamp = new Date().toISOString();
 
-	return response.conflicts.map((conflict) => ({
+	const checklistEntries = (response.checklistConflicts ?? []).map(
+		(conflict) => ({
+			timestamp,
+			serverId: conflict.serverId,
+			title:
+				conflict.clientItem?.title || conflict.serverItem?.title || "Unknown",
+			yourVersion: conflict.clientItem
+				? {
+						title: conflict.clientItem.title,
+						editedAt: conflict.clientItem.editedAt,
+					}
+				: conflict.clientDeletedAt
+					? { deletedAt: conflict.clientDeletedAt }
+					: {},
+			winningVersion: conflict.serverItem
+				? {
+						title: conflict.serverItem.title,
+						editedAt: conflict.serverItem.editedAt,
+					}
+				: {},
+			reason: `Checklist item: ${conflict.reason}`,
+		}),
+	);
+
+	const todoEntries = (response.conflicts ?? []).map((conflict) => ({
 		timestamp,
 		serverId: conflict.serverId,
 		title:
@@ -523,10 +1447,13 @@ function conflictsFromPush(response: PushResponse): ConflictEntry[] {
 				: {},
 		reason: conflict.reason,
 	}));
+
+	return [...todoEntries, ...checklistEntries];
 }
 
 async function getServerDelta(
 	api: ApiClient,
+	projectId: string,
 	state: LocalState,
 	currentTodos: ThingsTodo[],
 ) {
@@ -536,31 +1463,115 @@ async function getServerDelta(
 		currentTodos.length === 0;
 
 	if (shouldBootstrap) {
-		const fullState = await api.getState();
+		// Continues from the first page's cursor: whatever changes while
+		// paging comes with the next delta
+		const fullState = await api.getState(projectId, { limit: PAGE_SIZE });
+		const todos = [...fullState.todos];
+		const checklistItems = [...(fullState.checklistItems ?? [])];
+		let after = fullState.nextPage;
+		while (after) {
+			const page = await api.getState(projectId, { after, limit: PAGE_SIZE });
+			todos.push(...page.todos);
+			checklistItems.push(...(page.checklistItems ?? []));
+			after = page.nextPage;
+		}
 		return {
 			todos: {
-				upserted: fullState.todos,
+				upserted: todos,
+				deleted: [],
+			},
+			headings: {
+				upserted: fullState.headings ?? [],
 				deleted: [],
 			},
-			syncedAt: fullState.syncedAt,
+			checklistItems: {
+				upserted: checklistItems,
+				deleted: [],
+			},
+			cursor: fullState.cursor,
+			role: fullState.role,
 		};
 	}
 
-	return api.getDelta(state.lastSyncedAt);
+	// Timestamp cursors (old state files) can't be paged
+	if (state.lastSyncedAt) return api.getDelta(projectId, state.lastSyncedAt);
+
+	// All pages are applied together: a checklist item may come a page
+	// before its todo
+	let delta = await api.getDelta(projectId, state.cursor, PAGE_SIZE);
+	while (delta.hasMore) {
+		const page = await api.getDelta(projectId, delta.cursor, PAGE_SIZE);
+		delta = {
+			...page,
+			todos: mergeChanges(delta.todos, page.todos),
+			headings: mergeChanges(delta.headings, page.headings),
+			checklistItems: mergeChanges(delta.checklistItems, page.checklistItems),
+		};
+	}
+	return delta;
+}
+
+/**
+ * Combine two consecutive delta pages. Something changed again while paging
+ * shows up in both; the later page wins.
+ */
+function mergeChanges<T extends { id: string }>(
+	earlier: {
+		upserted: T[];
+		deleted: { serverId: string; deletedAt: string }[];
+	},
+	later: { upserted: T[]; deleted: { serverId: string; deletedAt: string }[] },
+) {
+	const superseded = new Set([
+		...later.upserted.map((item) => item.id),
+		...later.deleted.map((deletion) => deletion.serverId),
+	]);
+	return {
+		upserted: [
+			...earlier.upserted.filter((item) => !superseded.has(item.id)),
+			...later.upserted,
+		],
+		deleted: [
+			...earlier.deleted.filter(
+				(deletion) => !superseded.has(deletion.serverId),
+			),
+			...later.deleted,
+		],
+	};
 }
 
 async function applyRemoteChanges(
-	authToken: string,
+	things: ThingsAdapter,
 	projectName: string,
 	upserted: Todo[],
 	deleted: { serverId: string; deletedAt: string }[],
 	currentTodosMap: Map<string, ThingsTodo>,
 	state: LocalState,
-): Promise<{ applied: number; conflicts: ConflictEntry[] }> {
+	deleteAction: RemoteDeleteAction,
+	persist: () => void,
+): Promise<{
+	applied: number;
+	conflicts: ConflictEntry[];
+	pendingDeletions: number;
+}> {
 	let applied = 0;
+	let pendingDeletions = 0;
 	const conflicts: ConflictEntry[] = [];
 
+	// Writes that nothing waits for go out with the next call that does, as
+	// one batch; a failure fails the sync once they have all finished
+	const writes: Promise<void>[] = [];
+	const write = (pending: Promise<void>) => {
+		pending.catch(() => {});
+		writes.push(pending);
+	};
+	// Creates all leave in one batch too, instead of a round trip each
+	const creates: Promise<void>[] = [];
+
 	for (const remoteTodo of upserted) {
+		// Restored by someone, so there's nothing left to decide
+		delete state.pendingDeletions[remoteTodo.id];
+		const headingTitle = resolveHeadingTitle(state, remoteTodo.headingId);
 		const localThingsId = state.serverIdToThingsId[remoteTodo.id];
 		const localTodo = localThingsId
 			? currentTodosMap.get(localThingsId)
@@ -570,77 +1581,129 @@ async function applyRemoteChanges(
 			: undefined;
 
 		if (!localTodo || !localThingsId) {
-			const before = new Set(currentTodosMap.keys());
-			createTodo(projectName, {
-				title: remoteTodo.title,
-				notes: remoteTodo.notes,
-				dueDate: remoteTodo.dueDate || undefined,
-				tags: remoteTodo.tags,
-			});
-			logTodoCreated(remoteTodo.title);
-
-			const newTodo = await findNewTodo(projectName, before, remoteTodo.title);
-			if (newTodo) {
-				setMapping(state, remoteTodo.id, newTodo.thingsId);
-				state.todos[newTodo.thingsId] = {
-					thingsId: newTodo.thingsId,
+			// Deleted here but not uploaded yet (backing off, or held back for
+			// a viewer): an older remote edit must not bring it back. The
+			// server weighs the deletion against the same edit time.
+			const queuedDeletion = state.dirty.deleted[remoteTodo.id];
+			if (queuedDeletion !== undefined) {
+				if (compareIso(queuedDeletion, remoteTodo.editedAt) > 0) continue;
+				delete state.dirty.deleted[remoteTodo.id];
+			}
+			write(ensureTags(things, remoteTodo.tags));
+			const create = things
+				.createTodo(projectName, {
 					title: remoteTodo.title,
 					notes: remoteTodo.notes,
-					dueDate: remoteTodo.dueDate,
+					when: remoteTodo.when,
+					startDate: remoteTodo.startDate,
+					deadline: remoteTodo.deadline,
 					tags: remoteTodo.tags,
 					status: remoteTodo.status,
-					position: remoteTodo.position,
-					editedAt: remoteTodo.editedAt,
-				};
-				currentTodosMap.set(newTodo.thingsId, newTodo);
-				if (remoteTodo.status !== "open") {
-					try {
-						updateTodo(authToken, newTodo.thingsId, {
-							completed: remoteTodo.status === "completed",
-							canceled: remoteTodo.status === "canceled",
-						});
-					} catch (error) {
-						logWarn(
-							`Failed to set status for ${newTodo.thingsId}: ${String(error)}`,
-						);
-					}
-				}
-			} else {
-				logWarn(`Failed to locate created todo for server ${remoteTodo.id}`);
-			}
+					heading: headingTitle ?? undefined,
+				})
+				.then((newTodo) => {
+					logTodoCreated(remoteTodo.title);
+					setMapping(state, remoteTodo.id, newTodo.thingsId);
+					state.todos[newTodo.thingsId] = {
+						thingsId: newTodo.thingsId,
+						title: remoteTodo.title,
+						notes: remoteTodo.notes,
+						when: remoteTodo.when,
+						startDate: remoteTodo.startDate,
+						deadline: remoteTodo.deadline,
+						tags: remoteTodo.tags,
+						status: remoteTodo.status,
+						position: remoteTodo.position,
+						editedAt: remoteTodo.editedAt,
+						fieldEditedAt: remoteTodo.fieldEditedAt,
+						heading: newTodo.heading,
+					};
+					currentTodosMap.set(newTodo.thingsId, newTodo);
+				});
+			create.catch(() => {});
+			creates.push(create);
 			applied += 1;
 			continue;
 		}
 
-		// Apply remote update if:
-		// - No local state (first sync of this item), OR
-		// - Remote editedAt >= local editedAt (server already resolved ties via userId)
-		// The server only sends items in delta that should be applied.
-		if (
-			!localStateTodo ||
-			compareIso(remoteTodo.editedAt, localStateTodo.editedAt) >= 0
-		) {
-			updateTodo(authToken, localTodo.thingsId, {
-				title: remoteTodo.title,
-				notes: remoteTodo.notes,
-				dueDate: remoteTodo.dueDate || undefined,
-				completed: remoteTodo.status === "completed",
-				canceled: remoteTodo.status === "canceled",
-			});
-			logTodoUpdated(localTodo.thingsId, remoteTodo.title);
-			state.todos[localTodo.thingsId] = {
-				thingsId: localTodo.thingsId,
-				title: remoteTodo.title,
-				notes: remoteTodo.notes,
-				dueDate: remoteTodo.dueDate,
-				tags: remoteTodo.tags,
-				status: remoteTodo.status,
-				position: remoteTodo.position,
-				editedAt: remoteTodo.editedAt,
-			};
-			applied += 1;
-		}
+		// Apply each remote field whose edit is at least as new as the local
+		// one (the server already resolved ties via userId). Without local
+		// state (first sync of this item) every field is applied.
+		const take = new Set(
+			TODO_FIELDS.filter(
+				(field) =>
+					!localStateTodo ||
+					compareIso(
+						remoteTodo.fieldEditedAt?.[field] ?? remoteTodo.editedAt,
+						localStateTodo.fieldEditedAt?.[field] ?? localStateTodo.editedAt,
+					) >= 0,
+			),
+		);
+		if (take.size === 0) continue;
+
+		const base = localStateTodo ?? { ...remoteTodo, heading: undefined };
+		const localHeading = localTodo.heading ?? base.heading ?? null;
+		const heading =
+			take.has("headingId") && headingTitle !== undefined
+				? headingTitle
+				: localHeading;
+		const merged = {
+			title: take.has("title") ? remoteTodo.title : base.title,
+			notes: take.has("notes") ? remoteTodo.notes : base.notes,
+			when: take.has("when") ? remoteTodo.when : base.when,
+			startDate: take.has("startDate") ? remoteTodo.startDate : base.startDate,
+			deadline: take.has("deadline") ? remoteTodo.deadline : base.deadline,
+			tags: take.has("tags") ? remoteTodo.tags : base.tags,
+			status: take.has("status") ? remoteTodo.status : base.status,
+			position: take.has("position") ? remoteTodo.position : base.position,
+		};
+		const fieldEditedAt: FieldTimestamps = Object.fromEntries(
+			TODO_FIELDS.map((field) => [
+				field,
+				take.has(field)
+					? (remoteTodo.fieldEditedAt?.[field] ?? remoteTodo.editedAt)
+					: (base.fieldEditedAt?.[field] ?? base.editedAt),
+			]),
+		);
+
+		const tagsChanged =
+			JSON.stringify(merged.tags) !== JSON.stringify(localTodo.tags);
+		if (tagsChanged) write(ensureTags(things, merged.tags));
+		write(
+			things.updateTodo(localTodo.thingsId, {
+				title: merged.title,
+				notes: merged.notes,
+				when: merged.when,
+				startDate: merged.startDate,
+				deadline: merged.deadline,
+				...(tagsChanged ? { tags: merged.tags } : {}),
+				completed: merged.status === "completed",
+				canceled: merged.status === "canceled",
+				// Moving to the project without a heading puts it at the top level
+				...(heading !== localHeading
+					? { list: projectName, heading: heading ?? undefined }
+					: {}),
+			}),
+		);
+		logTodoUpdated(localTodo.thingsId, merged.title);
+		state.todos[localTodo.thingsId] = {
+			thingsId: localTodo.thingsId,
+			...merged,
+			editedAt: latestTimestamp(fieldEditedAt),
+			fieldEditedAt,
+			heading,
+			checklist: localStateTodo?.checklist,
+		};
+		applied += 1;
 	}
+	const created = await Promise.allSettled(creates);
+	// Saved before anything else can fail: if the daemon dies before the
+	// sync finishes, the next one must not push these todos back as new
+	if (creates.length > 0) persist();
+	for (const result of created) {
+		if (result.status === "rejected") throw result.reason;
+	}
+	await Promise.all(writes);
 
 	for (const deletion of deleted) {
 		const localThingsId = state.serverIdToThingsId[deletion.serverId];
@@ -659,20 +1722,386 @@ async function applyRemoteChanges(
 			continue;
 		}
 
-		conflicts.push({
-			timestamp: new Date().toISOString(),
-			serverId: deletion.serverId,
-			title: localStateTodo.title,
-			yourVersion: {
+		if (deleteAction === "ask") {
+			state.pendingDeletions[deletion.serverId] = {
+				serverId: deletion.serverId,
+				thingsId: localThingsId,
 				title: localStateTodo.title,
-				editedAt: localStateTodo.editedAt,
-			},
-			winningVersion: { deletedAt: deletion.deletedAt },
-			reason: "Remote delete was newer (manual delete required)",
-		});
+				deletedAt: deletion.deletedAt,
+			};
+			logInfo(
+				`"${localStateTodo.title}" was deleted remotely; waiting for "shared-things deletions"`,
+			);
+			pendingDeletions += 1;
+			continue;
+		}
+
+		try {
+			await applyRemoteDeletion(things, state, deletion.serverId, deleteAction);
+			if (deleteAction === "trash") currentTodosMap.delete(localThingsId);
+			applied += 1;
+		} catch (error) {
+			logWarn(
+				`Failed to apply remote delete of ${localThingsId}: ${String(error)}`,
+			);
+			conflicts.push({
+				timestamp: new Date().toISOString(),
+				serverId: deletion.serverId,
+				title: localStateTodo.title,
+				yourVersion: {
+					title: localStateTodo.title,
+					editedAt: localStateTodo.editedAt,
+				},
+				winningVersion: { deletedAt: deletion.deletedAt },
+				reason: "Remote delete was newer (manual delete required)",
+			});
+		}
+	}
+
+	return { applied, conflicts, pendingDeletions };
+}
+
+/**
+ * Carry out another member's deletion in Things. A trashed todo is
+ * forgotten; a canceled one stays mapped, so reopening it brings it back
+ * for everyone.
+ */
+async function applyRemoteDeletion(
+	things: ThingsAdapter,
+	state: LocalState,
+	serverId: string,
+	action: "trash" | "cancel",
+): Promise<void> {
+	const thingsId = state.serverIdToThingsId[serverId];
+	const todo = thingsId ? state.todos[thingsId] : undefined;
+	if (!thingsId || !todo) return;
+
+	if (action === "trash") {
+		await things.trashTodo(thingsId);
+		delete state.todos[thingsId];
+		delete state.serverIdToThingsId[serverId];
+		logInfo(`Moved "${todo.title}" to the Trash (deleted remotely)`);
+	} else {
+		await things.updateTodo(thingsId, { canceled: true });
+		todo.status = "canceled";
+		logInfo(`Canceled "${todo.title}" (deleted remotely)`);
+	}
+	delete state.pendingDeletions[serverId];
+}
+
+/**
+ * Settle a remote deletion the user was asked about: trash or cancel the
+ * todo, or just drop the question (after restoring it on the server).
+ * Returns false if the deletion is no longer pending.
+ */
+export async function resolvePendingDeletion(
+	project: ProjectMapping,
+	serverId: string,
+	action: "trash" | "cancel" | "keep",
+	options: Pick<SyncOptions, "things"> = {},
+): Promise<boolean> {
+	const config = loadConfig();
+	if (!config) {
+		throw new Error('Not configured. Run "shared-things init" first.');
+	}
+	if (!acquireLock()) {
+		throw new Error("A sync is running. Try again in a moment.");
+	}
+
+	try {
+		const stateFile = getStatePath(project.serverProjectId);
+		const state = loadLocalState(stateFile);
+		if (!state.pendingDeletions[serverId]) return false;
+
+		if (action === "keep") {
+			delete state.pendingDeletions[serverId];
+		} else {
+			const things =
+				options.things ?? createThingsAdapter(config.thingsAuthToken);
+			try {
+				await applyRemoteDeletion(things, state, serverId, action);
+			} finally {
+				if (!options.things) things.close();
+			}
+		}
+		saveLocalState(stateFile, state);
+		return true;
+	} finally {
+		releaseLock();
+	}
+}
+
+/**
+ * Remote deletions of a project waiting for the user, oldest first
+ */
+export function listPendingDeletions(
+	project: ProjectMapping,
+): PendingDeletion[] {
+	const state = loadLocalState(getStatePath(project.serverProjectId));
+	return Object.values(state.pendingDeletions).sort((a, b) =>
+		compareIso(a.deletedAt, b.deletedAt),
+	);
+}
+
+/**
+ * Local changes of a project waiting for upload, with the last failed
+ * upload if it hasn't gone through since and the todos parked apart
+ */
+export function getUploadStatus(project: ProjectMapping): {
+	pending: number;
+	failure?: UploadFailure;
+	readOnly: boolean;
+	parked: ParkedTodo[];
+} {
+	const state = loadLocalState(getStatePath(project.serverProjectId));
+	const { dirty, uploadFailure, readOnly, parked } = state;
+	const held = keepParked(state);
+	return {
+		pending:
+			dirty.upserted.length -
+			held.upserted.length +
+			Object.keys(dirty.deleted).length +
+			dirty.headingsUpserted.length +
+			dirty.checklistUpserted.length -
+			held.checklistUpserted.length +
+			Object.keys(dirty.checklistDeleted).length,
+		failure: uploadFailure,
+		readOnly: readOnly ?? false,
+		parked: Object.values(parked),
+	};
+}
+
+/**
+ * Move todos in Things into the order of their server positions, moving as
+ * few as possible. Todos only move among those under the same heading.
+ */
+async function reorderTodos(
+	things: ThingsAdapter,
+	projectName: string,
+	state: LocalState,
+): Promise<void> {
+	const moves: Promise<void>[] = [];
+	const groups = new Map<string | null | undefined, string[]>();
+	for (const todo of await things.getTodosFromProject(projectName)) {
+		if (!state.todos[todo.thingsId]) continue;
+		const group = groups.get(todo.heading) ?? [];
+		group.push(todo.thingsId);
+		groups.set(todo.heading, group);
+	}
+
+	for (const current of groups.values()) {
+		// Stable sort: todos sharing a position keep their current order
+		const desired = [...current].sort(
+			(a, b) => state.todos[a].position - state.todos[b].position,
+		);
+		const rank = new Map(desired.map((thingsId, index) => [thingsId, index]));
+		const keptIndices = longestOrderedRun(
+			current.map((thingsId) => rank.get(thingsId)),
+		);
+		const kept = new Set([...keptIndices].map((index) => current[index]));
+		if (kept.size === desired.length) continue;
+
+		// Right to left, so every anchor is already in its final place
+		const lastKept = desired.filter((thingsId) => kept.has(thingsId)).at(-1);
+		for (let index = desired.length - 1; index >= 0; index--) {
+			const thingsId = desired[index];
+			if (kept.has(thingsId)) continue;
+			const following = desired[index + 1];
+			const anchor =
+				following !== undefined
+					? things.moveTodo(thingsId, "before", following)
+					: lastKept !== undefined
+						? things.moveTodo(thingsId, "after", lastKept)
+						: undefined;
+			moves.push(
+				anchor?.catch((error) => {
+					logWarn(`Failed to move ${thingsId}: ${String(error)}`);
+				}) ?? Promise.resolve(),
+			);
+		}
+		logDebug(
+			`[${projectName}] Reordered ${desired.length - kept.size} todo(s) to match the server`,
+		);
+	}
+	await Promise.all(moves);
+}
+
+/**
+ * Apply remote checklist changes, rewriting each touched checklist in Things
+ * only when the result differs from what Things currently shows.
+ */
+async function applyRemoteChecklistChanges(
+	things: ThingsAdapter,
+	upserted: ChecklistItem[],
+	deleted: { serverId: string; deletedAt: string }[],
+	currentTodosMap: Map<string, ThingsTodo>,
+	state: LocalState,
+): Promise<number> {
+	let applied = 0;
+	const writes: Promise<void>[] = [];
+	const touched = new Map<string, Map<string, number>>();
+
+	const touch = (thingsId: string) => {
+		let positions = touched.get(thingsId);
+		if (!positions) {
+			positions = new Map();
+			touched.set(thingsId, positions);
+		}
+		return positions;
+	};
+
+	for (const remote of upserted) {
+		const thingsId = state.serverIdToThingsId[remote.todoId];
+		const todo = thingsId ? state.todos[thingsId] : undefined;
+		if (!thingsId || !todo) continue;
+
+		const checklist = todo.checklist ?? [];
+		todo.checklist = checklist;
+		let item = checklist.find((i) => i.serverId === remote.id);
+		if (item) {
+			if (compareIso(remote.editedAt, item.editedAt) < 0) continue;
+			item.title = remote.title;
+			item.completed = remote.completed;
+			item.editedAt = remote.editedAt;
+		} else {
+			item = {
+				localId: randomUUID(),
+				serverId: remote.id,
+				title: remote.title,
+				completed: remote.completed,
+				editedAt: remote.editedAt,
+			};
+			checklist.push(item);
+		}
+		touch(thingsId).set(item.localId, remote.position);
+		applied += 1;
+	}
+
+	for (const deletion of deleted) {
+		for (const [thingsId, todo] of Object.entries(state.todos)) {
+			const checklist = todo.checklist ?? [];
+			const item = checklist.find((i) => i.serverId === deletion.serverId);
+			if (!item) continue;
+			if (compareIso(deletion.deletedAt, item.editedAt) < 0) break;
+			todo.checklist = checklist.filter((i) => i !== item);
+			touch(thingsId);
+			applied += 1;
+			break;
+		}
 	}
 
-	return { applied, conflicts };
+	for (const [thingsId, positions] of touched) {
+		const todo = state.todos[thingsId];
+		if (!todo?.checklist) continue;
+
+		// Remote items take their server position, others keep their index
+		const order = new Map(
+			todo.checklist.map((item, index) => [
+				item,
+				positions.get(item.localId) ?? index,
+			]),
+		);
+		todo.checklist.sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0));
+
+		const items = todo.checklist.map(({ title, completed }) => ({
+			title,
+			completed,
+		}));
+		const current = currentTodosMap.get(thingsId)?.checklistItems;
+		if (current && checklistEquals(current, items)) continue;
+
+		writes.push(
+			things.setChecklistItems(thingsId, items).then(
+				() => {
+					logDebug(`Checklist updated: ${thingsId} (${items.length} items)`);
+				},
+				(error) => {
+					logWarn(
+						`Failed to update checklist for ${thingsId}: ${String(error)}`,
+					);
+				},
+			),
+		);
+	}
+	await Promise.all(writes);
+
+	return applied;
+}
+
+/**
+ * Apply remote heading changes to local state. Things has no way to rename
+ * or delete headings from outside, so those are only logged.
+ */
+function applyRemoteHeadings(
+	upserted: Heading[],
+	deleted: { serverId: string; deletedAt: string }[],
+	state: LocalState,
+): void {
+	for (const remote of upserted) {
+		const local =
+			state.headings.find((h) => h.serverId === remote.id) ??
+			state.headings.find((h) => !h.serverId && h.title === remote.title);
+
+		if (!local) {
+			state.headings.push({
+				localId: randomUUID(),
+				serverId: remote.id,
+				title: remote.title,
+				position: remote.position,
+				editedAt: remote.editedAt,
+			});
+			continue;
+		}
+
+		// Keep the Things title so local todos still resolve to this heading
+		if (local.title !== remote.title) {
+			logWarn(
+				`Heading "${local.title}" was renamed to "${remote.title}" remotely; rename it in Things to match`,
+			);
+		}
+		local.serverId = remote.id;
+		local.position = remote.position;
+		local.editedAt = remote.editedAt;
+	}
+
+	for (const deletion of deleted) {
+		const removed = state.headings.filter(
+			(h) => h.serverId === deletion.serverId,
+		);
+		if (removed.length === 0) continue;
+		state.headings = state.headings.filter(
+			(h) => h.serverId !== deletion.serverId,
+		);
+		logInfo(
+			`Heading "${removed[0].title}" was deleted remotely; its todos move to the top of the project`,
+		);
+	}
+}
+
+function resolveHeadingTitle(
+	state: LocalState,
+	headingId: string | null | undefined,
+): string | null | undefined {
+	// Older servers don't send headingId at all
+	if (headingId === undefined) return undefined;
+	if (headingId === null) return null;
+	return state.headings.find((h) => h.serverId === headingId)?.title;
+}
+
+/**
+ * Create remote tags the user doesn't have yet. A failure only costs the
+ * tags, so the todo itself is still written.
+ */
+async function ensureTags(
+	things: ThingsAdapter,
+	tags: string[],
+): Promise<void> {
+	if (tags.length === 0) return;
+	try {
+		await things.ensureTags(tags);
+	} catch (error) {
+		logWarn(`Failed to create tags ${tags.join(", ")}: ${String(error)}`);
+	}
 }
 
 function invertMapping(mapping: Record<string, string>): Map<string, string> {
@@ -731,22 +2160,40 @@ function validateMapping(
 	}
 }
 
-function compareIso(a: string, b: string): number {
-	return new Date(a).getTime() - new Date(b).getTime();
+function latestTimestamp(timestamps: FieldTimestamps): string {
+	return Object.values(timestamps).reduce((latest, editedAt) =>
+		compareIso(editedAt, latest) > 0 ? editedAt : latest,
+	);
 }
 
-async function findNewTodo(
-	projectName: string,
-	before: Set<string>,
-	title: string,
-): Promise<ThingsTodo | undefined> {
-	for (let attempt = 0; attempt < 3; attempt++) {
-		await new Promise((resolve) => setTimeout(resolve, 500));
-		const after = getTodosFromProject(projectName);
-		const found = after.find(
-			(t) => !before.has(t.thingsId) && t.title === title,
-		);
-		if (found) return found;
-	}
-	return undefined;
+/**
+ * Record another failed upload. The wait doubles with every failure in a
+ * row and is randomized, so daemons that lost the server together don't
+ * all come back at the same moment. It is never shorter than the server's
+ * Retry-After.
+ */
+function uploadFailed(
+	previous: UploadFailure | undefined,
+	error: unknown,
+): UploadFailure {
+	const attempts = (previous?.attempts ?? 0) + 1;
+	const backoff = Math.min(
+		MIN_UPLOAD_RETRY_MS * 2 ** (attempts - 1),
+		MAX_UPLOAD_RETRY_MS,
+	);
+	const delay = Math.max(
+		backoff / 2 + Math.random() * (backoff / 2),
+		error instanceof ApiRequestError ? (error.retryAfterMs ?? 0) : 0,
+	);
+	const now = Date.now();
+	return {
+		attempts,
+		error: error instanceof Error ? error.message : String(error),
+		failedAt: new Date(now).toISOString(),
+		retryAt: new Date(now + delay).toISOString(),
+	};
+}
+
+function compareIso(a: string, b: string): number {
+	return new Date(a).getTime() - new Date(b).getTime();
 }
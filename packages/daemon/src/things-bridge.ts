@@ -0,0 +1,429 @@
+/**
+ * Long-lived JavaScript for Automation (JXA) helper that talks to Things
+ *
+ * A single osascript process answers JSON-RPC 2.0 over stdin/stdout, one
+ * JSON message per line. Calls made in the same tick leave as one batch, so
+ * a sync applying many changes costs one round trip instead of a process
+ * per call.
+ */
+
+import { type ChildProcess, spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+import { logDebug } from "./logger.js";
+
+interface RpcRequest {
+	jsonrpc: "2.0";
+	id: number;
+	method: string;
+	params: unknown;
+}
+
+interface RpcResponse {
+	jsonrpc: "2.0";
+	id: number;
+	result?: unknown;
+	error?: { code: number; message: string };
+}
+
+interface PendingCall {
+	resolve: (result: unknown) => void;
+	reject: (error: Error) => void;
+	timer: NodeJS.Timeout;
+}
+
+/**
+ * Runs inside osascript. Scripting covers reads, creates and most updates;
+ * what only the URL scheme can do (This Evening, headings, checklists,
+ * clearing a deadline) is collected per batch and sent as one `json` URL.
+ */
+const BRIDGE_SCRIPT = String.raw`
+ObjC.import("Foundation");
+ObjC.import("AppKit");
+
+const Things = Application("Things3");
+const authToken = ObjC.unwrap(
+	$.NSProcessInfo.processInfo.environment.objectForKey("THINGS_AUTH_TOKEN"),
+) || "";
+const input = $.NSFileHandle.fileHandleWithStandardInput;
+const output = $.NSFileHandle.fileHandleWithStandardOutput;
+const jsonOperations = [];
+
+function send(message) {
+	const line = $(JSON.stringify(message) + "\n");
+	output.writeData(line.dataUsingEncoding($.NSUTF8StringEncoding));
+}
+
+function pad(value) {
+	return ("0" + value).slice(-2);
+}
+
+function formatDate(date) {
+	if (!date) return null;
+	return date.getFullYear() + "-" + pad(date.getMonth() + 1) + "-" + pad(date.getDate());
+}
+
+function parseDate(value) {
+	const parts = value.split("-").map(Number);
+	return new Date(parts[0], parts[1] - 1, parts[2]);
+}
+
+function urlUpdate(thingsId, attributes) {
+	jsonOperations.push({ type: "to-do", operation: "update", id: thingsId, attributes: attributes });
+}
+
+// One Apple Event per property for the whole list, not per todo
+function readTodos(todos) {
+	const ids = todos.id();
+	if (ids.length === 0) return [];
+	const names = todos.name();
+	const notes = todos.notes();
+	const statuses = todos.status();
+	const tagNames = todos.tagNames();
+	const dueDates = todos.dueDate();
+	const activationDates = todos.activationDate();
+	const today = Things.lists.byName("Today").toDos.id();
+	const someday = Things.lists.byName("Someday").toDos.id();
+
+	return ids.map(function (thingsId, index) {
+		const todo = Things.toDos.byId(thingsId);
+		const when = today.indexOf(thingsId) !== -1
+			? "today"
+			: someday.indexOf(thingsId) !== -1 ? "someday" : "anytime";
+
+		// Left out when unreadable, which the daemon reads as unknown
+		let heading;
+		try {
+			const parent = todo.heading();
+			heading = parent ? parent.name() : null;
+		} catch (error) {}
+
+		let checklistItems = null;
+		try {
+			checklistItems = todo.checklistItems().map(function (item) {
+				return { title: item.name(), completed: item.status() === "completed" };
+			});
+		} catch (error) {}
+
+		return {
+			thingsId: thingsId,
+			title: names[index] || "",
+			notes: notes[index] || "",
+			when: when,
+			startDate: when === "anytime" ? formatDate(activationDates[index]) : null,
+			deadline: formatDate(dueDates[index]),
+			tags: tagNames[index] ? tagNames[index].split(", ").filter(Boolean) : [],
+			status: statuses[index] === "completed" || statuses[index] === "canceled"
+				? statuses[index]
+				: "open",
+			heading: heading,
+			checklistItems: checklistItems,
+		};
+	});
+}
+
+function setWhen(todo, when, startDate) {
+	if (startDate) {
+		Things.schedule(todo, { for: parseDate(startDate) });
+	} else if (when === "evening") {
+		urlUpdate(todo.id(), { when: "evening" });
+	} else if (when) {
+		const list = { today: "Today", anytime: "Anytime", someday: "Someday" }[when];
+		Things.move(todo, { to: Things.lists.byName(list) });
+	}
+}
+
+const methods = {
+	getTodos: function (params) {
+		return readTodos(Things.projects.byName(params.project).toDos);
+	},
+
+	// Scripting rather than a json "create": only it hands back the new ID
+	createTodo: function (params) {
+		const spec = params.todo;
+		const properties = { name: spec.title, notes: spec.notes || "" };
+		if (spec.tags && spec.tags.length) properties.tagNames = spec.tags.join(", ");
+		if (spec.deadline) properties.dueDate = parseDate(spec.deadline);
+
+		const todo = Things.ToDo(properties);
+		Things.projects.byName(params.project).toDos.push(todo);
+		const thingsId = todo.id();
+		setWhen(todo, spec.when, spec.startDate);
+		if (spec.status && spec.status !== "open") todo.status = spec.status;
+		if (spec.heading) urlUpdate(thingsId, { heading: spec.heading });
+
+		// Built from the request instead of read back, which would cost a dozen
+		// Apple Events per todo; only tags are read, as Things drops unknown ones
+		const tagNames = todo.tagNames();
+		return {
+			thingsId: thingsId,
+			title: spec.title,
+			notes: spec.notes || "",
+			when: spec.startDate ? "anytime" : spec.when || "anytime",
+			startDate: spec.startDate || null,
+			deadline: spec.deadline || null,
+			tags: tagNames ? tagNames.split(", ").filter(Boolean) : [],
+			status: spec.status || "open",
+			heading: spec.heading || null,
+			checklistItems: [],
+		};
+	},
+
+	updateTodo: function (params) {
+		const todo = Things.toDos.byId(params.thingsId);
+		const updates = params.updates;
+		if (updates.title !== undefined) todo.name = updates.title;
+		if (updates.notes !== undefined) todo.notes = updates.notes;
+		if (updates.tags !== undefined) todo.tagNames = updates.tags.join(", ");
+		if (updates.when !== undefined || updates.startDate) {
+			setWhen(todo, updates.when, updates.startDate);
+		}
+		if (updates.deadline) {
+			todo.dueDate = parseDate(updates.deadline);
+		} else if (updates.deadline === null) {
+			urlUpdate(params.thingsId, { deadline: "" });
+		}
+		if (updates.completed) {
+			todo.status = "completed";
+		} else if (updates.canceled) {
+			todo.status = "canceled";
+		} else if (updates.completed === false || updates.canceled === false) {
+			todo.status = "open";
+		}
+		if (updates.list !== undefined) {
+			Things.move(todo, { to: Things.projects.byName(updates.list) });
+			if (updates.heading) urlUpdate(params.thingsId, { heading: updates.heading });
+		}
+	},
+
+	setChecklistItems: function (params) {
+		urlUpdate(params.thingsId, {
+			"checklist-items": params.items.map(function (item) {
+				return {
+					type: "checklist-item",
+					attributes: { title: item.title, completed: item.completed },
+				};
+			}),
+		});
+	},
+
+	ensureTags: function (params) {
+		params.names.forEach(function (name) {
+			if (!Things.tags.byName(name).exists()) {
+				Things.make({ new: "tag", withProperties: { name: name } });
+			}
+		});
+	},
+
+	trashTodo: function (params) {
+		Things.delete(Things.toDos.byId(params.thingsId));
+	},
+
+	moveTodo: function (params) {
+		const anchor = Things.toDos.byId(params.anchorId);
+		Things.move(Things.toDos.byId(params.thingsId), {
+			to: params.placement === "before" ? anchor.before : anchor.after,
+		});
+	},
+};
+
+// Kept well below what Things accepts in one json command
+const MAX_JSON_OPERATIONS = 100;
+const MAX_JSON_DATA_LENGTH = 60000;
+
+// Opens the collected URL scheme changes without bringing Things forward,
+// split into chunks rather than cutting anything off
+function flushJsonOperations() {
+	let chunk = [];
+	let length = 0;
+	jsonOperations.splice(0).forEach(function (operation) {
+		const size = encodeURIComponent(JSON.stringify(operation)).length;
+		if (chunk.length >= MAX_JSON_OPERATIONS || (chunk.length > 0 && length + size > MAX_JSON_DATA_LENGTH)) {
+			openJsonUrl(chunk);
+			chunk = [];
+			length = 0;
+		}
+		chunk.push(operation);
+		length += size;
+	});
+	if (chunk.length > 0) openJsonUrl(chunk);
+}
+
+function openJsonUrl(operations) {
+	const url = "things:///json?auth-token=" + encodeURIComponent(authToken) +
+		"&data=" + encodeURIComponent(JSON.stringify(operations));
+	$.NSWorkspace.sharedWorkspace.openURLsWithAppBundleIdentifierOptionsAdditionalEventParamDescriptorLaunchIdentifiers(
+		$([$.NSURL.URLWithString(url)]),
+		"com.culturedcode.ThingsMac",
+		$.NSWorkspaceLaunchWithoutActivation,
+		$(),
+		$(),
+	);
+}
+
+function handleBatch(requests) {
+	const responses = requests.map(function (request) {
+		const method = methods[request.method];
+		if (!method) {
+			return {
+				jsonrpc: "2.0",
+				id: request.id,
+				error: { code: -32601, message: "Unknown method " + request.method },
+			};
+		}
+		try {
+			const result = method(request.params);
+			return { jsonrpc: "2.0", id: request.id, result: result === undefined ? null : result };
+		} catch (error) {
+			return { jsonrpc: "2.0", id: request.id, error: { code: -32000, message: String(error) } };
+		}
+	});
+	try {
+		flushJsonOperations();
+	} catch (error) {}
+	return responses;
+}
+
+// Lines may arrive split anywhere, even inside a multi-byte character
+const buffer = $.NSMutableData.data;
+for (;;) {
+	const data = input.availableData;
+	if (data.length === 0) break;
+	buffer.appendData(data);
+
+	const text = $.NSString.alloc.initWithDataEncoding(buffer, $.NSUTF8StringEncoding);
+	if (text.isNil()) continue;
+	const lines = text.js.split("\n");
+	const rest = lines.pop();
+	buffer.setData($(rest).dataUsingEncoding($.NSUTF8StringEncoding));
+	lines.forEach(function (line) {
+		if (line) send(handleBatch(JSON.parse(line)));
+	});
+}
+`;
+
+const OSASCRIPT = ["osascript", "-l", "JavaScript", "-e", BRIDGE_SCRIPT];
+
+export class ThingsBridge {
+	private static readonly CALL_TIMEOUT_MS = 60_000;
+
+	private child: ChildProcess | null = null;
+	private nextId = 1;
+	private pending = new Map<number, PendingCall>();
+	private queue: RpcRequest[] = [];
+
+	/** `command` starts the helper; tests swap in their own process */
+	constructor(
+		private authToken: string,
+		private command: readonly string[] = OSASCRIPT,
+	) {}
+
+	/** Call a bridge method; calls made in the same tick share one batch */
+	call<T>(method: string, params: unknown): Promise<T> {
+		const request: RpcRequest = {
+			jsonrpc: "2.0",
+			id: this.nextId++,
+			method,
+			params,
+		};
+
+		return new Promise<T>((resolve, reject) => {
+			const timer = setTimeout(() => {
+				// A stuck helper won't answer anything else either
+				this.fail(new Error(`Things did not answer ${method} in time`));
+				this.close();
+			}, ThingsBridge.CALL_TIMEOUT_MS);
+			this.pending.set(request.id, {
+				resolve: resolve as (result: unknown) => void,
+				reject,
+				timer,
+			});
+			this.queue.push(request);
+			if (this.queue.length === 1) queueMicrotask(() => this.flush());
+		});
+	}
+
+	/** Stop the helper; the next call starts a new one */
+	close(): void {
+		const child = this.child;
+		this.child = null;
+		child?.stdin?.end();
+		child?.kill();
+	}
+
+	private flush(): void {
+		const batch = this.queue;
+		this.queue = [];
+		if (batch.length === 0) return;
+		logDebug(`Things bridge: ${batch.map((r) => r.method).join(", ")}`);
+		this.start().stdin?.write(`${JSON.stringify(batch)}\n`);
+	}
+
+	private start(): ChildProcess {
+		if (this.child) return this.child;
+
+		const [file, ...args] = this.command;
+		const child = spawn(file, args, {
+			env: { ...process.env, THINGS_AUTH_TOKEN: this.authToken },
+			stdio: ["pipe", "pipe", "pipe"],
+		});
+		this.child = child;
+
+		if (child.stdout) {
+			createInterface({ input: child.stdout }).on("line", (line) => {
+				this.receive(line);
+			});
+		}
+		child.stderr?.on("data", (data: Buffer) => {
+			logDebug(`Things bridge stderr: ${data.toString().trim()}`);
+		});
+		// Calls already moved on to a newer helper don't fail with this one
+		const stopped = (error: Error) => {
+			if (this.child !== null && this.child !== child) return;
+			this.child = null;
+			this.fail(error);
+		};
+		child.on("error", (error) => {
+			stopped(new Error(`Things bridge failed to start: ${error.message}`));
+		});
+		child.on("exit", (code) => {
+			stopped(new Error(`Things bridge exited with code ${code}`));
+		});
+		// Writing to a helper that died since the last batch fails with EPIPE
+		child.stdin?.on("error", (error) => {
+			stopped(new Error(`Things bridge stopped reading: ${error.message}`));
+			child.kill();
+		});
+		return child;
+	}
+
+	private receive(line: string): void {
+		let responses: RpcResponse[];
+		try {
+			responses = JSON.parse(line) as RpcResponse[];
+		} catch {
+			logDebug(`Things bridge sent invalid JSON: ${line}`);
+			return;
+		}
+
+		for (const response of responses) {
+			const call = this.pending.get(response.id);
+			if (!call) continue;
+			this.pending.delete(response.id);
+			clearTimeout(call.timer);
+			if (response.error) {
+				call.reject(new Error(`Things: ${response.error.message}`));
+			} else {
+				call.resolve(response.result);
+			}
+		}
+	}
+
+	/** Reject every call still waiting for an answer */
+	private fail(error: Error): void {
+		for (const call of this.pending.values()) {
+			clearTimeout(call.timer);
+			call.reject(error);
+		}
+		this.pending.clear();
+	}
+}
@@ -1,25 +1,102 @@
 /**
- * Things 3 integration via AppleScript and URL Scheme
+ * Things 3 integration: sync goes through the JXA bridge, one-off CLI checks
+ * use AppleScript
  */
 
 import { execSync } from "node:child_process";
-import { logWarn } from "./logger.js";
+import type { TodoWhen } from "@shared-things/common";
+import { ThingsBridge } from "./things-bridge.js";
+
+export interface ThingsChecklistItem {
+	title: string;
+	completed: boolean;
+}
 
 export interface ThingsTodo {
 	thingsId: string;
 	title: string;
 	notes: string;
-	dueDate: string | null;
+	/** "evening" reads as "today": scripting can't tell them apart */
+	when: TodoWhen;
+	/** Start date (YYYY-MM-DD) of a todo scheduled for later */
+	startDate: string | null;
+	deadline: string | null;
 	tags: string[];
 	status: "open" | "completed" | "canceled";
+	/** Heading title (null = not under a heading, undefined = unreadable) */
+	heading?: string | null;
+	/** Checklist in display order, or null if it could not be read */
+	checklistItems: ThingsChecklistItem[] | null;
 }
 
-const PIPE_TOKEN = "{{PIPE}}";
-const CARET_TOKEN = "{{CARET}}";
-const MAX_URL_LENGTH = 2000;
+export interface NewThingsTodo {
+	title: string;
+	notes?: string;
+	when?: TodoWhen;
+	/** Scheduled date, overrides when */
+	startDate?: string | null;
+	deadline?: string | null;
+	tags?: string[];
+	status?: ThingsTodo["status"];
+	/** Heading title within the project */
+	heading?: string;
+}
+
+export interface ThingsTodoUpdate {
+	title?: string;
+	notes?: string;
+	when?: TodoWhen;
+	/** Scheduled date, overrides when */
+	startDate?: string | null;
+	/** null clears the deadline */
+	deadline?: string | null;
+	/** Replaces every tag; names Things doesn't know are dropped */
+	tags?: string[];
+	completed?: boolean;
+	canceled?: boolean;
+	/** Move into this project (top level unless heading is set) */
+	list?: string;
+	/** Heading title within list */
+	heading?: string;
+}
 
 /**
- * Execute AppleScript and return result
+ * Everything sync needs from Things. The default adapter talks to the app;
+ * tests swap in an in-memory one.
+ */
+export interface ThingsAdapter {
+	getTodosFromProject(projectName: string): Promise<ThingsTodo[]>;
+	/** Create a todo and resolve with it as Things lists it */
+	createTodo(projectName: string, todo: NewThingsTodo): Promise<ThingsTodo>;
+	updateTodo(thingsId: string, updates: ThingsTodoUpdate): Promise<void>;
+	setChecklistItems(
+		thingsId: string,
+		items: ThingsChecklistItem[],
+	): Promise<void>;
+	/** Create the tags Things doesn't have yet (writes drop unknown tags) */
+	ensureTags(names: string[]): Promise<void>;
+	/** Move a todo to the Trash */
+	trashTodo(thingsId: string): Promise<void>;
+	/** Move a todo right before or after another one in the same list */
+	moveTodo(
+		thingsId: string,
+		placement: "before" | "after",
+		anchorId: string,
+	): Promise<void>;
+	/** Let go of Things (the adapter reconnects when used again) */
+	close(): void;
+}
+
+/**
+ * Quote a value as an AppleScript string literal
+ */
+function appleScriptString(value: string): string {
+	return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Execute AppleScript and return result (one-off CLI checks; sync goes
+ * through the bridge)
  */
 function runAppleScript(script: string): string {
 	try {
@@ -33,154 +110,41 @@ function runAppleScript(script: string): string {
 }
 
 /**
- * Get all todos from a Things project
- */
-export function getTodosFromProject(projectName: string): ThingsTodo[] {
-	const script = `
-    on replaceText(findText, replaceText, theText)
-      set AppleScript's text item delimiters to findText
-      set theItems to every text item of theText
-      set AppleScript's text item delimiters to replaceText
-      set theText to theItems as string
-      set AppleScript's text item delimiters to ""
-      return theText
-    end replaceText
-
-    on escapeText(t)
-      if t is missing value then return ""
-      set t to my replaceText("|||", "${PIPE_TOKEN}", t as string)
-      set t to my replaceText("^^^", "${CARET_TOKEN}", t as string)
-      return t
-    end escapeText
-
-    tell application "Things3"
-      set todoList to {}
-      set proj to project "${projectName}"
-      repeat with t in to dos of proj
-        set todoId to id of t
-        set todoTitle to my escapeText(name of t)
-        set todoNotes to my escapeText(notes of t)
-        set todoStatus to status of t
-        set todoDue to due date of t
-        set AppleScript's text item delimiters to ", "
-        set todoTags to my escapeText((tag names of t) as string)
-        set AppleScript's text item delimiters to ""
-
-        -- Format due date
-        set dueDateStr to ""
-        if todoDue is not missing value then
-          set dueDateStr to (year of todoDue as string) & "-" & ¬
-            (text -2 thru -1 of ("0" & (month of todoDue as integer) as string)) & "-" & ¬
-            (text -2 thru -1 of ("0" & (day of todoDue) as string))
-        end if
-
-        -- Format status
-        set statusStr to "open"
-        if todoStatus is completed then
-          set statusStr to "completed"
-        else if todoStatus is canceled then
-          set statusStr to "canceled"
-        end if
-
-        set end of todoList to todoId & "|||" & todoTitle & "|||" & todoNotes & "|||" & dueDateStr & "|||" & todoTags & "|||" & statusStr
-      end repeat
-
-      set AppleScript's text item delimiters to "^^^"
-      return todoList as string
-    end tell
-  `;
-
-	const result = runAppleScript(script);
-	if (!result) return [];
-
-	return result.split("^^^").map((line) => {
-		const [thingsId, title, notes, dueDate, tags, status] = line.split("|||");
-		const decodedTitle = unescapeField(title);
-		const decodedNotes = unescapeField(notes);
-		const decodedTags = unescapeField(tags);
-		return {
-			thingsId,
-			title: decodedTitle || "",
-			notes: decodedNotes || "",
-			dueDate: dueDate || null,
-			tags: decodedTags ? decodedTags.split(", ").filter(Boolean) : [],
-			status: (status as "open" | "completed" | "canceled") || "open",
-		};
-	});
-}
-
-function unescapeField(value: string): string {
-	if (!value) return "";
-	return value.replaceAll(PIPE_TOKEN, "|||").replaceAll(CARET_TOKEN, "^^^");
-}
-
-/**
- * Create a new todo in Things via URL scheme
+ * Adapter backed by the Things app, through one long-lived JXA helper
  */
-export function createTodo(
-	projectName: string,
-	todo: {
-		title: string;
-		notes?: string;
-		dueDate?: string;
-		tags?: string[];
-	},
-): void {
-	const params = new URLSearchParams();
-	params.set("title", todo.title);
-	if (todo.notes) params.set("notes", todo.notes);
-	if (todo.dueDate) params.set("when", todo.dueDate);
-	if (todo.tags?.length) params.set("tags", todo.tags.join(","));
-	params.set("list", projectName);
-
-	// URLSearchParams encodes spaces as '+', but Things expects '%20'
-	let url = `things:///add?${params.toString().replace(/\+/g, "%20")}`;
-	if (url.length > MAX_URL_LENGTH && todo.notes) {
-		const originalNotes = todo.notes;
-		let truncated = originalNotes;
-		while (truncated.length > 0 && url.length > MAX_URL_LENGTH) {
-			truncated = truncated.slice(0, Math.max(0, truncated.length - 200));
-			params.set("notes", truncated);
-			url = `things:///add?${params.toString().replace(/\+/g, "%20")}`;
-		}
-		logWarn(
-			`Create URL exceeded ${MAX_URL_LENGTH} chars; notes truncated from ${originalNotes.length} to ${truncated.length}`,
-		);
-	}
-	// -g flag opens in background without stealing focus
-	execSync(`open -g "${url}"`);
+export function createThingsAdapter(authToken: string): ThingsAdapter {
+	const bridge = new ThingsBridge(authToken);
+
+	return {
+		getTodosFromProject: (projectName) =>
+			bridge.call("getTodos", { project: projectName }),
+		createTodo: (projectName, todo) =>
+			bridge.call("createTodo", { project: projectName, todo }),
+		updateTodo: (thingsId, updates) =>
+			bridge.call("updateTodo", { thingsId, updates }),
+		setChecklistItems: (thingsId, items) =>
+			bridge.call("setChecklistItems", { thingsId, items }),
+		ensureTags: (names) =>
+			names.length > 0
+				? bridge.call("ensureTags", { names })
+				: Promise.resolve(),
+		trashTodo: (thingsId) => bridge.call("trashTodo", { thingsId }),
+		moveTodo: (thingsId, placement, anchorId) =>
+			bridge.call("moveTodo", { thingsId, placement, anchorId }),
+		close: () => bridge.close(),
+	};
 }
 
 /**
- * Update an existing todo via URL scheme
+ * Count the todos of a Things project
  */
-export function updateTodo(
-	authToken: string,
-	thingsId: string,
-	updates: {
-		title?: string;
-		notes?: string;
-		dueDate?: string;
-		completed?: boolean;
-		canceled?: boolean;
-	},
-): void {
-	const params = new URLSearchParams();
-	params.set("auth-token", authToken);
-	params.set("id", thingsId);
-
-	if (updates.title !== undefined) params.set("title", updates.title);
-	if (updates.notes !== undefined) params.set("notes", updates.notes);
-	if (updates.dueDate !== undefined) params.set("when", updates.dueDate);
-	if (updates.completed !== undefined)
-		params.set("completed", updates.completed.toString());
-	if (updates.canceled !== undefined)
-		params.set("canceled", updates.canceled.toString());
-
-	// URLSearchParams encodes spaces as '+', but Things expects '%20'
-	const url = `things:///update?${params.toString().replace(/\+/g, "%20")}`;
-	// -g flag opens in background without stealing focus
-	execSync(`open -g "${url}"`);
+export function countTodosInProject(projectName: string): number {
+	const result = runAppleScript(`
+    tell application "Things3"
+      return count of to dos of project ${appleScriptString(projectName)}
+    end tell
+  `);
+	return Number.parseInt(result, 10) || 0;
 }
 
 /**
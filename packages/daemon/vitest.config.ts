@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	test: {
+		name: "daemon",
+		include: ["src/__tests__/**/*.test.ts"],
+		// Sequential execution: clients share process.env while syncing
+		fileParallelism: false,
+		// Longer timeout for integration tests
+		testTimeout: 10000,
+	},
+});
@@ -0,0 +1,97 @@
+/**
+ * API key rotation and revocation tests
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+	addProjectMember,
+	createApiKey,
+	createUser,
+	listApiKeys,
+	revokeApiKey,
+	rotateApiKey,
+} from "../db.js";
+import { apiRequest, createTestServer, type TestContext } from "./setup.js";
+
+describe("API keys", () => {
+	let ctx: TestContext;
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	/** A user of the default project, so keys can be spent freely */
+	function newUser(name: string) {
+		const user = createUser(ctx.db, name);
+		addProjectMember(ctx.db, "default", user.id);
+		return user;
+	}
+
+	async function stateStatus(apiKey: string) {
+		return (await apiRequest(ctx, "GET", "/state", { apiKey })).status;
+	}
+
+	it("should accept every active key of a user", async () => {
+		const user = newUser("Laptop");
+		const second = createApiKey(ctx.db, user.id, "desktop");
+
+		expect(await stateStatus(user.apiKey)).toBe(200);
+		expect(await stateStatus(second.apiKey)).toBe(200);
+		expect(listApiKeys(ctx.db, user.id).map((k) => k.label)).toEqual([
+			"default",
+			"desktop",
+		]);
+	});
+
+	it("should record when a key was last used", async () => {
+		const user = newUser("Recorded");
+		expect(listApiKeys(ctx.db, user.id)[0].lastUsedAt).toBeNull();
+
+		await stateStatus(user.apiKey);
+
+		expect(listApiKeys(ctx.db, user.id)[0].lastUsedAt).toEqual(
+			expect.any(String),
+		);
+	});
+
+	it("should reject a revoked key", async () => {
+		const user = newUser("Revoked");
+		const keyId = listApiKeys(ctx.db, user.id)[0].id;
+
+		expect(revokeApiKey(ctx.db, user.id, keyId)).toBe(true);
+		expect(revokeApiKey(ctx.db, user.id, keyId)).toBe(false);
+
+		const { status, data } = await apiRequest(ctx, "GET", "/state", {
+			apiKey: user.apiKey,
+		});
+		expect(status).toBe(401);
+		expect(data).toMatchObject({ code: "UNAUTHORIZED" });
+	});
+
+	it("should only revoke keys of the given user", async () => {
+		const user = newUser("Owner");
+		const keyId = listApiKeys(ctx.db, user.id)[0].id;
+
+		expect(revokeApiKey(ctx.db, ctx.userA.id, keyId)).toBe(false);
+		expect(await stateStatus(user.apiKey)).toBe(200);
+	});
+
+	it("should revoke the old keys when rotating", async () => {
+		const user = newUser("Rotated");
+		const other = createApiKey(ctx.db, user.id, "phone");
+
+		const rotated = rotateApiKey(ctx.db, user.id, "default");
+
+		expect(rotated.revoked).toBe(2);
+		expect(await stateStatus(user.apiKey)).toBe(401);
+		expect(await stateStatus(other.apiKey)).toBe(401);
+		expect(await stateStatus(rotated.apiKey)).toBe(200);
+		expect(
+			listApiKeys(ctx.db, user.id).filter((k) => !k.revokedAt),
+		).toMatchObject([{ id: rotated.id }]);
+	});
+});
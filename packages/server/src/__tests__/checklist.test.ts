@@ -0,0 +1,279 @@
+/**
+ * Checklist item sync tests
+ */
+
+import * as crypto from "node:crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+	apiRequest,
+	createTestServer,
+	createTodoViaApi,
+	type TestContext,
+	timestamp,
+} from "./setup.js";
+
+type ChecklistItemResponse = {
+	id: string;
+	todoId: string;
+	title: string;
+	completed: boolean;
+	position: number;
+};
+
+describe("Checklist items", () => {
+	let ctx: TestContext;
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	async function pushChecklist(
+		apiKey: string,
+		upserted: unknown[],
+		deleted: unknown[] = [],
+	) {
+		return apiRequest(ctx, "POST", "/push", {
+			apiKey,
+			body: {
+				todos: { upserted: [], deleted: [] },
+				checklistItems: { upserted, deleted },
+				lastSyncedAt: "1970-01-01T00:00:00.000Z",
+			},
+		});
+	}
+
+	async function getItems(todoId: string): Promise<ChecklistItemResponse[]> {
+		const { data } = await apiRequest(ctx, "GET", "/state", {
+			apiKey: ctx.userA.apiKey,
+		});
+		return (
+			data as { checklistItems: ChecklistItemResponse[] }
+		).checklistItems.filter((item) => item.todoId === todoId);
+	}
+
+	it("should create checklist items for a todo created in the same push", async () => {
+		const todoClientId = crypto.randomUUID();
+		const itemClientId = crypto.randomUUID();
+
+		const { status, data } = await apiRequest(ctx, "POST", "/push", {
+			apiKey: ctx.userA.apiKey,
+			body: {
+				todos: {
+					upserted: [
+						{
+							clientId: todoClientId,
+							title: "Pack for trip",
+							notes: "",
+							when: "anytime",
+							startDate: null,
+							deadline: null,
+							tags: [],
+							status: "open",
+							position: 0,
+							editedAt: timestamp(),
+						},
+					],
+					deleted: [],
+				},
+				checklistItems: {
+					upserted: [
+						{
+							clientId: itemClientId,
+							todoClientId,
+							title: "Passport",
+							completed: false,
+							position: 0,
+							editedAt: timestamp(),
+						},
+					],
+					deleted: [],
+				},
+				lastSyncedAt: "1970-01-01T00:00:00.000Z",
+			},
+		});
+
+		expect(status).toBe(200);
+		const response = data as {
+			mappings: Array<{ clientId: string; serverId: string }>;
+			checklistMappings: Array<{ clientId: string; serverId: string }>;
+		};
+		expect(response.checklistMappings).toHaveLength(1);
+		expect(response.checklistMappings[0].clientId).toBe(itemClientId);
+
+		const items = await getItems(response.mappings[0].serverId);
+		expect(items).toHaveLength(1);
+		expect(items[0]).toMatchObject({
+			id: response.checklistMappings[0].serverId,
+			title: "Passport",
+			completed: false,
+			position: 0,
+		});
+	});
+
+	it("should update completion when editedAt is newer", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Packing list",
+		});
+		const itemId = crypto.randomUUID();
+
+		await pushChecklist(ctx.userA.apiKey, [
+			{
+				serverId: itemId,
+				todoServerId: todoId,
+				title: "Charger",
+				completed: false,
+				position: 0,
+				editedAt: timestamp(0),
+			},
+		]);
+
+		const { data } = await pushChecklist(ctx.userB.apiKey, [
+			{
+				serverId: itemId,
+				todoServerId: todoId,
+				title: "Charger",
+				completed: true,
+				position: 0,
+				editedAt: timestamp(60000),
+			},
+		]);
+
+		expect(
+			(data as { checklistConflicts?: unknown[] }).checklistConflicts,
+		).toBe(undefined);
+		const items = await getItems(todoId);
+		expect(items[0].completed).toBe(true);
+	});
+
+	it("should reject older edits as conflicts", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Conflicting list",
+		});
+		const itemId = crypto.randomUUID();
+
+		await pushChecklist(ctx.userA.apiKey, [
+			{
+				serverId: itemId,
+				todoServerId: todoId,
+				title: "Newer title",
+				completed: false,
+				position: 0,
+				editedAt: timestamp(60000),
+			},
+		]);
+
+		const { data } = await pushChecklist(ctx.userB.apiKey, [
+			{
+				serverId: itemId,
+				todoServerId: todoId,
+				title: "Older title",
+				completed: false,
+				position: 0,
+				editedAt: timestamp(0),
+			},
+		]);
+
+		const response = data as {
+			checklistConflicts: Array<{
+				serverId: string;
+				reason: string;
+				serverItem: { title: string };
+			}>;
+		};
+		expect(response.checklistConflicts).toHaveLength(1);
+		expect(response.checklistConflicts[0].reason).toBe("Remote edit was newer");
+		expect(response.checklistConflicts[0].serverItem.title).toBe("Newer title");
+	});
+
+	it("should report items whose parent todo does not exist", async () => {
+		const { data } = await pushChecklist(ctx.userA.apiKey, [
+			{
+				clientId: crypto.randomUUID(),
+				todoServerId: crypto.randomUUID(),
+				title: "Orphan",
+				completed: false,
+				position: 0,
+				editedAt: timestamp(),
+			},
+		]);
+
+		const response = data as { checklistConflicts: Array<{ reason: string }> };
+		expect(response.checklistConflicts[0].reason).toBe("Parent todo not found");
+	});
+
+	it("should return deleted checklist items in delta", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Deletion list",
+		});
+		const itemId = crypto.randomUUID();
+		await pushChecklist(ctx.userA.apiKey, [
+			{
+				serverId: itemId,
+				todoServerId: todoId,
+				title: "Sunscreen",
+				completed: false,
+				position: 0,
+				editedAt: timestamp(0),
+			},
+		]);
+
+		const since = new Date().toISOString();
+		await new Promise((r) => setTimeout(r, 10));
+		await pushChecklist(
+			ctx.userB.apiKey,
+			[],
+			[{ serverId: itemId, deletedAt: timestamp(60000) }],
+		);
+
+		const { data } = await apiRequest(
+			ctx,
+			"GET",
+			`/delta?since=${encodeURIComponent(since)}`,
+			{ apiKey: ctx.userA.apiKey },
+		);
+
+		const delta = data as {
+			todos: { deleted: Array<{ serverId: string }> };
+			checklistItems: { deleted: Array<{ serverId: string }> };
+		};
+		expect(delta.checklistItems.deleted.map((d) => d.serverId)).toContain(
+			itemId,
+		);
+		expect(delta.todos.deleted.map((d) => d.serverId)).not.toContain(itemId);
+		expect(await getItems(todoId)).toHaveLength(0);
+	});
+
+	it("should remove checklist items when their todo is deleted", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Deleted with items",
+			editedAt: timestamp(0),
+		});
+		await pushChecklist(ctx.userA.apiKey, [
+			{
+				clientId: crypto.randomUUID(),
+				todoServerId: todoId,
+				title: "Towel",
+				completed: false,
+				position: 0,
+				editedAt: timestamp(0),
+			},
+		]);
+
+		await apiRequest(ctx, "POST", "/push", {
+			apiKey: ctx.userA.apiKey,
+			body: {
+				todos: {
+					upserted: [],
+					deleted: [{ serverId: todoId, deletedAt: timestamp(60000) }],
+				},
+				lastSyncedAt: "1970-01-01T00:00:00.000Z",
+			},
+		});
+
+		expect(await getItems(todoId)).toHaveLength(0);
+	});
+});
@@ -62,7 +62,9 @@ describe("Cross-user conflict resolution", () => {
 								clientId: serverId,
 								title: "Edited by B",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -110,7 +112,9 @@ describe("Cross-user conflict resolution", () => {
 								clientId: serverId,
 								title: "User B Edit (newer)",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -134,7 +138,9 @@ describe("Cross-user conflict resolution", () => {
 								clientId: serverId,
 								title: "User A Edit (older)",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -197,7 +203,9 @@ describe("Cross-user conflict resolution", () => {
 								clientId: serverId,
 								title: "User B Edit (older)",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -221,7 +229,9 @@ describe("Cross-user conflict resolution", () => {
 								clientId: serverId,
 								title: "User A Edit (newer)",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -363,7 +373,9 @@ describe("Cross-user conflict resolution", () => {
 								clientId: serverId,
 								title: "Edited (but deleted)",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -436,7 +448,9 @@ describe("Cross-user conflict resolution", () => {
 								clientId: serverId,
 								title: "Resurrected!",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -492,7 +506,9 @@ describe("Cross-user conflict resolution", () => {
 								clientId: serverId,
 								title: "Winner edit",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -545,7 +561,9 @@ describe("Cross-user conflict resolution", () => {
 								clientId: serverId,
 								title: "Loser edit",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -578,6 +596,120 @@ describe("Cross-user conflict resolution", () => {
 		});
 	});
 
+	describe("field-level merge", () => {
+		async function pushFields(
+			apiKey: string,
+			serverId: string,
+			values: { title: string; notes: string },
+			fieldEditedAt: Record<string, string>,
+		) {
+			return apiRequest(ctx, "POST", "/push", {
+				apiKey,
+				body: {
+					todos: {
+						upserted: [
+							{
+								serverId,
+								...values,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
+								tags: [],
+								status: "open",
+								position: 0,
+								editedAt: Object.values(fieldEditedAt).sort().at(-1),
+								fieldEditedAt,
+							},
+						],
+						deleted: [],
+					},
+					lastSyncedAt: "1970-01-01T00:00:00.000Z",
+					includeState: true,
+				},
+			});
+		}
+
+		it("should merge concurrent edits to different fields", async () => {
+			const serverId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+				title: "Plan trip",
+				editedAt: timestamp(0),
+			});
+
+			// A renames at t+2, B (who hasn't seen that yet) adds notes at t+1
+			const a = await pushFields(
+				ctx.userA.apiKey,
+				serverId,
+				{ title: "Plan trip to Rome", notes: "" },
+				{ title: timestamp(2000) },
+			);
+			const b = await pushFields(
+				ctx.userB.apiKey,
+				serverId,
+				{ title: "Plan trip", notes: "Book hotel" },
+				{ notes: timestamp(1000) },
+			);
+
+			expect((a.data as { conflicts: unknown[] }).conflicts).toHaveLength(0);
+			expect((b.data as { conflicts: unknown[] }).conflicts).toHaveLength(0);
+
+			const { data } = await apiRequest(ctx, "GET", "/state", {
+				apiKey: ctx.userA.apiKey,
+			});
+			const todo = (
+				data as {
+					todos: Array<{
+						id: string;
+						title: string;
+						notes: string;
+						editedAt: string;
+						fieldEditedAt: Record<string, string>;
+					}>;
+				}
+			).todos.find((t) => t.id === serverId);
+			expect(todo).toMatchObject({
+				title: "Plan trip to Rome",
+				notes: "Book hotel",
+				editedAt: timestamp(2000),
+			});
+			expect(todo?.fieldEditedAt).toMatchObject({
+				title: timestamp(2000),
+				notes: timestamp(1000),
+			});
+		});
+
+		it("should report only the field edited on both sides", async () => {
+			const serverId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+				title: "Water plants",
+				editedAt: timestamp(0),
+			});
+
+			await pushFields(
+				ctx.userA.apiKey,
+				serverId,
+				{ title: "Water plants (balcony)", notes: "" },
+				{ title: timestamp(2000) },
+			);
+			const { data } = await pushFields(
+				ctx.userB.apiKey,
+				serverId,
+				{ title: "Water plants (kitchen)", notes: "Twice a week" },
+				{ title: timestamp(1000), notes: timestamp(1000) },
+			);
+
+			const response = data as {
+				conflicts: Array<{ fields?: string[] }>;
+				state: { todos: Array<{ id: string; title: string; notes: string }> };
+			};
+			expect(response.conflicts).toHaveLength(1);
+			expect(response.conflicts[0].fields).toEqual(["title"]);
+			const todo = response.state.todos.find((t) => t.id === serverId);
+			expect(todo).toMatchObject({
+				title: "Water plants (balcony)",
+				notes: "Twice a week",
+			});
+		});
+	});
+
 	describe("simultaneous edits", () => {
 		it("should handle rapid concurrent edits consistently", async () => {
 			// Create base todo
@@ -598,7 +730,9 @@ describe("Cross-user conflict resolution", () => {
 								clientId: serverId,
 								title: "B at t+1",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -622,7 +756,9 @@ describe("Cross-user conflict resolution", () => {
 								clientId: serverId,
 								title: "A at t+2",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -646,7 +782,9 @@ describe("Cross-user conflict resolution", () => {
 								clientId: serverId,
 								title: "B at t+3 (final)",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -129,15 +129,60 @@ describe("GET /delta", () => {
 		expect(found).toBeUndefined();
 	});
 
-	it("should require 'since' query parameter", async () => {
+	it("should require a 'cursor' or 'since' query parameter", async () => {
 		const { status, data } = await apiRequest(ctx, "GET", "/delta", {
 			apiKey: ctx.userA.apiKey,
 		});
 
 		expect(status).toBe(200); // Endpoint returns 200 with error object
 		expect(data).toMatchObject({
-			error: 'Missing "since" query parameter',
+			error: 'Missing "cursor" query parameter',
 			code: "BAD_REQUEST",
 		});
 	});
+
+	it("should return every change after a cursor exactly once", async () => {
+		const { data: state } = await apiRequest(ctx, "GET", "/state", {
+			apiKey: ctx.userA.apiKey,
+		});
+		const start = (state as { cursor: number }).cursor;
+
+		// No delay: both writes may share a millisecond
+		const first = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Cursor A",
+		});
+		const second = await createTodoViaApi(ctx, ctx.userB.apiKey, {
+			title: "Cursor B",
+		});
+
+		const { data } = await apiRequest(ctx, "GET", `/delta?cursor=${start}`, {
+			apiKey: ctx.userA.apiKey,
+		});
+		const delta = data as {
+			todos: { upserted: Array<{ id: string }> };
+			cursor: number;
+		};
+		expect(delta.todos.upserted.map((t) => t.id)).toEqual(
+			expect.arrayContaining([first, second]),
+		);
+		expect(delta.cursor).toBeGreaterThan(start);
+
+		const { data: next } = await apiRequest(
+			ctx,
+			"GET",
+			`/delta?cursor=${delta.cursor}`,
+			{ apiKey: ctx.userA.apiKey },
+		);
+		expect(
+			(next as { todos: { upserted: unknown[] } }).todos.upserted,
+		).toHaveLength(0);
+	});
+
+	it("should reject an invalid cursor", async () => {
+		const { data } = await apiRequest(ctx, "GET", "/delta?cursor=abc", {
+			apiKey: ctx.userA.apiKey,
+		});
+
+		expect(data).toMatchObject({ code: "BAD_REQUEST" });
+	});
 });
@@ -0,0 +1,135 @@
+/**
+ * Change notification (SSE) tests
+ */
+
+import { PROTOCOL_HEADER, PROTOCOL_VERSION } from "@shared-things/common";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addProjectMember, createProject } from "../db.js";
+import {
+	apiRequest,
+	createTestServer,
+	createTodoViaApi,
+	type TestContext,
+} from "./setup.js";
+
+/**
+ * Opens an event stream and collects events until aborted
+ */
+async function openStream(ctx: TestContext, path: string, apiKey: string) {
+	const controller = new AbortController();
+	const response = await fetch(`${ctx.baseUrl}${path}`, {
+		headers: {
+			Authorization: `Bearer ${apiKey}`,
+			[PROTOCOL_HEADER]: String(PROTOCOL_VERSION),
+		},
+		signal: controller.signal,
+	});
+	if (!response.body) throw new Error("Missing response body");
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+
+	/** Resolves with the data of the next event with the given name */
+	async function next(name: string): Promise<unknown> {
+		for (;;) {
+			const match = buffer.match(
+				new RegExp(`event: ${name}\\ndata: (.*)\\n\\n`),
+			);
+			if (match) {
+				buffer = buffer.slice((match.index ?? 0) + match[0].length);
+				return JSON.parse(match[1]);
+			}
+			const { value, done } = await reader.read();
+			if (done) throw new Error("Stream closed");
+			buffer += decoder.decode(value, { stream: true });
+		}
+	}
+
+	return {
+		response,
+		next,
+		close: () => controller.abort(),
+	};
+}
+
+describe("GET /events", () => {
+	let ctx: TestContext;
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	it("should announce pushes by other users", async () => {
+		const stream = await openStream(ctx, "/events", ctx.userA.apiKey);
+		try {
+			expect(stream.response.headers.get("content-type")).toBe(
+				"text/event-stream",
+			);
+			expect(await stream.next("ready")).toEqual({ projectId: "default" });
+
+			await createTodoViaApi(ctx, ctx.userB.apiKey, { title: "New todo" });
+
+			const event = (await stream.next("change")) as {
+				projectId: string;
+				changedAt: string;
+			};
+			expect(event.projectId).toBe("default");
+			expect(typeof event.changedAt).toBe("string");
+		} finally {
+			stream.close();
+		}
+	});
+
+	it("should only announce changes to the subscribed project", async () => {
+		const otherId = createProject(ctx.db, "Other").id;
+		addProjectMember(ctx.db, otherId, ctx.userA.id);
+
+		const stream = await openStream(
+			ctx,
+			`/projects/${otherId}/events`,
+			ctx.userA.apiKey,
+		);
+		try {
+			await stream.next("ready");
+			await createTodoViaApi(ctx, ctx.userA.apiKey, { title: "Elsewhere" });
+			await apiRequest(ctx, "POST", `/projects/${otherId}/push`, {
+				apiKey: ctx.userA.apiKey,
+				body: {
+					todos: {
+						upserted: [
+							{
+								clientId: "other-todo",
+								title: "Here",
+								notes: "",
+								when: "anytime",
+								startDate: null,
+								deadline: null,
+								tags: [],
+								status: "open",
+								position: 0,
+								editedAt: new Date().toISOString(),
+							},
+						],
+						deleted: [],
+					},
+					lastSyncedAt: "1970-01-01T00:00:00.000Z",
+				},
+			});
+
+			const event = (await stream.next("change")) as { projectId: string };
+			expect(event.projectId).toBe(otherId);
+		} finally {
+			stream.close();
+		}
+	});
+
+	it("should reject requests without API key", async () => {
+		const { status } = await apiRequest(ctx, "GET", "/events");
+
+		expect(status).toBe(401);
+	});
+});
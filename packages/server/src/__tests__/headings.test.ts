@@ -0,0 +1,261 @@
+/**
+ * Heading sync tests
+ */
+
+import * as crypto from "node:crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+	apiRequest,
+	createTestServer,
+	createTodoViaApi,
+	type TestContext,
+	timestamp,
+} from "./setup.js";
+
+type TodoResponse = { id: string; title: string; headingId: string | null };
+type HeadingResponse = { id: string; title: string; position: number };
+
+describe("Headings", () => {
+	let ctx: TestContext;
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	async function push(apiKey: string, body: Record<string, unknown>) {
+		return apiRequest(ctx, "POST", "/push", {
+			apiKey,
+			body: {
+				todos: { upserted: [], deleted: [] },
+				lastSyncedAt: "1970-01-01T00:00:00.000Z",
+				...body,
+			},
+		});
+	}
+
+	async function getState() {
+		const { data } = await apiRequest(ctx, "GET", "/state", {
+			apiKey: ctx.userA.apiKey,
+		});
+		return data as { todos: TodoResponse[]; headings: HeadingResponse[] };
+	}
+
+	it("should file a todo under a heading created in the same push", async () => {
+		const headingClientId = crypto.randomUUID();
+		const todoClientId = crypto.randomUUID();
+
+		const { status, data } = await push(ctx.userA.apiKey, {
+			headings: {
+				upserted: [
+					{
+						clientId: headingClientId,
+						title: "This week",
+						position: 0,
+						editedAt: timestamp(),
+					},
+				],
+				deleted: [],
+			},
+			todos: {
+				upserted: [
+					{
+						clientId: todoClientId,
+						headingClientId,
+						title: "Book flights",
+						notes: "",
+						when: "anytime",
+						startDate: null,
+						deadline: null,
+						tags: [],
+						status: "open",
+						position: 0,
+						editedAt: timestamp(),
+					},
+				],
+				deleted: [],
+			},
+		});
+
+		expect(status).toBe(200);
+		const response = data as {
+			mappings: Array<{ clientId: string; serverId: string }>;
+			headingMappings: Array<{ clientId: string; serverId: string }>;
+		};
+		expect(response.headingMappings[0].clientId).toBe(headingClientId);
+
+		const state = await getState();
+		const todo = state.todos.find(
+			(t) => t.id === response.mappings[0].serverId,
+		);
+		expect(todo?.headingId).toBe(response.headingMappings[0].serverId);
+		expect(state.headings.map((h) => h.title)).toContain("This week");
+	});
+
+	it("should keep a todo's heading when the client omits it", async () => {
+		const headingId = crypto.randomUUID();
+		await push(ctx.userA.apiKey, {
+			headings: {
+				upserted: [
+					{
+						serverId: headingId,
+						title: "Later",
+						position: 1,
+						editedAt: timestamp(),
+					},
+				],
+				deleted: [],
+			},
+		});
+
+		const todoId = crypto.randomUUID();
+		const base = {
+			serverId: todoId,
+			notes: "",
+			when: "anytime",
+			startDate: null,
+			deadline: null,
+			tags: [],
+			status: "open",
+			position: 0,
+		};
+		await push(ctx.userA.apiKey, {
+			todos: {
+				upserted: [
+					{
+						...base,
+						title: "Renew passport",
+						headingId,
+						editedAt: timestamp(0),
+					},
+				],
+				deleted: [],
+			},
+		});
+		await push(ctx.userB.apiKey, {
+			todos: {
+				upserted: [
+					{ ...base, title: "Renew passport!", editedAt: timestamp(60000) },
+				],
+				deleted: [],
+			},
+		});
+
+		const todo = (await getState()).todos.find((t) => t.id === todoId);
+		expect(todo).toMatchObject({ title: "Renew passport!", headingId });
+	});
+
+	it("should reuse an existing heading with the same title", async () => {
+		const newHeading = (clientId: string) => ({
+			headings: {
+				upserted: [
+					{ clientId, title: "Groceries", position: 0, editedAt: timestamp() },
+				],
+				deleted: [],
+			},
+		});
+
+		const a = await push(ctx.userA.apiKey, newHeading("a-heading"));
+		const b = await push(ctx.userB.apiKey, newHeading("b-heading"));
+
+		type Mappings = { headingMappings: Array<{ serverId: string }> };
+		expect((b.data as Mappings).headingMappings[0].serverId).toBe(
+			(a.data as Mappings).headingMappings[0].serverId,
+		);
+		const titles = (await getState()).headings.map((h) => h.title);
+		expect(titles.filter((t) => t === "Groceries")).toHaveLength(1);
+	});
+
+	it("should reject older heading edits as conflicts", async () => {
+		const headingId = crypto.randomUUID();
+		const heading = (title: string, editedAt: string) => ({
+			headings: {
+				upserted: [{ serverId: headingId, title, position: 0, editedAt }],
+				deleted: [],
+			},
+		});
+
+		await push(ctx.userA.apiKey, heading("Newer", timestamp(60000)));
+		const { data } = await push(
+			ctx.userB.apiKey,
+			heading("Older", timestamp(0)),
+		);
+
+		const response = data as {
+			headingConflicts: Array<{
+				reason: string;
+				serverHeading: { title: string };
+			}>;
+		};
+		expect(response.headingConflicts).toHaveLength(1);
+		expect(response.headingConflicts[0].reason).toBe("Remote edit was newer");
+		expect(response.headingConflicts[0].serverHeading.title).toBe("Newer");
+	});
+
+	it("should move todos out of a deleted heading", async () => {
+		const headingId = crypto.randomUUID();
+		await push(ctx.userA.apiKey, {
+			headings: {
+				upserted: [
+					{
+						serverId: headingId,
+						title: "Someday",
+						position: 2,
+						editedAt: timestamp(0),
+					},
+				],
+				deleted: [],
+			},
+		});
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Learn Italian",
+		});
+		await push(ctx.userA.apiKey, {
+			todos: {
+				upserted: [
+					{
+						serverId: todoId,
+						title: "Learn Italian",
+						notes: "",
+						when: "anytime",
+						startDate: null,
+						deadline: null,
+						tags: [],
+						status: "open",
+						position: 0,
+						headingId,
+						editedAt: new Date().toISOString(),
+					},
+				],
+				deleted: [],
+			},
+		});
+
+		const since = new Date().toISOString();
+		await new Promise((r) => setTimeout(r, 10));
+		await push(ctx.userB.apiKey, {
+			headings: {
+				upserted: [],
+				deleted: [{ serverId: headingId, deletedAt: timestamp(60000) }],
+			},
+		});
+
+		const { data } = await apiRequest(
+			ctx,
+			"GET",
+			`/delta?since=${encodeURIComponent(since)}`,
+			{ apiKey: ctx.userA.apiKey },
+		);
+		const delta = data as {
+			todos: { upserted: TodoResponse[] };
+			headings: { deleted: Array<{ serverId: string }> };
+		};
+		expect(delta.headings.deleted.map((d) => d.serverId)).toContain(headingId);
+		expect(delta.todos.upserted.find((t) => t.id === todoId)?.headingId).toBe(
+			null,
+		);
+	});
+});
@@ -0,0 +1,135 @@
+/**
+ * Todo revision log tests
+ */
+
+import * as crypto from "node:crypto";
+import type { TodoHistory } from "@shared-things/common";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addProjectMember, createProject } from "../db.js";
+import {
+	apiRequest,
+	createTestServer,
+	createTodoViaApi,
+	type TestContext,
+	timestamp,
+} from "./setup.js";
+
+describe("GET /todos/:id/history", () => {
+	let ctx: TestContext;
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	async function pushTodos(
+		apiKey: string,
+		todos: { upserted?: unknown[]; deleted?: unknown[] },
+	) {
+		return apiRequest(ctx, "POST", "/push", {
+			apiKey,
+			body: {
+				todos: { upserted: [], deleted: [], ...todos },
+				lastSyncedAt: "1970-01-01T00:00:00.000Z",
+			},
+		});
+	}
+
+	async function getHistory(todoId: string, apiKey = ctx.userA.apiKey) {
+		return apiRequest(ctx, "GET", `/todos/${todoId}/history`, { apiKey });
+	}
+
+	it("should record who created, changed and deleted a todo", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Buy milk",
+			editedAt: timestamp(0),
+		});
+		await pushTodos(ctx.userB.apiKey, {
+			upserted: [
+				{
+					serverId: todoId,
+					title: "Buy oat milk",
+					notes: "",
+					when: "anytime",
+					startDate: null,
+					deadline: null,
+					tags: [],
+					status: "open",
+					position: 0,
+					editedAt: timestamp(60000),
+				},
+			],
+		});
+		await pushTodos(ctx.userA.apiKey, {
+			deleted: [{ serverId: todoId, deletedAt: timestamp(120000) }],
+		});
+
+		const { status, data } = await getHistory(todoId);
+
+		expect(status).toBe(200);
+		const history = data as TodoHistory;
+		expect(history.todoId).toBe(todoId);
+		expect(
+			history.revisions.map((r) => [r.action, r.user.name, r.todo?.title]),
+		).toEqual([
+			["created", "TestUserA", "Buy milk"],
+			["updated", "TestUserB", "Buy oat milk"],
+			["deleted", "TestUserA", undefined],
+		]);
+		expect(history.revisions[2].editedAt).toBe(timestamp(120000));
+	});
+
+	it("should not record rejected edits", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Newer",
+			editedAt: timestamp(60000),
+		});
+		await pushTodos(ctx.userB.apiKey, {
+			upserted: [
+				{
+					serverId: todoId,
+					title: "Older",
+					notes: "",
+					when: "anytime",
+					startDate: null,
+					deadline: null,
+					tags: [],
+					status: "open",
+					position: 0,
+					editedAt: timestamp(0),
+				},
+			],
+		});
+
+		const history = (await getHistory(todoId)).data as TodoHistory;
+		expect(history.revisions).toHaveLength(1);
+	});
+
+	it("should return 404 for unknown todos", async () => {
+		const { status, data } = await getHistory(crypto.randomUUID());
+
+		expect(status).toBe(404);
+		expect(data).toMatchObject({ code: "TODO_NOT_FOUND" });
+	});
+
+	it("should not expose history of other projects", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Default project todo",
+		});
+		const otherId = createProject(ctx.db, "History").id;
+		addProjectMember(ctx.db, otherId, ctx.userA.id);
+
+		const { status, data } = await apiRequest(
+			ctx,
+			"GET",
+			`/projects/${otherId}/todos/${todoId}/history`,
+			{ apiKey: ctx.userA.apiKey },
+		);
+
+		expect(status).toBe(404);
+		expect(data).toMatchObject({ code: "TODO_NOT_FOUND" });
+	});
+});
@@ -0,0 +1,84 @@
+/**
+ * Invite and enrollment tests
+ */
+
+import type { EnrollResponse, ProjectList } from "@shared-things/common";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createInvite, createProject } from "../db.js";
+import { apiRequest, createTestServer, type TestContext } from "./setup.js";
+
+describe("POST /enroll", () => {
+	let ctx: TestContext;
+	let projectId: string;
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+		projectId = createProject(ctx.db, "Family calendar").id;
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	function invite(expiresIn = 60_000) {
+		return createInvite(
+			ctx.db,
+			projectId,
+			"viewer",
+			new Date(Date.now() + expiresIn),
+		).token;
+	}
+
+	function enroll(token: string, name: string) {
+		return apiRequest(ctx, "POST", "/enroll", { body: { token, name } });
+	}
+
+	it("should create a member with a working API key", async () => {
+		const { status, data } = await enroll(invite(), "Grandma");
+
+		expect(status).toBe(200);
+		const enrolled = data as EnrollResponse;
+		expect(enrolled.user.name).toBe("Grandma");
+		expect(enrolled.project).toMatchObject({
+			id: projectId,
+			name: "Family calendar",
+			role: "viewer",
+		});
+
+		const projects = await apiRequest(ctx, "GET", "/projects", {
+			apiKey: enrolled.apiKey,
+		});
+		expect((projects.data as ProjectList).projects).toMatchObject([
+			{ id: projectId, role: "viewer" },
+		]);
+	});
+
+	it("should only accept an invite once", async () => {
+		const token = invite();
+		await enroll(token, "First");
+
+		const { status, data } = await enroll(token, "Second");
+
+		expect(status).toBe(400);
+		expect(data).toMatchObject({ code: "INVALID_INVITE" });
+	});
+
+	it("should reject expired and unknown invites", async () => {
+		expect((await enroll(invite(-1000), "Late")).data).toMatchObject({
+			code: "INVALID_INVITE",
+		});
+		expect((await enroll("made-up", "Guesser")).data).toMatchObject({
+			code: "INVALID_INVITE",
+		});
+	});
+
+	it("should keep the invite when the name is taken", async () => {
+		const token = invite();
+
+		const taken = await enroll(token, "TestUserA");
+		expect(taken.status).toBe(409);
+		expect(taken.data).toMatchObject({ code: "USER_EXISTS" });
+
+		expect((await enroll(token, "Uncle")).status).toBe(200);
+	});
+});
@@ -0,0 +1,143 @@
+/**
+ * Rate limit and request size tests
+ */
+
+import * as crypto from "node:crypto";
+import type { ProjectState } from "@shared-things/common";
+import { afterEach, describe, expect, it } from "vitest";
+import { createRateLimiter, type ServerLimits } from "../limits.js";
+import {
+	apiRequest,
+	createTestServer,
+	type TestContext,
+	timestamp,
+} from "./setup.js";
+
+describe("Limits", () => {
+	let ctx: TestContext;
+
+	async function serve(limits: Partial<ServerLimits>) {
+		ctx = await createTestServer(limits);
+	}
+
+	afterEach(async () => {
+		await ctx.cleanup();
+	});
+
+	function push(body: unknown) {
+		return apiRequest(ctx, "POST", "/push", { apiKey: ctx.userA.apiKey, body });
+	}
+
+	function pushTodo(fields: { title?: string; notes?: string }) {
+		return push({
+			todos: {
+				upserted: [
+					{
+						clientId: crypto.randomUUID(),
+						title: "Todo",
+						notes: "",
+						when: "anytime",
+						startDate: null,
+						deadline: null,
+						tags: [],
+						status: "open",
+						position: 0,
+						editedAt: timestamp(),
+						...fields,
+					},
+				],
+				deleted: [],
+			},
+		});
+	}
+
+	it("should answer 429 with Retry-After once a key is over its rate", async () => {
+		await serve({ keyRateLimit: 2 });
+		const state = (apiKey: string) =>
+			apiRequest(ctx, "GET", "/state", { apiKey });
+
+		expect((await state(ctx.userA.apiKey)).status).toBe(200);
+		expect((await state(ctx.userA.apiKey)).status).toBe(200);
+		const limited = await state(ctx.userA.apiKey);
+
+		expect(limited.status).toBe(429);
+		expect(limited.data).toMatchObject({ code: "RATE_LIMITED" });
+		expect(Number(limited.headers.get("retry-after"))).toBeGreaterThan(0);
+		expect((await state(ctx.userB.apiKey)).status).toBe(200);
+	});
+
+	it("should count requests with unknown keys against the IP", async () => {
+		await serve({ ipRateLimit: 2 });
+
+		for (let i = 0; i < 2; i++) {
+			const { status } = await apiRequest(ctx, "GET", "/state", {
+				apiKey: `guess-${i}`,
+			});
+			expect(status).toBe(401);
+		}
+		const limited = await apiRequest(ctx, "GET", "/state", {
+			apiKey: ctx.userA.apiKey,
+		});
+
+		expect(limited.status).toBe(429);
+		expect((await apiRequest(ctx, "GET", "/health")).status).toBe(200);
+	});
+
+	it("should reject pushes with too many items", async () => {
+		await serve({ maxPushItems: 2 });
+		const deleted = Array.from({ length: 3 }, () => ({
+			serverId: crypto.randomUUID(),
+			deletedAt: timestamp(),
+		}));
+
+		const { status, data } = await push({ todos: { upserted: [], deleted } });
+
+		expect(status).toBe(413);
+		expect(data).toMatchObject({
+			code: "PAYLOAD_TOO_LARGE",
+			details: { list: "todos.deleted", count: 3, maxItems: 2 },
+		});
+	});
+
+	it("should reject pushes with overlong fields and store nothing", async () => {
+		await serve({ maxFieldLength: 10 });
+
+		const { status, data } = await pushTodo({ notes: "x".repeat(11) });
+
+		expect(status).toBe(400);
+		expect(data).toMatchObject({
+			code: "FIELD_TOO_LONG",
+			details: { field: "notes", maxLength: 10 },
+		});
+		const state = (
+			await apiRequest(ctx, "GET", "/state", { apiKey: ctx.userA.apiKey })
+		).data as ProjectState;
+		expect(state.todos).toEqual([]);
+	});
+
+	it("should reject bodies over the body limit", async () => {
+		await serve({ bodyLimit: 1024 });
+
+		expect((await pushTodo({ notes: "short" })).status).toBe(200);
+		const { status, data } = await pushTodo({ notes: "x".repeat(2048) });
+
+		expect(status).toBe(413);
+		expect(data).toMatchObject({
+			code: "PAYLOAD_TOO_LARGE",
+			details: { maxBytes: 1024 },
+		});
+	});
+});
+
+describe("createRateLimiter", () => {
+	it("should start a new window after a minute", () => {
+		let now = 0;
+		const limiter = createRateLimiter(1, () => now);
+
+		expect(limiter.take("key")).toBeNull();
+		now = 45_000;
+		expect(limiter.take("key")).toBe(15);
+		now = 60_000;
+		expect(limiter.take("key")).toBeNull();
+	});
+});
@@ -0,0 +1,172 @@
+/**
+ * Database migration tests
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { DEFAULT_PROJECT_ID } from "@shared-things/common";
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	createUser,
+	type DB,
+	getAllTodos,
+	getDeletedByServerId,
+	getProjectRole,
+	getUserByApiKey,
+	initDatabase,
+} from "../db.js";
+
+/** The schema servers wrote before todos had server-side edit timestamps */
+const V1_SCHEMA = `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    api_key_hash TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE TABLE headings (
+    id TEXT PRIMARY KEY,
+    things_id TEXT NOT NULL UNIQUE,
+    title TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL,
+    updated_by TEXT NOT NULL REFERENCES users(id)
+  );
+
+  CREATE TABLE todos (
+    id TEXT PRIMARY KEY,
+    things_id TEXT NOT NULL UNIQUE,
+    title TEXT NOT NULL,
+    notes TEXT NOT NULL DEFAULT '',
+    due_date TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'canceled')),
+    position INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL,
+    updated_by TEXT NOT NULL REFERENCES users(id)
+  );
+
+  CREATE TABLE deleted_items (
+    id TEXT PRIMARY KEY,
+    things_id TEXT NOT NULL,
+    item_type TEXT NOT NULL,
+    deleted_at TEXT NOT NULL,
+    deleted_by TEXT NOT NULL REFERENCES users(id)
+  );
+`;
+
+describe("initDatabase", () => {
+	let testDir: string;
+	let dbPath: string;
+	let db: DB | undefined;
+
+	beforeEach(() => {
+		testDir = path.join(
+			os.tmpdir(),
+			`shared-things-migration-${crypto.randomUUID()}`,
+		);
+		dbPath = path.join(testDir, "data.db");
+		fs.mkdirSync(testDir, { recursive: true });
+	});
+
+	afterEach(() => {
+		db?.close();
+		db = undefined;
+		fs.rmSync(testDir, { recursive: true, force: true });
+	});
+
+	it("should upgrade a v1 database", () => {
+		const apiKey = "v1-api-key";
+		const v1 = new Database(dbPath);
+		v1.exec(V1_SCHEMA);
+		v1.prepare(
+			`INSERT INTO users (id, name, api_key_hash) VALUES ('alice', 'Alice', ?)`,
+		).run(crypto.createHash("sha256").update(apiKey).digest("hex"));
+		v1.prepare(
+			`
+      INSERT INTO todos (id, things_id, title, notes, due_date, tags, status, position, updated_at, updated_by)
+      VALUES ('todo-1', 'things-1', 'Buy milk', 'Oat', '2024-05-01', '["Errand"]', 'open', 2, '2024-04-01T10:00:00.000Z', 'alice')
+    `,
+		).run();
+		v1.prepare(
+			`
+      INSERT INTO deleted_items (id, things_id, item_type, deleted_at, deleted_by)
+      VALUES ('del-1', 'todo-0', 'todo', '2024-03-01T10:00:00.000Z', 'alice')
+    `,
+		).run();
+		v1.close();
+
+		db = initDatabase(dbPath);
+
+		expect(getUserByApiKey(db, apiKey)).toEqual({ id: "alice", name: "Alice" });
+		expect(getProjectRole(db, DEFAULT_PROJECT_ID, "alice")).toBe("owner");
+		expect(getAllTodos(db, DEFAULT_PROJECT_ID)).toMatchObject([
+			{
+				id: "todo-1",
+				title: "Buy milk",
+				notes: "Oat",
+				when: "anytime",
+				startDate: null,
+				deadline: "2024-05-01",
+				tags: ["Errand"],
+				position: 2,
+				editedAt: "2024-04-01T10:00:00.000Z",
+			},
+		]);
+		expect(getDeletedByServerId(db, DEFAULT_PROJECT_ID, "todo-0")).toEqual({
+			deletedAt: "2024-03-01T10:00:00.000Z",
+			deletedBy: "alice",
+		});
+	});
+
+	it("should rebuild todos with fractional positions", () => {
+		// A database from before positions were REAL
+		const old = initDatabase(dbPath);
+		const { sql } = old
+			.prepare(`SELECT sql FROM sqlite_master WHERE name = 'todos'`)
+			.get() as { sql: string };
+		old.pragma("foreign_keys = OFF");
+		old.exec(
+			`DROP TABLE todos; ${sql.replace("position REAL", "position INTEGER")}`,
+		);
+		const user = createUser(old, "Alice");
+		old
+			.prepare(
+				`
+      INSERT INTO todos (id, project_id, title, position, edited_at, updated_at, created_by, updated_by)
+      VALUES ('todo-1', ?, 'Buy milk', 1.5, '2024-04-01T10:00:00.000Z', '2024-04-01T10:00:00.000Z', ?, ?)
+    `,
+			)
+			.run(DEFAULT_PROJECT_ID, user.id, user.id);
+		old
+			.prepare(
+				`
+      INSERT INTO checklist_items (id, project_id, todo_id, title, edited_at, updated_at, created_by, updated_by)
+      VALUES ('item-1', ?, 'todo-1', 'Oat', '2024-04-01T10:00:00.000Z', '2024-04-01T10:00:00.000Z', ?, ?)
+    `,
+			)
+			.run(DEFAULT_PROJECT_ID, user.id, user.id);
+		old.close();
+
+		db = initDatabase(dbPath);
+
+		const columns = db.prepare(`PRAGMA table_info(todos)`).all() as {
+			name: string;
+			type: string;
+		}[];
+		expect(columns.find((c) => c.name === "position")?.type).toBe("REAL");
+		expect(getAllTodos(db, DEFAULT_PROJECT_ID)).toMatchObject([
+			{ id: "todo-1", position: 1.5 },
+		]);
+		expect(
+			db
+				.prepare(`SELECT id FROM checklist_items WHERE todo_id = 'todo-1'`)
+				.all(),
+		).toEqual([{ id: "item-1" }]);
+		expect(db.pragma("foreign_key_check")).toEqual([]);
+	});
+});
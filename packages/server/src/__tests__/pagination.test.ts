@@ -0,0 +1,132 @@
+/**
+ * Paged /state and /delta tests
+ */
+
+import * as crypto from "node:crypto";
+import type { ProjectState, SyncDelta } from "@shared-things/common";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+	apiRequest,
+	createTestServer,
+	createTodoViaApi,
+	type TestContext,
+	timestamp,
+} from "./setup.js";
+
+describe("Paging", () => {
+	let ctx: TestContext;
+	let start: number;
+	const todoIds: string[] = [];
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+		start = (
+			(await apiRequest(ctx, "GET", "/state", { apiKey: ctx.userA.apiKey }))
+				.data as ProjectState
+		).cursor;
+		for (let i = 0; i < 5; i++) {
+			todoIds.push(
+				await createTodoViaApi(ctx, ctx.userA.apiKey, { title: `Todo ${i}` }),
+			);
+		}
+		await apiRequest(ctx, "POST", "/push", {
+			apiKey: ctx.userA.apiKey,
+			body: {
+				todos: { upserted: [], deleted: [] },
+				headings: {
+					upserted: [
+						{
+							clientId: "heading",
+							title: "Later",
+							position: 0,
+							editedAt: timestamp(),
+						},
+					],
+					deleted: [],
+				},
+				checklistItems: {
+					upserted: todoIds.map((todoServerId) => ({
+						serverId: crypto.randomUUID(),
+						todoServerId,
+						title: "Step",
+						completed: false,
+						position: 0,
+						editedAt: timestamp(),
+					})),
+					deleted: [],
+				},
+			},
+		});
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	async function get<T>(path: string) {
+		return (await apiRequest(ctx, "GET", path, { apiKey: ctx.userA.apiKey }))
+			.data as T;
+	}
+
+	it("should page through the state with each todo's checklist", async () => {
+		const pages: ProjectState[] = [];
+		let after: string | undefined;
+		do {
+			const page = await get<ProjectState>(
+				`/state?limit=2${after ? `&after=${after}` : ""}`,
+			);
+			pages.push(page);
+			after = page.nextPage;
+		} while (after);
+
+		expect(pages.map((p) => p.todos.length)).toEqual([2, 2, 1]);
+		const todos = pages.flatMap((p) => p.todos);
+		expect(todos.map((t) => t.id).sort()).toEqual([...todoIds].sort());
+		for (const page of pages) {
+			expect(page.checklistItems.map((i) => i.todoId)).toEqual(
+				page.todos.map((t) => t.id),
+			);
+		}
+		expect(pages.map((p) => p.headings.length)).toEqual([1, 0, 0]);
+	});
+
+	it("should page through the delta without losing changes", async () => {
+		const full = await get<SyncDelta>(`/delta?cursor=${start}`);
+		expect(full.hasMore).toBeUndefined();
+
+		const pages: SyncDelta[] = [];
+		let cursor = start;
+		for (;;) {
+			const page = await get<SyncDelta>(`/delta?cursor=${cursor}&limit=3`);
+			pages.push(page);
+			cursor = page.cursor;
+			if (!page.hasMore) break;
+		}
+
+		expect(pages.length).toBeGreaterThan(1);
+		expect(cursor).toBe(full.cursor);
+		const todos = pages.flatMap((p) => p.todos.upserted.map((t) => t.id));
+		expect(todos.sort()).toEqual([...todoIds].sort());
+		expect(pages.flatMap((p) => p.checklistItems.upserted)).toHaveLength(5);
+		expect(pages.flatMap((p) => p.headings.upserted)).toHaveLength(1);
+	});
+
+	it("should reject an invalid limit", async () => {
+		const data = await get<unknown>(`/delta?cursor=${start}&limit=0`);
+
+		expect(data).toMatchObject({ code: "BAD_REQUEST" });
+	});
+
+	it("should only return the state from push when asked", async () => {
+		const push = (includeState?: boolean) =>
+			apiRequest(ctx, "POST", "/push", {
+				apiKey: ctx.userA.apiKey,
+				body: { todos: { upserted: [], deleted: [] }, includeState },
+			});
+
+		expect((await push()).data).not.toHaveProperty("state");
+		expect((await push(true)).data).toMatchObject({
+			state: { todos: expect.any(Array) },
+		});
+	});
+});
@@ -0,0 +1,146 @@
+/**
+ * Per-member private field tests
+ */
+
+import * as crypto from "node:crypto";
+import { DEFAULT_PROJECT_ID, type Todo } from "@shared-things/common";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { setProjectPrivateFields } from "../db.js";
+import {
+	apiRequest,
+	createTestServer,
+	createTodoViaApi,
+	type TestContext,
+	timestamp,
+} from "./setup.js";
+
+describe("Private todo fields", () => {
+	let ctx: TestContext;
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+		setProjectPrivateFields(ctx.db, DEFAULT_PROJECT_ID, ["when", "tags"]);
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	async function pushTodo(
+		apiKey: string,
+		todo: Partial<Todo> & { serverId?: string; clientId?: string },
+		editedAt: string,
+		fields?: string[],
+	) {
+		return apiRequest(ctx, "POST", "/push", {
+			apiKey,
+			body: {
+				todos: {
+					upserted: [
+						{
+							title: "Water plants",
+							notes: "",
+							when: "anytime",
+							startDate: null,
+							deadline: null,
+							tags: [],
+							status: "open",
+							position: 0,
+							...todo,
+							editedAt,
+							fieldEditedAt: fields
+								? Object.fromEntries(fields.map((f) => [f, editedAt]))
+								: undefined,
+						},
+					],
+					deleted: [],
+				},
+			},
+		});
+	}
+
+	async function getTodo(apiKey: string, todoId: string) {
+		const { data } = await apiRequest(ctx, "GET", "/state", { apiKey });
+		return (data as { todos: Todo[] }).todos.find((t) => t.id === todoId);
+	}
+
+	it("should keep the creator's private values to themselves", async () => {
+		const clientId = crypto.randomUUID();
+		const { data } = await pushTodo(
+			ctx.userA.apiKey,
+			{ clientId, title: "Book dentist", when: "today", tags: ["Health"] },
+			timestamp(0),
+		);
+		const todoId = (data as { mappings: { serverId: string }[] }).mappings[0]
+			.serverId;
+
+		expect(await getTodo(ctx.userA.apiKey, todoId)).toMatchObject({
+			title: "Book dentist",
+			when: "today",
+			tags: ["Health"],
+		});
+		expect(await getTodo(ctx.userB.apiKey, todoId)).toMatchObject({
+			title: "Book dentist",
+			when: "anytime",
+			tags: [],
+		});
+	});
+
+	it("should share content edits but not schedule edits", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Water plants",
+			editedAt: timestamp(0),
+		});
+
+		await pushTodo(
+			ctx.userB.apiKey,
+			{ serverId: todoId, when: "today" },
+			timestamp(60000),
+			["when"],
+		);
+		await pushTodo(
+			ctx.userB.apiKey,
+			{ serverId: todoId, title: "Water all plants", when: "today" },
+			timestamp(120000),
+			["title"],
+		);
+
+		expect(await getTodo(ctx.userA.apiKey, todoId)).toMatchObject({
+			title: "Water all plants",
+			when: "anytime",
+		});
+		expect(await getTodo(ctx.userB.apiKey, todoId)).toMatchObject({
+			title: "Water all plants",
+			when: "today",
+			fieldEditedAt: expect.objectContaining({ when: timestamp(60000) }),
+		});
+	});
+
+	it("should announce private edits only in the member's own delta", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Plan trip",
+			editedAt: timestamp(0),
+		});
+		const cursor = (
+			(await apiRequest(ctx, "GET", "/state", { apiKey: ctx.userA.apiKey }))
+				.data as { cursor: number }
+		).cursor;
+
+		await pushTodo(
+			ctx.userB.apiKey,
+			{ serverId: todoId, title: "Plan trip", tags: ["Later"] },
+			timestamp(60000),
+			["tags"],
+		);
+
+		const delta = async (apiKey: string) =>
+			(
+				(await apiRequest(ctx, "GET", `/delta?cursor=${cursor}`, { apiKey }))
+					.data as { todos: { upserted: Todo[] } }
+			).todos.upserted;
+		expect(await delta(ctx.userA.apiKey)).toEqual([]);
+		expect(await delta(ctx.userB.apiKey)).toEqual([
+			expect.objectContaining({ id: todoId, tags: ["Later"] }),
+		]);
+	});
+});
@@ -0,0 +1,234 @@
+/**
+ * Multi-project scoping tests
+ */
+
+import * as crypto from "node:crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addProjectMember, createProject } from "../db.js";
+import {
+	apiRequest,
+	createTestServer,
+	createTodoViaApi,
+	type TestContext,
+	timestamp,
+} from "./setup.js";
+
+describe("Projects", () => {
+	let ctx: TestContext;
+	let groceriesId: string;
+	let sprintId: string;
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+
+		// Groceries is shared by A and B, Sprint belongs to A only
+		groceriesId = createProject(ctx.db, "Groceries").id;
+		sprintId = createProject(ctx.db, "Sprint").id;
+		addProjectMember(ctx.db, groceriesId, ctx.userA.id, "owner");
+		addProjectMember(ctx.db, groceriesId, ctx.userB.id);
+		addProjectMember(ctx.db, sprintId, ctx.userA.id);
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	describe("GET /projects", () => {
+		it("should list only projects the user is a member of", async () => {
+			const a = await apiRequest(ctx, "GET", "/projects", {
+				apiKey: ctx.userA.apiKey,
+			});
+			const b = await apiRequest(ctx, "GET", "/projects", {
+				apiKey: ctx.userB.apiKey,
+			});
+
+			expect(a.status).toBe(200);
+			const aNames = (a.data as { projects: Array<{ name: string }> }).projects
+				.map((p) => p.name)
+				.sort();
+			const bNames = (b.data as { projects: Array<{ name: string }> }).projects
+				.map((p) => p.name)
+				.sort();
+
+			expect(aNames).toEqual(["Groceries", "Sprint", "default"]);
+			expect(bNames).toEqual(["Groceries", "default"]);
+		});
+
+		it("should reject requests without API key", async () => {
+			const { status } = await apiRequest(ctx, "GET", "/projects");
+
+			expect(status).toBe(401);
+		});
+	});
+
+	describe("project-scoped routes", () => {
+		it("should keep todos separate between projects", async () => {
+			const clientId = crypto.randomUUID();
+			const { status, data } = await apiRequest(
+				ctx,
+				"POST",
+				`/projects/${groceriesId}/push`,
+				{
+					apiKey: ctx.userA.apiKey,
+					body: {
+						todos: {
+							upserted: [
+								{
+									clientId,
+									title: "Buy milk",
+									notes: "",
+									when: "anytime",
+									startDate: null,
+									deadline: null,
+									tags: [],
+									status: "open",
+									position: 0,
+									editedAt: timestamp(),
+								},
+							],
+							deleted: [],
+						},
+						lastSyncedAt: "1970-01-01T00:00:00.000Z",
+						includeState: true,
+					},
+				},
+			);
+
+			expect(status).toBe(200);
+			const response = data as {
+				state: { todos: Array<{ title: string }> };
+				mappings: Array<{ clientId: string; serverId: string }>;
+			};
+			expect(response.mappings[0].clientId).toBe(clientId);
+			expect(response.state.todos.map((t) => t.title)).toEqual(["Buy milk"]);
+
+			const sprint = await apiRequest(
+				ctx,
+				"GET",
+				`/projects/${sprintId}/state`,
+				{
+					apiKey: ctx.userA.apiKey,
+				},
+			);
+			expect((sprint.data as { todos: unknown[] }).todos).toHaveLength(0);
+
+			const legacy = await apiRequest(ctx, "GET", "/state", {
+				apiKey: ctx.userA.apiKey,
+			});
+			expect(
+				(legacy.data as { todos: Array<{ title: string }> }).todos.some(
+					(t) => t.title === "Buy milk",
+				),
+			).toBe(false);
+		});
+
+		it("should let other members see the project's todos", async () => {
+			const { status, data } = await apiRequest(
+				ctx,
+				"GET",
+				`/projects/${groceriesId}/state`,
+				{ apiKey: ctx.userB.apiKey },
+			);
+
+			expect(status).toBe(200);
+			const state = data as { todos: Array<{ title: string }> };
+			expect(state.todos.some((t) => t.title === "Buy milk")).toBe(true);
+		});
+
+		it("should treat unprefixed routes as the default project", async () => {
+			const serverId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+				title: "Default project todo",
+			});
+
+			const { data } = await apiRequest(ctx, "GET", "/projects/default/state", {
+				apiKey: ctx.userB.apiKey,
+			});
+
+			const state = data as { todos: Array<{ id: string }> };
+			expect(state.todos.some((t) => t.id === serverId)).toBe(true);
+		});
+
+		it("should scope delta to the project", async () => {
+			const since = new Date(Date.now() - 60_000).toISOString();
+
+			const { status, data } = await apiRequest(
+				ctx,
+				"GET",
+				`/projects/${sprintId}/delta?since=${encodeURIComponent(since)}`,
+				{ apiKey: ctx.userA.apiKey },
+			);
+
+			expect(status).toBe(200);
+			const response = data as { todos: { upserted: unknown[] } };
+			expect(response.todos.upserted).toHaveLength(0);
+		});
+
+		it("should only reset the user's data in the given project", async () => {
+			await createTodoViaApi(ctx, ctx.userA.apiKey, {
+				title: "Kept in default",
+			});
+
+			const { status, data } = await apiRequest(
+				ctx,
+				"DELETE",
+				`/projects/${groceriesId}/reset`,
+				{ apiKey: ctx.userA.apiKey },
+			);
+
+			expect(status).toBe(200);
+			expect(data).toMatchObject({ success: true, deleted: { todos: 1 } });
+
+			const legacy = await apiRequest(ctx, "GET", "/state", {
+				apiKey: ctx.userA.apiKey,
+			});
+			expect(
+				(legacy.data as { todos: Array<{ title: string }> }).todos.some(
+					(t) => t.title === "Kept in default",
+				),
+			).toBe(true);
+		});
+	});
+
+	describe("membership", () => {
+		it("should reject non-members with 403", async () => {
+			const { status, data } = await apiRequest(
+				ctx,
+				"GET",
+				`/projects/${sprintId}/state`,
+				{ apiKey: ctx.userB.apiKey },
+			);
+
+			expect(status).toBe(403);
+			expect(data).toMatchObject({ code: "FORBIDDEN" });
+		});
+
+		it("should reject pushes from non-members", async () => {
+			const { status } = await apiRequest(
+				ctx,
+				"POST",
+				`/projects/${sprintId}/push`,
+				{
+					apiKey: ctx.userB.apiKey,
+					body: {
+						todos: { upserted: [], deleted: [] },
+						lastSyncedAt: "1970-01-01T00:00:00.000Z",
+					},
+				},
+			);
+
+			expect(status).toBe(403);
+		});
+
+		it("should return 404 for unknown projects", async () => {
+			const { status, data } = await apiRequest(
+				ctx,
+				"GET",
+				"/projects/does-not-exist/state",
+				{ apiKey: ctx.userA.apiKey },
+			);
+
+			expect(status).toBe(404);
+			expect(data).toMatchObject({ code: "PROJECT_NOT_FOUND" });
+		});
+	});
+});
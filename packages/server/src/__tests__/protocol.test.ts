@@ -0,0 +1,97 @@
+/**
+ * Protocol version negotiation tests
+ */
+
+import {
+	MIN_PROTOCOL_VERSION,
+	PROTOCOL_HEADER,
+	PROTOCOL_VERSION,
+} from "@shared-things/common";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { apiRequest, createTestServer, type TestContext } from "./setup.js";
+
+describe("Protocol negotiation", () => {
+	let ctx: TestContext;
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	function getState(version: number | string) {
+		return apiRequest(ctx, "GET", "/state", {
+			apiKey: ctx.userA.apiKey,
+			headers: { [PROTOCOL_HEADER]: String(version) },
+		});
+	}
+
+	it("should describe supported versions on /meta without API key", async () => {
+		const { status, data } = await apiRequest(ctx, "GET", "/meta");
+
+		expect(status).toBe(200);
+		expect(data).toEqual({
+			protocolVersion: PROTOCOL_VERSION,
+			minProtocolVersion: MIN_PROTOCOL_VERSION,
+		});
+	});
+
+	it("should accept the current protocol", async () => {
+		const { status } = await getState(PROTOCOL_VERSION);
+
+		expect(status).toBe(200);
+	});
+
+	it("should reject daemons that predate negotiation", async () => {
+		// apiRequest always sends the header
+		const response = await fetch(`${ctx.baseUrl}/state`, {
+			headers: { Authorization: `Bearer ${ctx.userA.apiKey}` },
+		});
+
+		expect(response.status).toBe(426);
+		expect(await response.json()).toMatchObject({
+			code: "PROTOCOL_MISMATCH",
+			details: {
+				clientVersion: null,
+				minProtocolVersion: MIN_PROTOCOL_VERSION,
+			},
+		});
+	});
+
+	it("should let anyone check health without the header", async () => {
+		const response = await fetch(`${ctx.baseUrl}/health`);
+
+		expect(response.status).toBe(200);
+	});
+
+	it("should reject daemons newer than the server", async () => {
+		const { status, data } = await getState(PROTOCOL_VERSION + 1);
+
+		expect(status).toBe(426);
+		expect(data).toMatchObject({
+			code: "PROTOCOL_MISMATCH",
+			details: { protocolVersion: PROTOCOL_VERSION },
+		});
+		expect((data as { error: string }).error).toContain("Server is too old");
+	});
+
+	it("should reject daemons older than the server supports", async () => {
+		const { status, data } = await getState(MIN_PROTOCOL_VERSION - 1);
+
+		expect(status).toBe(426);
+		expect(data).toMatchObject({ code: "PROTOCOL_MISMATCH" });
+		expect((data as { error: string }).error).toContain(
+			"Update shared-things-daemon",
+		);
+	});
+
+	it("should check the protocol before authentication", async () => {
+		const { status } = await apiRequest(ctx, "GET", "/state", {
+			headers: { [PROTOCOL_HEADER]: "garbage" },
+		});
+
+		expect(status).toBe(426);
+	});
+});
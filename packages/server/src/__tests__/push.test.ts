@@ -37,7 +37,9 @@ describe("POST /push", () => {
 								clientId,
 								title: "Test Todo",
 								notes: "Test notes",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: ["test"],
 								status: "open",
 								position: 0,
@@ -87,7 +89,9 @@ describe("POST /push", () => {
 							clientId,
 							title: `Batch Todo ${i + 1}`,
 							notes: "",
-							dueDate: null,
+							when: "anytime",
+							startDate: null,
+							deadline: null,
 							tags: [],
 							status: "open",
 							position: i,
@@ -105,6 +109,64 @@ describe("POST /push", () => {
 			};
 			expect(response.mappings).toHaveLength(2);
 		});
+
+		it("should store When, start date and deadline separately", async () => {
+			const clientId = crypto.randomUUID();
+
+			const { data } = await apiRequest(ctx, "POST", "/push", {
+				apiKey: ctx.userA.apiKey,
+				body: {
+					todos: {
+						upserted: [
+							{
+								clientId,
+								title: "Renew passport",
+								notes: "",
+								when: "anytime",
+								startDate: "2026-02-01",
+								deadline: "2026-03-01",
+								tags: [],
+								status: "open",
+								position: 0,
+								editedAt: timestamp(),
+							},
+							{
+								clientId: crypto.randomUUID(),
+								title: "Read a book",
+								notes: "",
+								when: "evening",
+								startDate: null,
+								deadline: null,
+								tags: [],
+								status: "open",
+								position: 1,
+								editedAt: timestamp(),
+							},
+						],
+						deleted: [],
+					},
+				},
+			});
+			const serverId = (
+				data as { mappings: Array<{ clientId: string; serverId: string }> }
+			).mappings.find((m) => m.clientId === clientId)?.serverId;
+
+			const state = (
+				await apiRequest(ctx, "GET", "/state", { apiKey: ctx.userB.apiKey })
+			).data as {
+				todos: Array<{ id: string; title: string }>;
+			};
+			expect(state.todos.find((t) => t.id === serverId)).toMatchObject({
+				when: "anytime",
+				startDate: "2026-02-01",
+				deadline: "2026-03-01",
+			});
+			expect(state.todos.find((t) => t.title === "Read a book")).toMatchObject({
+				when: "evening",
+				startDate: null,
+				deadline: null,
+			});
+		});
 	});
 
 	describe("updating todos", () => {
@@ -126,7 +188,9 @@ describe("POST /push", () => {
 								clientId: serverId,
 								title: "Updated Title",
 								notes: "Updated notes",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
@@ -172,7 +236,9 @@ describe("POST /push", () => {
 								clientId: serverId,
 								title: "Old Client Version",
 								notes: "",
-								dueDate: null,
+								when: "anytime",
+								startDate: null,
+								deadline: null,
 								tags: [],
 								status: "open",
 								position: 0,
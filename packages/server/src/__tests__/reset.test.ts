@@ -2,6 +2,11 @@
  * Reset endpoint tests
  */
 
+import type {
+	DeletedTodoList,
+	SyncDelta,
+	TodoHistory,
+} from "@shared-things/common";
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
 import {
 	apiRequest,
@@ -77,4 +82,84 @@ describe("DELETE /reset", () => {
 		expect(state.todos.some((t) => t.title === "B's Reset Test")).toBe(true);
 		expect(state.todos.some((t) => t.title === "A's Reset Test")).toBe(false);
 	});
+
+	it("should keep the history of reset todos and record their deletion", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "A's Audited Todo",
+		});
+
+		await apiRequest(ctx, "DELETE", "/reset", { apiKey: ctx.userA.apiKey });
+
+		const { status, data } = await apiRequest(
+			ctx,
+			"GET",
+			`/todos/${todoId}/history`,
+			{ apiKey: ctx.userB.apiKey },
+		);
+		expect(status).toBe(200);
+		expect((data as TodoHistory).revisions).toMatchObject([
+			{ action: "created", todo: { title: "A's Audited Todo" } },
+			{ action: "deleted", todo: null, user: { id: ctx.userA.id } },
+		]);
+	});
+
+	it("should announce reset todos as deletions in delta", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "A's Announced Todo",
+		});
+		const { data: state } = await apiRequest(ctx, "GET", "/state", {
+			apiKey: ctx.userB.apiKey,
+		});
+		const start = (state as { cursor: number }).cursor;
+
+		await apiRequest(ctx, "DELETE", "/reset", { apiKey: ctx.userA.apiKey });
+
+		const { data } = await apiRequest(ctx, "GET", `/delta?cursor=${start}`, {
+			apiKey: ctx.userB.apiKey,
+		});
+		expect((data as SyncDelta).todos.deleted).toEqual([
+			expect.objectContaining({ serverId: todoId }),
+		]);
+	});
+
+	it("should keep reset and earlier deleted todos restorable", async () => {
+		const earlier = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "A's Earlier Deleted Todo",
+		});
+		await apiRequest(ctx, "POST", "/push", {
+			apiKey: ctx.userA.apiKey,
+			body: {
+				todos: {
+					upserted: [],
+					deleted: [{ serverId: earlier, deletedAt: new Date().toISOString() }],
+				},
+			},
+		});
+		const reset = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "A's Restorable Todo",
+		});
+
+		await apiRequest(ctx, "DELETE", "/reset", { apiKey: ctx.userA.apiKey });
+
+		const { data } = await apiRequest(ctx, "GET", "/todos/deleted", {
+			apiKey: ctx.userB.apiKey,
+		});
+		expect((data as DeletedTodoList).todos).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({
+					id: earlier,
+					todo: expect.objectContaining({ title: "A's Earlier Deleted Todo" }),
+				}),
+				expect.objectContaining({
+					id: reset,
+					todo: expect.objectContaining({ title: "A's Restorable Todo" }),
+				}),
+			]),
+		);
+		const restored = await apiRequest(ctx, "POST", `/todos/${reset}/restore`, {
+			apiKey: ctx.userB.apiKey,
+			body: {},
+		});
+		expect(restored.status).toBe(200);
+	});
 });
@@ -0,0 +1,146 @@
+/**
+ * Deleted todo restore tests
+ */
+
+import * as crypto from "node:crypto";
+import type { DeletedTodoList, Todo } from "@shared-things/common";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+	apiRequest,
+	createTestServer,
+	createTodoViaApi,
+	type TestContext,
+	timestamp,
+} from "./setup.js";
+
+describe("Restoring deleted todos", () => {
+	let ctx: TestContext;
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	async function deleteTodo(apiKey: string, serverId: string) {
+		return apiRequest(ctx, "POST", "/push", {
+			apiKey,
+			body: {
+				todos: {
+					upserted: [],
+					deleted: [{ serverId, deletedAt: timestamp(60000) }],
+				},
+				lastSyncedAt: "1970-01-01T00:00:00.000Z",
+			},
+		});
+	}
+
+	async function restore(todoId: string) {
+		return apiRequest(ctx, "POST", `/todos/${todoId}/restore`, {
+			apiKey: ctx.userA.apiKey,
+			body: {},
+		});
+	}
+
+	it("should list deleted todos with their content", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Call plumber",
+			notes: "Kitchen sink",
+			editedAt: timestamp(0),
+		});
+		await deleteTodo(ctx.userB.apiKey, todoId);
+
+		const { status, data } = await apiRequest(ctx, "GET", "/todos/deleted", {
+			apiKey: ctx.userA.apiKey,
+		});
+
+		expect(status).toBe(200);
+		const deleted = (data as DeletedTodoList).todos.find(
+			(t) => t.id === todoId,
+		);
+		expect(deleted).toMatchObject({
+			todo: { title: "Call plumber", notes: "Kitchen sink" },
+			deletedAt: timestamp(60000),
+			deletedBy: { name: "TestUserB" },
+		});
+	});
+
+	it("should restore a todo with its checklist and announce it in delta", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Pack bags",
+			editedAt: timestamp(0),
+		});
+		const itemId = crypto.randomUUID();
+		await apiRequest(ctx, "POST", "/push", {
+			apiKey: ctx.userA.apiKey,
+			body: {
+				todos: { upserted: [], deleted: [] },
+				checklistItems: {
+					upserted: [
+						{
+							serverId: itemId,
+							todoServerId: todoId,
+							title: "Toothbrush",
+							completed: true,
+							position: 0,
+							editedAt: timestamp(0),
+						},
+					],
+					deleted: [],
+				},
+				lastSyncedAt: "1970-01-01T00:00:00.000Z",
+			},
+		});
+		await deleteTodo(ctx.userB.apiKey, todoId);
+
+		const since = new Date().toISOString();
+		await new Promise((r) => setTimeout(r, 10));
+		const { status, data } = await restore(todoId);
+
+		expect(status).toBe(200);
+		expect(data).toMatchObject({ id: todoId, title: "Pack bags" });
+
+		const delta = (
+			await apiRequest(
+				ctx,
+				"GET",
+				`/delta?since=${encodeURIComponent(since)}`,
+				{ apiKey: ctx.userB.apiKey },
+			)
+		).data as {
+			todos: { upserted: Todo[]; deleted: Array<{ serverId: string }> };
+			checklistItems: { upserted: Array<{ id: string; completed: boolean }> };
+		};
+		expect(delta.todos.upserted.map((t) => t.id)).toContain(todoId);
+		expect(delta.checklistItems.upserted).toEqual([
+			expect.objectContaining({ id: itemId, completed: true }),
+		]);
+
+		const list = (
+			await apiRequest(ctx, "GET", "/todos/deleted", {
+				apiKey: ctx.userA.apiKey,
+			})
+		).data as DeletedTodoList;
+		expect(list.todos.map((t) => t.id)).not.toContain(todoId);
+	});
+
+	it("should reject restoring a todo that still exists", async () => {
+		const todoId = await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Still here",
+		});
+
+		const { status, data } = await restore(todoId);
+
+		expect(status).toBe(409);
+		expect(data).toMatchObject({ code: "TODO_NOT_DELETED" });
+	});
+
+	it("should return 404 for todos without a tombstone", async () => {
+		const { status, data } = await restore(crypto.randomUUID());
+
+		expect(status).toBe(404);
+		expect(data).toMatchObject({ code: "TODO_NOT_FOUND" });
+	});
+});
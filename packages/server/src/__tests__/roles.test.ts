@@ -0,0 +1,99 @@
+/**
+ * Project role tests
+ */
+
+import type { ProjectList, ProjectState } from "@shared-things/common";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { setProjectRole } from "../db.js";
+import {
+	apiRequest,
+	createTestServer,
+	createTodoViaApi,
+	type TestContext,
+} from "./setup.js";
+
+describe("Project roles", () => {
+	let ctx: TestContext;
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	function asRole(role: "owner" | "editor" | "viewer") {
+		setProjectRole(ctx.db, "default", ctx.userB.id, role);
+		return ctx.userB.apiKey;
+	}
+
+	it("should let viewers read the project and tell them their role", async () => {
+		await createTodoViaApi(ctx, ctx.userA.apiKey, { title: "Dentist" });
+		const apiKey = asRole("viewer");
+
+		const state = (await apiRequest(ctx, "GET", "/state", { apiKey }))
+			.data as ProjectState;
+		const projects = (await apiRequest(ctx, "GET", "/projects", { apiKey }))
+			.data as ProjectList;
+
+		expect(state.role).toBe("viewer");
+		expect(state.todos.map((t) => t.title)).toContain("Dentist");
+		expect(projects.projects).toMatchObject([
+			{ id: "default", role: "viewer" },
+		]);
+	});
+
+	it("should reject pushes from viewers", async () => {
+		const apiKey = asRole("viewer");
+
+		const { status, data } = await apiRequest(ctx, "POST", "/push", {
+			apiKey,
+			body: { todos: { upserted: [], deleted: [] } },
+		});
+
+		expect(status).toBe(403);
+		expect(data).toMatchObject({
+			code: "INSUFFICIENT_ROLE",
+			details: { role: "viewer", requiredRole: "editor" },
+		});
+	});
+
+	it("should reject restores from viewers", async () => {
+		const apiKey = asRole("viewer");
+
+		const { status, data } = await apiRequest(
+			ctx,
+			"POST",
+			"/todos/00000000-0000-0000-0000-000000000000/restore",
+			{ apiKey, body: {} },
+		);
+
+		expect(status).toBe(403);
+		expect(data).toMatchObject({ code: "INSUFFICIENT_ROLE" });
+	});
+
+	it("should let editors push but only owners reset", async () => {
+		const apiKey = asRole("editor");
+
+		expect(
+			(
+				await apiRequest(ctx, "POST", "/push", {
+					apiKey,
+					body: { todos: { upserted: [], deleted: [] } },
+				})
+			).status,
+		).toBe(200);
+		const editorReset = await apiRequest(ctx, "DELETE", "/reset", { apiKey });
+		expect(editorReset.status).toBe(403);
+		expect(editorReset.data).toMatchObject({
+			code: "INSUFFICIENT_ROLE",
+			details: { role: "editor", requiredRole: "owner" },
+		});
+
+		const ownerReset = await apiRequest(ctx, "DELETE", "/reset", {
+			apiKey: asRole("owner"),
+		});
+		expect(ownerReset.status).toBe(200);
+	});
+});
@@ -10,11 +10,23 @@ import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import cors from "@fastify/cors";
+import {
+	DEFAULT_PROJECT_ID,
+	PROTOCOL_HEADER,
+	PROTOCOL_VERSION,
+} from "@shared-things/common";
 import Database from "better-sqlite3";
 import type { FastifyInstance } from "fastify";
 import Fastify from "fastify";
 import { authMiddleware } from "../auth.js";
-import { createUser, type DB } from "../db.js";
+import { addProjectMember, createUser, type DB } from "../db.js";
+import {
+	bodyLimitErrorHandler,
+	DEFAULT_LIMITS,
+	rateLimitMiddleware,
+	type ServerLimits,
+} from "../limits.js";
+import { protocolMiddleware } from "../protocol.js";
 import { registerRoutes } from "../routes.js";
 
 export interface TestContext {
@@ -39,43 +51,163 @@ function initTestDatabase(dbPath: string): DB {
 		CREATE TABLE IF NOT EXISTS users (
 			id TEXT PRIMARY KEY,
 			name TEXT NOT NULL,
-			api_key_hash TEXT NOT NULL UNIQUE,
 			created_at TEXT NOT NULL DEFAULT (datetime('now'))
 		);
 
+		CREATE TABLE IF NOT EXISTS api_keys (
+			id TEXT PRIMARY KEY,
+			user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+			key_hash TEXT NOT NULL UNIQUE,
+			label TEXT NOT NULL DEFAULT '',
+			created_at TEXT NOT NULL DEFAULT (datetime('now')),
+			last_used_at TEXT,
+			revoked_at TEXT
+		);
+
+		CREATE TABLE IF NOT EXISTS projects (
+			id TEXT PRIMARY KEY,
+			name TEXT NOT NULL UNIQUE,
+			private_fields TEXT NOT NULL DEFAULT '[]',
+			created_at TEXT NOT NULL DEFAULT (datetime('now'))
+		);
+
+		CREATE TABLE IF NOT EXISTS project_members (
+			project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+			user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+			role TEXT NOT NULL DEFAULT 'editor',
+			joined_at TEXT NOT NULL DEFAULT (datetime('now')),
+			PRIMARY KEY (project_id, user_id)
+		);
+
+		CREATE TABLE IF NOT EXISTS invites (
+			id TEXT PRIMARY KEY,
+			token_hash TEXT NOT NULL UNIQUE,
+			project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+			role TEXT NOT NULL DEFAULT 'editor',
+			created_at TEXT NOT NULL DEFAULT (datetime('now')),
+			expires_at TEXT NOT NULL,
+			used_at TEXT,
+			used_by TEXT REFERENCES users(id) ON DELETE SET NULL
+		);
+
+		CREATE TABLE IF NOT EXISTS headings (
+			id TEXT PRIMARY KEY,
+			project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+			title TEXT NOT NULL,
+			position INTEGER NOT NULL DEFAULT 0,
+			edited_at TEXT NOT NULL,
+			updated_at TEXT NOT NULL,
+			seq INTEGER NOT NULL DEFAULT 0,
+			created_by TEXT NOT NULL REFERENCES users(id),
+			updated_by TEXT NOT NULL REFERENCES users(id)
+		);
+
 		CREATE TABLE IF NOT EXISTS todos (
 			id TEXT PRIMARY KEY,
+			project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
 			title TEXT NOT NULL,
 			notes TEXT NOT NULL DEFAULT '',
-			due_date TEXT,
+			when_bucket TEXT NOT NULL DEFAULT 'anytime' CHECK (when_bucket IN ('today', 'evening', 'anytime', 'someday')),
+			start_date TEXT,
+			deadline TEXT,
 			tags TEXT NOT NULL DEFAULT '[]',
 			status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'canceled')),
+			position REAL NOT NULL DEFAULT 0,
+			heading_id TEXT REFERENCES headings(id) ON DELETE SET NULL,
+			edited_at TEXT NOT NULL,
+			field_edited_at TEXT NOT NULL DEFAULT '{}',
+			updated_at TEXT NOT NULL,
+			seq INTEGER NOT NULL DEFAULT 0,
+			created_by TEXT NOT NULL REFERENCES users(id),
+			updated_by TEXT NOT NULL REFERENCES users(id)
+		);
+
+		CREATE TABLE IF NOT EXISTS checklist_items (
+			id TEXT PRIMARY KEY,
+			project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+			todo_id TEXT NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+			title TEXT NOT NULL,
+			completed INTEGER NOT NULL DEFAULT 0,
 			position INTEGER NOT NULL DEFAULT 0,
 			edited_at TEXT NOT NULL,
 			updated_at TEXT NOT NULL,
+			seq INTEGER NOT NULL DEFAULT 0,
 			created_by TEXT NOT NULL REFERENCES users(id),
 			updated_by TEXT NOT NULL REFERENCES users(id)
 		);
 
 		CREATE TABLE IF NOT EXISTS deleted_items (
 			id TEXT PRIMARY KEY,
+			project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+			item_type TEXT NOT NULL DEFAULT 'todo' CHECK (item_type IN ('todo', 'heading', 'checklist_item')),
 			server_id TEXT NOT NULL,
 			deleted_at TEXT NOT NULL,
 			recorded_at TEXT NOT NULL DEFAULT (datetime('now')),
-			deleted_by TEXT NOT NULL REFERENCES users(id)
+			deleted_by TEXT NOT NULL REFERENCES users(id),
+			snapshot TEXT,
+			seq INTEGER NOT NULL DEFAULT 0
+		);
+
+		CREATE TABLE IF NOT EXISTS change_sequence (
+			id INTEGER PRIMARY KEY CHECK (id = 1),
+			value INTEGER NOT NULL
+		);
+
+		CREATE TABLE IF NOT EXISTS todo_revisions (
+			id TEXT PRIMARY KEY,
+			project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+			todo_id TEXT NOT NULL,
+			action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+			snapshot TEXT,
+			edited_at TEXT NOT NULL,
+			recorded_at TEXT NOT NULL,
+			user_id TEXT NOT NULL REFERENCES users(id)
+		);
+
+		CREATE TABLE IF NOT EXISTS todo_overlays (
+			project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+			todo_id TEXT NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+			user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+			field_values TEXT NOT NULL DEFAULT '{}',
+			field_edited_at TEXT NOT NULL DEFAULT '{}',
+			updated_at TEXT NOT NULL,
+			seq INTEGER NOT NULL DEFAULT 0,
+			PRIMARY KEY (todo_id, user_id)
 		);
 
 		CREATE INDEX IF NOT EXISTS idx_todos_updated ON todos(updated_at);
+		CREATE INDEX IF NOT EXISTS idx_todos_project ON todos(project_id);
+		CREATE INDEX IF NOT EXISTS idx_headings_project ON headings(project_id);
+		CREATE INDEX IF NOT EXISTS idx_checklist_todo ON checklist_items(todo_id);
+		CREATE INDEX IF NOT EXISTS idx_checklist_project ON checklist_items(project_id);
 		CREATE INDEX IF NOT EXISTS idx_deleted_recorded ON deleted_items(recorded_at);
+		CREATE INDEX IF NOT EXISTS idx_deleted_project ON deleted_items(project_id);
+		CREATE INDEX IF NOT EXISTS idx_revisions_todo ON todo_revisions(project_id, todo_id);
+		CREATE INDEX IF NOT EXISTS idx_todos_seq ON todos(project_id, seq);
+		CREATE INDEX IF NOT EXISTS idx_headings_seq ON headings(project_id, seq);
+		CREATE INDEX IF NOT EXISTS idx_checklist_seq ON checklist_items(project_id, seq);
+		CREATE INDEX IF NOT EXISTS idx_deleted_seq ON deleted_items(project_id, seq);
+		CREATE INDEX IF NOT EXISTS idx_overlays_seq ON todo_overlays(project_id, user_id, seq);
+		CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id);
 	`);
 
+	db.prepare(`INSERT INTO change_sequence (id, value) VALUES (1, 0)`).run();
+
+	db.prepare(`INSERT INTO projects (id, name) VALUES (?, ?)`).run(
+		DEFAULT_PROJECT_ID,
+		DEFAULT_PROJECT_ID,
+	);
+
 	return db;
 }
 
 /**
- * Creates an isolated test server with its own database
+ * Creates an isolated test server with its own database. Rate limits are
+ * off and other limits at their defaults unless overridden.
  */
-export async function createTestServer(): Promise<TestContext> {
+export async function createTestServer(
+	overrides: Partial<ServerLimits> = {},
+): Promise<TestContext> {
 	// Create temp directory for this test's database
 	const testDir = path.join(
 		os.tmpdir(),
@@ -91,18 +223,34 @@ export async function createTestServer(): Promise<TestContext> {
 	// Create test users
 	const userAResult = createUser(db, "TestUserA");
 	const userBResult = createUser(db, "TestUserB");
+	addProjectMember(db, DEFAULT_PROJECT_ID, userAResult.id, "owner");
+	addProjectMember(db, DEFAULT_PROJECT_ID, userBResult.id, "owner");
+
+	const limits: ServerLimits = {
+		...DEFAULT_LIMITS,
+		keyRateLimit: 0,
+		ipRateLimit: 0,
+		...overrides,
+	};
 
 	// Create Fastify instance (no logging in tests)
-	const app = Fastify({ logger: false });
+	const app = Fastify({ logger: false, bodyLimit: limits.bodyLimit });
+	app.setErrorHandler(bodyLimitErrorHandler(limits));
 
 	// Register CORS
 	await app.register(cors, { origin: true });
 
+	// Throttle clients before any other work
+	app.addHook("onRequest", rateLimitMiddleware(limits));
+
+	// Reject daemons speaking an incompatible protocol
+	app.addHook("onRequest", protocolMiddleware());
+
 	// Add auth middleware
 	app.addHook("preHandler", authMiddleware(db));
 
 	// Register routes
-	registerRoutes(app, db);
+	registerRoutes(app, db, limits);
 
 	// Start on random available port
 	await app.listen({ port: 0, host: "127.0.0.1" });
@@ -127,7 +275,7 @@ export async function createTestServer(): Promise<TestContext> {
 }
 
 /**
- * Helper to make authenticated API requests
+ * Helper to make authenticated API requests, speaking the current protocol
  */
 export async function apiRequest(
 	ctx: TestContext,
@@ -136,10 +284,13 @@ export async function apiRequest(
 	options: {
 		apiKey?: string;
 		body?: unknown;
+		headers?: Record<string, string>;
 	} = {},
-): Promise<{ status: number; data: unknown }> {
+): Promise<{ status: number; data: unknown; headers: Headers }> {
 	const headers: Record<string, string> = {
 		"Content-Type": "application/json",
+		[PROTOCOL_HEADER]: String(PROTOCOL_VERSION),
+		...options.headers,
 	};
 
 	if (options.apiKey) {
@@ -153,7 +304,7 @@ export async function apiRequest(
 	});
 
 	const data = await response.json();
-	return { status: response.status, data };
+	return { status: response.status, data, headers: response.headers };
 }
 
 /**
@@ -165,6 +316,7 @@ export async function createTodoViaApi(
 	todo: {
 		title: string;
 		notes?: string;
+		tags?: string[];
 		editedAt?: string;
 	},
 ): Promise<string> {
@@ -180,8 +332,10 @@ export async function createTodoViaApi(
 						clientId,
 						title: todo.title,
 						notes: todo.notes || "",
-						dueDate: null,
-						tags: [],
+						when: "anytime",
+						startDate: null,
+						deadline: null,
+						tags: todo.tags ?? [],
 						status: "open",
 						position: 0,
 						editedAt,
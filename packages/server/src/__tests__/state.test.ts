@@ -70,7 +70,9 @@ describe("GET /state", () => {
 				id: string;
 				title: string;
 				notes: string;
-				dueDate: string | null;
+				when: string;
+				startDate: string | null;
+				deadline: string | null;
 				tags: string[];
 				status: string;
 				position: number;
@@ -85,7 +87,9 @@ describe("GET /state", () => {
 			id: serverId,
 			title: "Full Todo",
 			notes: "Some notes",
-			dueDate: null,
+			when: "anytime",
+			startDate: null,
+			deadline: null,
 			tags: [],
 			status: "open",
 			position: 0,
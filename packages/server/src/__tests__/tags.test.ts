@@ -0,0 +1,57 @@
+/**
+ * Project tag vocabulary tests
+ */
+
+import type { TagList } from "@shared-things/common";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addProjectMember, createProject } from "../db.js";
+import {
+	apiRequest,
+	createTestServer,
+	createTodoViaApi,
+	type TestContext,
+} from "./setup.js";
+
+describe("GET /tags", () => {
+	let ctx: TestContext;
+
+	beforeAll(async () => {
+		ctx = await createTestServer();
+	});
+
+	afterAll(async () => {
+		await ctx.cleanup();
+	});
+
+	it("should list the project's tags with their todo counts", async () => {
+		await createTodoViaApi(ctx, ctx.userA.apiKey, {
+			title: "Buy milk",
+			tags: ["Errand", "Home"],
+		});
+		await createTodoViaApi(ctx, ctx.userB.apiKey, {
+			title: "Post letter",
+			tags: ["Errand"],
+		});
+
+		const { status, data } = await apiRequest(ctx, "GET", "/tags", {
+			apiKey: ctx.userA.apiKey,
+		});
+
+		expect(status).toBe(200);
+		expect((data as TagList).tags).toEqual([
+			{ name: "Errand", todoCount: 2 },
+			{ name: "Home", todoCount: 1 },
+		]);
+	});
+
+	it("should only list tags of the requested project", async () => {
+		const otherId = createProject(ctx.db, "Tagless").id;
+		addProjectMember(ctx.db, otherId, ctx.userA.id);
+
+		const { data } = await apiRequest(ctx, "GET", `/projects/${otherId}/tags`, {
+			apiKey: ctx.userA.apiKey,
+		});
+
+		expect(data).toEqual({ tags: [] });
+	});
+});
@@ -2,12 +2,24 @@
  * Authentication middleware
  */
 
+import {
+	type ApiError,
+	DEFAULT_PROJECT_ID,
+	PROJECT_ROLES,
+	type ProjectRole,
+	type TodoField,
+} from "@shared-things/common";
 import type {
 	FastifyReply,
 	FastifyRequest,
 	HookHandlerDoneFunction,
 } from "fastify";
-import { type DB, getUserByApiKey } from "./db.js";
+import {
+	type DB,
+	getProjectById,
+	getProjectRole,
+	getUserByApiKey,
+} from "./db.js";
 
 declare module "fastify" {
 	interface FastifyRequest {
@@ -15,6 +27,12 @@ declare module "fastify" {
 			id: string;
 			name: string;
 		};
+		project: {
+			id: string;
+			name: string;
+			privateFields: TodoField[];
+			role: ProjectRole;
+		};
 	}
 }
 
@@ -24,8 +42,12 @@ export function authMiddleware(db: DB) {
 		reply: FastifyReply,
 		done: HookHandlerDoneFunction,
 	) => {
-		// Skip auth for health check
-		if (request.url === "/health") {
+		// Skip auth for health check, protocol discovery and enrollment
+		if (
+			request.url === "/health" ||
+			request.url === "/meta" ||
+			request.url === "/enroll"
+		) {
 			return done();
 		}
 
@@ -50,3 +72,69 @@ export function authMiddleware(db: DB) {
 		done();
 	};
 }
+
+/**
+ * Resolves the project from the `:projectId` route param and checks that the
+ * authenticated user is a member. Unprefixed routes use the default project.
+ */
+export function projectMiddleware(db: DB) {
+	return (
+		request: FastifyRequest,
+		reply: FastifyReply,
+		done: HookHandlerDoneFunction,
+	) => {
+		const params = request.params as { projectId?: string };
+		const project = getProjectById(db, params.projectId ?? DEFAULT_PROJECT_ID);
+
+		if (!project) {
+			reply
+				.code(404)
+				.send({ error: "Project not found", code: "PROJECT_NOT_FOUND" });
+			return;
+		}
+
+		const role = getProjectRole(db, project.id, request.user.id);
+		if (!role) {
+			reply.code(403).send({
+				error: "Not a member of this project",
+				code: "FORBIDDEN",
+			});
+			return;
+		}
+
+		request.project = {
+			id: project.id,
+			name: project.name,
+			privateFields: project.privateFields,
+			role,
+		};
+		done();
+	};
+}
+
+/**
+ * Rejects members whose role in the project is below `required`. Runs after
+ * projectMiddleware.
+ */
+export function requireRole(required: ProjectRole) {
+	return (
+		request: FastifyRequest,
+		reply: FastifyReply,
+		done: HookHandlerDoneFunction,
+	) => {
+		const { role } = request.project;
+		if (PROJECT_ROLES.indexOf(role) <= PROJECT_ROLES.indexOf(required)) {
+			return done();
+		}
+
+		const error: ApiError = {
+			error:
+				role === "viewer"
+					? `You can only view "${request.project.name}"`
+					: `Only owners of "${request.project.name}" can do this`,
+			code: "INSUFFICIENT_ROLE",
+			details: { role, requiredRole: required },
+		};
+		reply.code(403).send(error);
+	};
+}
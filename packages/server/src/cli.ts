@@ -10,19 +10,50 @@ import * as os from "node:os";
 import * as path from "node:path";
 import cors from "@fastify/cors";
 import { confirm, input } from "@inquirer/prompts";
+import {
+	DEFAULT_PROJECT_ID,
+	INVITE_PATH,
+	PRIVATE_TODO_FIELDS,
+	PROJECT_ROLES,
+	type ProjectRole,
+	type TodoField,
+} from "@shared-things/common";
 import chalk from "chalk";
 import { Command } from "commander";
 import Fastify from "fastify";
 import updateNotifier from "update-notifier";
 import { authMiddleware } from "./auth.js";
 import {
+	addProjectMember,
+	createApiKey,
+	createInvite,
+	createProject,
 	createUser,
-	getAllTodos,
+	type DB,
+	deleteProject,
 	getAllTodosWithMeta,
+	getProjectByName,
+	getProjectRole,
 	initDatabase,
+	listApiKeys,
+	listProjectMembers,
+	listProjects,
 	listUsers,
+	type ProjectRow,
+	projectExists,
+	removeProjectMember,
+	revokeApiKey,
+	rotateApiKey,
+	setProjectPrivateFields,
+	setProjectRole,
 	userExists,
 } from "./db.js";
+import {
+	bodyLimitErrorHandler,
+	limitsFromEnv,
+	rateLimitMiddleware,
+} from "./limits.js";
+import { protocolMiddleware } from "./protocol.js";
 import { registerRoutes } from "./routes.js";
 
 // Read version from package.json
@@ -107,6 +138,39 @@ function isServerRunning(): { running: boolean; pid?: number } {
 	}
 }
 
+/**
+ * Look up a project by name, exiting with an error if it does not exist
+ */
+function requireProject(db: DB, name: string): ProjectRow {
+	const project = getProjectByName(db, name.trim());
+	if (!project) {
+		console.log(chalk.red(`\n❌ Project "${name.trim()}" not found.\n`));
+		process.exit(1);
+	}
+	return project;
+}
+
+function requireRole(role: string): ProjectRole {
+	if (!PROJECT_ROLES.includes(role as ProjectRole)) {
+		console.log(
+			chalk.red(
+				`\n❌ Unknown role "${role}". Choose from: ${PROJECT_ROLES.join(", ")}\n`,
+			),
+		);
+		process.exit(1);
+	}
+	return role as ProjectRole;
+}
+
+function requireUser(db: DB, name: string): { id: string; name: string } {
+	const user = listUsers(db).find((u) => u.name === name.trim());
+	if (!user) {
+		console.log(chalk.red(`\n❌ User "${name.trim()}" not found.\n`));
+		process.exit(1);
+	}
+	return user;
+}
+
 const program = new Command();
 
 program
@@ -183,18 +247,24 @@ program
 
 		// Foreground mode
 		const db = initDatabase();
+		const limits = limitsFromEnv();
 
 		// In detached mode, use simple logger (no pino-pretty transport)
 		const app = Fastify({
 			logger: true,
+			bodyLimit: limits.bodyLimit,
+			trustProxy: limits.trustProxy,
 		});
+		app.setErrorHandler(bodyLimitErrorHandler(limits));
 
 		await app.register(cors, {
 			origin: true,
 		});
 
+		app.addHook("onRequest", rateLimitMiddleware(limits));
+		app.addHook("onRequest", protocolMiddleware());
 		app.addHook("preHandler", authMiddleware(db));
-		registerRoutes(app, db);
+		registerRoutes(app, db, limits);
 
 		// Handle graceful shutdown
 		const shutdown = async () => {
@@ -286,9 +356,11 @@ program
 		if (fs.existsSync(dbPath)) {
 			const db = initDatabase();
 			const users = listUsers(db);
-			const todos = getAllTodos(db);
-			console.log(`  ${chalk.dim("Users:")}   ${users.length}`);
-			console.log(`  ${chalk.dim("Todos:")}   ${todos.length}`);
+			const projects = listProjects(db);
+			const todos = getAllTodosWithMeta(db);
+			console.log(`  ${chalk.dim("Users:")}    ${users.length}`);
+			console.log(`  ${chalk.dim("Projects:")} ${projects.length}`);
+			console.log(`  ${chalk.dim("Todos:")}    ${todos.length}`);
 		}
 
 		console.log();
@@ -330,8 +402,21 @@ program
 	.command("create-user")
 	.description("Create a new user and generate API key")
 	.option("-n, --name <name>", "Username")
+	.option(
+		"-p, --project <names...>",
+		"Projects to join (defaults to the default project)",
+	)
+	.option(
+		"-r, --role <role>",
+		`Role in those projects (${PROJECT_ROLES.join(", ")})`,
+		"editor",
+	)
 	.action(async (options) => {
 		const db = initDatabase();
+		const role = requireRole(options.role);
+		const projects = options.project
+			? (options.project as string[]).map((name) => requireProject(db, name))
+			: [{ id: DEFAULT_PROJECT_ID, name: DEFAULT_PROJECT_ID }];
 
 		let name = options.name;
 
@@ -357,10 +442,16 @@ program
 		}
 
 		const { id, apiKey } = createUser(db, name.trim());
+		for (const project of projects) {
+			addProjectMember(db, project.id, id, role);
+		}
 
 		console.log(chalk.green("\n✅ User created successfully!\n"));
 		console.log(`  ${chalk.dim("ID:")}       ${id}`);
 		console.log(`  ${chalk.dim("Name:")}     ${name}`);
+		console.log(
+			`  ${chalk.dim("Projects:")} ${projects.map((p) => p.name).join(", ")} (${role})`,
+		);
 		console.log(`  ${chalk.dim("API Key:")}  ${chalk.cyan(apiKey)}`);
 		console.log(
 			chalk.yellow("\n⚠️  Save this API key - it cannot be retrieved later!\n"),
@@ -447,13 +538,421 @@ program
 		}
 
 		// Delete user and their data
+		db.prepare("DELETE FROM checklist_items WHERE updated_by = ?").run(user.id);
 		db.prepare("DELETE FROM todos WHERE updated_by = ?").run(user.id);
+		db.prepare("DELETE FROM headings WHERE updated_by = ?").run(user.id);
 		db.prepare("DELETE FROM deleted_items WHERE deleted_by = ?").run(user.id);
+		db.prepare("DELETE FROM todo_revisions WHERE user_id = ?").run(user.id);
+		db.prepare("DELETE FROM todo_overlays WHERE user_id = ?").run(user.id);
 		db.prepare("DELETE FROM users WHERE id = ?").run(user.id);
 
 		console.log(chalk.green(`\n✅ User "${name}" deleted.\n`));
 	});
 
+// =============================================================================
+// rotate-key command
+// =============================================================================
+program
+	.command("rotate-key")
+	.description("Issue a new API key and revoke the user's other keys")
+	.requiredOption("-u, --user <name>", "Username")
+	.option("-l, --label <label>", "Label for the new key", "default")
+	.option("--keep", "Keep the user's other keys active")
+	.action(async (options) => {
+		const db = initDatabase();
+		const user = requireUser(db, options.user);
+
+		const { id, apiKey, revoked } = options.keep
+			? { ...createApiKey(db, user.id, options.label), revoked: 0 }
+			: rotateApiKey(db, user.id, options.label);
+
+		console.log(chalk.green(`\n✅ New API key for "${user.name}"\n`));
+		console.log(`  ${chalk.dim("Key ID:")}   ${id}`);
+		console.log(`  ${chalk.dim("Label:")}    ${options.label}`);
+		console.log(`  ${chalk.dim("API Key:")}  ${chalk.cyan(apiKey)}`);
+		if (revoked > 0) {
+			console.log(
+				`  ${chalk.dim("Revoked:")}  ${revoked} previous key${revoked === 1 ? "" : "s"}`,
+			);
+		}
+		console.log(
+			chalk.yellow("\n⚠️  Save this API key - it cannot be retrieved later!"),
+		);
+		console.log(chalk.dim("   On the user's Mac run: shared-things set-key\n"));
+	});
+
+// =============================================================================
+// list-keys command
+// =============================================================================
+program
+	.command("list-keys")
+	.description("List a user's API keys")
+	.requiredOption("-u, --user <name>", "Username")
+	.option("-a, --all", "Include revoked keys")
+	.action(async (options) => {
+		const db = initDatabase();
+		const user = requireUser(db, options.user);
+		const keys = listApiKeys(db, user.id).filter(
+			(key) => options.all || !key.revokedAt,
+		);
+
+		if (keys.length === 0) {
+			console.log(chalk.yellow(`\nNo API keys for "${user.name}".\n`));
+			console.log(
+				chalk.dim(
+					`Issue one with: shared-things-server rotate-key -u ${user.name}\n`,
+				),
+			);
+			return;
+		}
+
+		console.log(chalk.bold(`\n🔑 API keys of ${user.name} (${keys.length})\n`));
+		for (const key of keys) {
+			const state = key.revokedAt ? chalk.red(` revoked ${key.revokedAt}`) : "";
+			console.log(
+				`  ${chalk.white(key.label || "(no label)")} ${chalk.dim(`(${key.id})`)}${state}`,
+			);
+			console.log(`    ${chalk.dim("Created:")}   ${key.createdAt}`);
+			console.log(
+				`    ${chalk.dim("Last used:")} ${key.lastUsedAt ?? chalk.dim("never")}`,
+			);
+		}
+		console.log();
+	});
+
+// =============================================================================
+// revoke-key command
+// =============================================================================
+program
+	.command("revoke-key")
+	.description("Revoke one of a user's API keys")
+	.requiredOption("-u, --user <name>", "Username")
+	.argument("<keyId>", "Key ID (see list-keys)")
+	.action(async (keyId: string, options) => {
+		const db = initDatabase();
+		const user = requireUser(db, options.user);
+
+		if (!revokeApiKey(db, user.id, keyId)) {
+			console.log(
+				chalk.red(`\n❌ "${user.name}" has no active key with ID ${keyId}.\n`),
+			);
+			process.exit(1);
+		}
+
+		console.log(chalk.green(`\n✅ Key ${keyId} of "${user.name}" revoked.\n`));
+	});
+
+// =============================================================================
+// create-project command
+// =============================================================================
+program
+	.command("create-project")
+	.description("Create a new shared project")
+	.option("-n, --name <name>", "Project name")
+	.action(async (options) => {
+		const db = initDatabase();
+
+		let name = options.name;
+
+		if (!name) {
+			console.log(chalk.bold("\n📁 Create New Project\n"));
+
+			name = await input({
+				message: "Project name",
+				validate: (value) => {
+					if (!value.trim()) return "Project name is required";
+					if (projectExists(db, value.trim()))
+						return `Project "${value.trim()}" already exists`;
+					return true;
+				},
+			});
+		}
+
+		if (projectExists(db, name.trim())) {
+			console.log(chalk.red(`\n❌ Project "${name.trim()}" already exists.\n`));
+			process.exit(1);
+		}
+
+		const { id } = createProject(db, name.trim());
+
+		console.log(chalk.green("\n✅ Project created successfully!\n"));
+		console.log(`  ${chalk.dim("ID:")}   ${id}`);
+		console.log(`  ${chalk.dim("Name:")} ${name.trim()}`);
+		console.log(
+			chalk.dim(
+				`\nAdd members with: shared-things-server add-member -p "${name.trim()}" -u <user>\n`,
+			),
+		);
+	});
+
+// =============================================================================
+// list-projects command
+// =============================================================================
+program
+	.command("list-projects")
+	.description("List all projects and their members")
+	.action(async () => {
+		const db = initDatabase();
+		const projects = listProjects(db);
+
+		console.log(chalk.bold(`\n📁 Projects (${projects.length})\n`));
+		for (const project of projects) {
+			const members = listProjectMembers(db, project.id);
+			console.log(
+				`  ${chalk.white(project.name)} ${chalk.dim(`(${project.id})`)}`,
+			);
+			console.log(
+				`    ${chalk.dim("Members:")} ${members.length > 0 ? members.map((m) => `${m.name} (${m.role})`).join(", ") : chalk.dim("none")}`,
+			);
+			if (project.privateFields.length > 0) {
+				console.log(
+					`    ${chalk.dim("Private:")} ${project.privateFields.join(", ")}`,
+				);
+			}
+		}
+		console.log();
+	});
+
+// =============================================================================
+// delete-project command
+// =============================================================================
+program
+	.command("delete-project")
+	.description("Delete a project and all of its todos")
+	.option("-n, --name <name>", "Project name")
+	.action(async (options) => {
+		const db = initDatabase();
+
+		const name =
+			options.name ??
+			(await input({
+				message: "Project to delete",
+				validate: (value) =>
+					getProjectByName(db, value.trim()) ? true : "Project not found",
+			}));
+		const project = requireProject(db, name);
+
+		if (project.id === DEFAULT_PROJECT_ID) {
+			console.log(chalk.red("\n❌ The default project cannot be deleted.\n"));
+			process.exit(1);
+		}
+
+		const confirmed = await confirm({
+			message: `Delete project "${project.name}"? This will also delete all of its todos.`,
+			default: false,
+		});
+
+		if (!confirmed) {
+			console.log(chalk.dim("Cancelled."));
+			return;
+		}
+
+		deleteProject(db, project.id);
+
+		console.log(chalk.green(`\n✅ Project "${project.name}" deleted.\n`));
+	});
+
+// =============================================================================
+// add-member command
+// =============================================================================
+program
+	.command("add-member")
+	.description("Add a user to a project")
+	.requiredOption("-p, --project <name>", "Project name")
+	.requiredOption("-u, --user <name>", "Username")
+	.option(
+		"-r, --role <role>",
+		`Role in the project (${PROJECT_ROLES.join(", ")})`,
+		"editor",
+	)
+	.action(async (options) => {
+		const db = initDatabase();
+		const role = requireRole(options.role);
+		const project = requireProject(db, options.project);
+		const user = listUsers(db).find((u) => u.name === options.user);
+
+		if (!user) {
+			console.log(chalk.red(`\n❌ User "${options.user}" not found.\n`));
+			process.exit(1);
+		}
+
+		const current = getProjectRole(db, project.id, user.id);
+		if (current) {
+			console.log(
+				chalk.yellow(
+					`\n"${user.name}" already is ${current === "owner" ? "an" : "a"} ${current} of "${project.name}".\n`,
+				),
+			);
+			console.log(
+				chalk.dim(
+					`Change the role with: shared-things-server set-role -p "${project.name}" -u ${user.name} <role>\n`,
+				),
+			);
+			return;
+		}
+
+		addProjectMember(db, project.id, user.id, role);
+
+		console.log(
+			chalk.green(
+				`\n✅ "${user.name}" is now ${role === "owner" ? "an" : "a"} ${role} of "${project.name}".\n`,
+			),
+		);
+	});
+
+// =============================================================================
+// remove-member command
+// =============================================================================
+program
+	.command("remove-member")
+	.description("Remove a user from a project (keeps their todos)")
+	.requiredOption("-p, --project <name>", "Project name")
+	.requiredOption("-u, --user <name>", "Username")
+	.action(async (options) => {
+		const db = initDatabase();
+		const project = requireProject(db, options.project);
+		const user = listUsers(db).find((u) => u.name === options.user);
+
+		if (!user || !removeProjectMember(db, project.id, user.id)) {
+			console.log(
+				chalk.red(
+					`\n❌ "${options.user}" is not a member of "${project.name}".\n`,
+				),
+			);
+			process.exit(1);
+		}
+
+		console.log(
+			chalk.green(`\n✅ "${user.name}" removed from "${project.name}".\n`),
+		);
+	});
+
+// =============================================================================
+// set-role command
+// =============================================================================
+program
+	.command("set-role")
+	.description("Change what a member may do in a project")
+	.requiredOption("-p, --project <name>", "Project name")
+	.requiredOption("-u, --user <name>", "Username")
+	.argument("<role>", `New role (${PROJECT_ROLES.join(", ")})`)
+	.action(async (roleName: string, options) => {
+		const db = initDatabase();
+		const role = requireRole(roleName);
+		const project = requireProject(db, options.project);
+		const user = listUsers(db).find((u) => u.name === options.user);
+
+		if (!user || !setProjectRole(db, project.id, user.id, role)) {
+			console.log(
+				chalk.red(
+					`\n❌ "${options.user}" is not a member of "${project.name}".\n`,
+				),
+			);
+			process.exit(1);
+		}
+
+		console.log(
+			chalk.green(
+				`\n✅ "${user.name}" is now ${role === "owner" ? "an" : "a"} ${role} of "${project.name}".\n`,
+			),
+		);
+	});
+
+// =============================================================================
+// invite command
+// =============================================================================
+program
+	.command("invite")
+	.description("Create a one-time link that lets someone join a project")
+	.requiredOption("-p, --project <name>", "Project name")
+	.option(
+		"-r, --role <role>",
+		`Role in the project (${PROJECT_ROLES.join(", ")})`,
+		"editor",
+	)
+	.option("-e, --expires <days>", "Days until the link expires", "7")
+	.option(
+		"-s, --server-url <url>",
+		"Public server URL, as the daemon reaches it",
+	)
+	.action(async (options) => {
+		const db = initDatabase();
+		const role = requireRole(options.role);
+		const project = requireProject(db, options.project);
+		const days = Number(options.expires);
+		if (!Number.isFinite(days) || days <= 0) {
+			console.log(chalk.red("\n❌ --expires must be a positive number.\n"));
+			process.exit(1);
+		}
+
+		const expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+		const { token } = createInvite(db, project.id, role, expiresAt);
+		const serverUrl = (options.serverUrl ?? "https://<your-server>").replace(
+			/\/+$/,
+			"",
+		);
+		const link = `${serverUrl}${INVITE_PATH}${token}`;
+
+		console.log(chalk.green(`\n✅ Invite to "${project.name}" created\n`));
+		console.log(`  ${chalk.dim("Role:")}    ${role}`);
+		console.log(`  ${chalk.dim("Expires:")} ${expiresAt.toISOString()}`);
+		console.log(`  ${chalk.dim("Link:")}    ${chalk.cyan(link)}`);
+		console.log(
+			chalk.dim(
+				`\nThe invitee runs: shared-things init --invite "${link}"\nThe link works once.\n`,
+			),
+		);
+	});
+
+// =============================================================================
+// private-fields command
+// =============================================================================
+program
+	.command("private-fields")
+	.description(
+		"Choose which todo fields each project member keeps to themselves",
+	)
+	.requiredOption("-p, --project <name>", "Project name")
+	.argument(
+		"[fields...]",
+		`Fields to keep private (${PRIVATE_TODO_FIELDS.join(", ")})`,
+	)
+	.option("--none", "Share every field again")
+	.action(async (fields: string[], options) => {
+		const db = initDatabase();
+		const project = requireProject(db, options.project);
+
+		if (fields.length === 0 && !options.none) {
+			console.log(
+				`\n${chalk.dim("Private fields of")} ${project.name}: ${project.privateFields.join(", ") || chalk.dim("none")}\n`,
+			);
+			return;
+		}
+
+		const unknown = fields.filter(
+			(field) => !PRIVATE_TODO_FIELDS.includes(field as TodoField),
+		);
+		if (unknown.length > 0) {
+			console.log(
+				chalk.red(
+					`\n❌ Cannot make ${unknown.join(", ")} private. Choose from: ${PRIVATE_TODO_FIELDS.join(", ")}\n`,
+				),
+			);
+			process.exit(1);
+		}
+
+		const privateFields = options.none ? [] : (fields as TodoField[]);
+		setProjectPrivateFields(db, project.id, privateFields);
+
+		console.log(
+			chalk.green(
+				privateFields.length > 0
+					? `\n✅ Members of "${project.name}" now keep ${privateFields.join(", ")} to themselves.\n`
+					: `\n✅ Every field of "${project.name}" is shared.\n`,
+			),
+		);
+	});
+
 // =============================================================================
 // list-todos command
 // =============================================================================
@@ -461,10 +960,15 @@ program
 	.command("list-todos")
 	.description("List all todos")
 	.option("-u, --user <name>", "Filter by username")
+	.option("-p, --project <name>", "Filter by project")
 	.action(async (options) => {
 		const db = initDatabase();
-		const todos = getAllTodosWithMeta(db);
+		const project = options.project
+			? requireProject(db, options.project)
+			: null;
+		const todos = getAllTodosWithMeta(db, project?.id);
 		const users = listUsers(db);
+		const projectMap = new Map(listProjects(db).map((p) => [p.id, p.name]));
 
 		// Create user lookup map
 		const userMap = new Map(users.map((u) => [u.id, u.name]));
@@ -514,8 +1018,11 @@ program
 						: todo.notes;
 				console.log(`    ${chalk.dim("Notes:")} ${shortNotes}`);
 			}
-			if (todo.dueDate) {
-				console.log(`    ${chalk.dim("Due:")} ${todo.dueDate}`);
+			if (todo.when !== "anytime" || todo.startDate) {
+				console.log(`    ${chalk.dim("When:")} ${todo.startDate ?? todo.when}`);
+			}
+			if (todo.deadline) {
+				console.log(`    ${chalk.dim("Deadline:")} ${todo.deadline}`);
 			}
 			if (todo.tags && todo.tags.length > 0) {
 				console.log(`    ${chalk.dim("Tags:")} ${todo.tags.join(", ")}`);
@@ -523,6 +1030,11 @@ program
 			console.log(
 				`    ${chalk.dim("Status:")} ${todo.status} ${chalk.dim("|")} ${chalk.dim("By:")} ${userName} ${chalk.dim("|")} ${todo.updatedAt}`,
 			);
+			if (!project) {
+				console.log(
+					`    ${chalk.dim("Project:")} ${projectMap.get(todo.projectId) || "unknown"}`,
+				);
+			}
 			console.log();
 		}
 	});
@@ -533,10 +1045,14 @@ program
 program
 	.command("reset")
 	.description("Delete all todos (keeps users)")
-	.action(async () => {
+	.option("-p, --project <name>", "Only delete todos in this project")
+	.action(async (options) => {
 		const db = initDatabase();
+		const project = options.project
+			? requireProject(db, options.project)
+			: null;
 
-		const todos = getAllTodos(db);
+		const todos = getAllTodosWithMeta(db, project?.id);
 
 		if (todos.length === 0) {
 			console.log(chalk.yellow("\nNo data to reset.\n"));
@@ -544,6 +1060,9 @@ program
 		}
 
 		console.log(chalk.bold("\n🔄 Reset Server Data\n"));
+		if (project) {
+			console.log(`  ${chalk.dim("Project:")} ${project.name}`);
+		}
 		console.log(`  ${chalk.dim("Todos:")} ${todos.length}`);
 		console.log();
 
@@ -557,8 +1076,19 @@ program
 			return;
 		}
 
-		db.prepare("DELETE FROM todos").run();
-		db.prepare("DELETE FROM deleted_items").run();
+		if (project) {
+			db.prepare("DELETE FROM todos WHERE project_id = ?").run(project.id);
+			db.prepare("DELETE FROM deleted_items WHERE project_id = ?").run(
+				project.id,
+			);
+			db.prepare("DELETE FROM todo_revisions WHERE project_id = ?").run(
+				project.id,
+			);
+		} else {
+			db.prepare("DELETE FROM todos").run();
+			db.prepare("DELETE FROM deleted_items").run();
+			db.prepare("DELETE FROM todo_revisions").run();
+		}
 
 		console.log(chalk.green("\n✅ All todos deleted. Users preserved.\n"));
 	});
@@ -6,6 +6,17 @@ import * as crypto from "node:crypto";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
+import {
+	DEFAULT_PROJECT_ID,
+	type DeletedTodo,
+	type FieldTimestamps,
+	type ProjectRole,
+	type TodoField,
+	type TodoRevision,
+	type TodoSnapshot,
+	type TodoTombstone,
+	type TodoWhen,
+} from "@shared-things/common";
 import Database from "better-sqlite3";
 
 const DATA_DIR =
@@ -18,63 +29,344 @@ type DbTodoRow = {
 	id: string;
 	title: string;
 	notes: string;
-	due_date: string | null;
+	when_bucket: TodoWhen;
+	start_date: string | null;
+	deadline: string | null;
 	tags: string;
 	status: "open" | "completed" | "canceled";
 	position: number;
+	heading_id: string | null;
 	edited_at: string;
+	field_edited_at: string;
 	updated_at: string;
 	updated_by: string;
 };
 
-export function initDatabase(): DB {
-	if (!fs.existsSync(DATA_DIR)) {
-		fs.mkdirSync(DATA_DIR, { recursive: true });
+type DbHeadingRow = {
+	id: string;
+	title: string;
+	position: number;
+	edited_at: string;
+	updated_at: string;
+	updated_by: string;
+};
+
+type DbChecklistItemRow = {
+	id: string;
+	todo_id: string;
+	title: string;
+	completed: number;
+	position: number;
+	edited_at: string;
+	updated_at: string;
+	updated_by: string;
+};
+
+type DbTodoRevisionRow = {
+	id: string;
+	action: TodoRevision["action"];
+	snapshot: string | null;
+	edited_at: string;
+	recorded_at: string;
+	user_id: string;
+	user_name: string;
+};
+
+export type DeletedItemType = "todo" | "heading" | "checklist_item";
+
+export function initDatabase(dbPath = DB_PATH): DB {
+	const dataDir = path.dirname(dbPath);
+	if (!fs.existsSync(dataDir)) {
+		fs.mkdirSync(dataDir, { recursive: true });
 	}
 
-	const db = new Database(DB_PATH);
+	const db = new Database(dbPath);
 	db.pragma("journal_mode = WAL");
 	db.pragma("foreign_keys = ON");
 
+	// Databases created before multi-project support have users but no projects
+	const needsMembershipBackfill = !tableExists(db, "projects");
+
 	migrateDatabase(db);
 
 	db.exec(`
     CREATE TABLE IF NOT EXISTS users (
       id TEXT PRIMARY KEY,
       name TEXT NOT NULL,
-      api_key_hash TEXT NOT NULL UNIQUE,
       created_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
 
+    -- Only hashes are stored; a user may hold several keys
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      key_hash TEXT NOT NULL UNIQUE,
+      label TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      last_used_at TEXT,
+      revoked_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS projects (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      private_fields TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS project_members (
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      role TEXT NOT NULL DEFAULT 'editor',
+      joined_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (project_id, user_id)
+    );
+
+    -- One-time links that let someone create their own account
+    CREATE TABLE IF NOT EXISTS invites (
+      id TEXT PRIMARY KEY,
+      token_hash TEXT NOT NULL UNIQUE,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      role TEXT NOT NULL DEFAULT 'editor',
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      expires_at TEXT NOT NULL,
+      used_at TEXT,
+      used_by TEXT REFERENCES users(id) ON DELETE SET NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS headings (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0,
+      edited_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      seq INTEGER NOT NULL DEFAULT 0,
+      created_by TEXT NOT NULL REFERENCES users(id),
+      updated_by TEXT NOT NULL REFERENCES users(id)
+    );
+
     CREATE TABLE IF NOT EXISTS todos (
       id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
       title TEXT NOT NULL,
       notes TEXT NOT NULL DEFAULT '',
-      due_date TEXT,
+      when_bucket TEXT NOT NULL DEFAULT 'anytime' CHECK (when_bucket IN ('today', 'evening', 'anytime', 'someday')),
+      start_date TEXT,
+      deadline TEXT,
       tags TEXT NOT NULL DEFAULT '[]',
       status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'canceled')),
+      position REAL NOT NULL DEFAULT 0,
+      heading_id TEXT REFERENCES headings(id) ON DELETE SET NULL,
+      edited_at TEXT NOT NULL,
+      field_edited_at TEXT NOT NULL DEFAULT '{}',
+      updated_at TEXT NOT NULL,
+      seq INTEGER NOT NULL DEFAULT 0,
+      created_by TEXT NOT NULL REFERENCES users(id),
+      updated_by TEXT NOT NULL REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS checklist_items (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      todo_id TEXT NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      completed INTEGER NOT NULL DEFAULT 0,
       position INTEGER NOT NULL DEFAULT 0,
       edited_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
+      seq INTEGER NOT NULL DEFAULT 0,
       created_by TEXT NOT NULL REFERENCES users(id),
       updated_by TEXT NOT NULL REFERENCES users(id)
     );
 
     CREATE TABLE IF NOT EXISTS deleted_items (
       id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      item_type TEXT NOT NULL DEFAULT 'todo' CHECK (item_type IN ('todo', 'heading', 'checklist_item')),
       server_id TEXT NOT NULL,
       deleted_at TEXT NOT NULL,
       recorded_at TEXT NOT NULL DEFAULT (datetime('now')),
-      deleted_by TEXT NOT NULL REFERENCES users(id)
+      deleted_by TEXT NOT NULL REFERENCES users(id),
+      snapshot TEXT,
+      seq INTEGER NOT NULL DEFAULT 0
+    );
+
+    -- Single-row counter behind every seq column (delta cursors)
+    CREATE TABLE IF NOT EXISTS change_sequence (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      value INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS todo_revisions (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      todo_id TEXT NOT NULL,
+      action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+      snapshot TEXT,
+      edited_at TEXT NOT NULL,
+      recorded_at TEXT NOT NULL,
+      user_id TEXT NOT NULL REFERENCES users(id)
+    );
+
+    -- Each member's own values for the project's private fields
+    CREATE TABLE IF NOT EXISTS todo_overlays (
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      todo_id TEXT NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      field_values TEXT NOT NULL DEFAULT '{}',
+      field_edited_at TEXT NOT NULL DEFAULT '{}',
+      updated_at TEXT NOT NULL,
+      seq INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (todo_id, user_id)
     );
 
     CREATE INDEX IF NOT EXISTS idx_todos_updated ON todos(updated_at);
+    CREATE INDEX IF NOT EXISTS idx_todos_project ON todos(project_id);
+    CREATE INDEX IF NOT EXISTS idx_headings_project ON headings(project_id);
+    CREATE INDEX IF NOT EXISTS idx_checklist_todo ON checklist_items(todo_id);
+    CREATE INDEX IF NOT EXISTS idx_checklist_project ON checklist_items(project_id);
     CREATE INDEX IF NOT EXISTS idx_deleted_recorded ON deleted_items(recorded_at);
+    CREATE INDEX IF NOT EXISTS idx_deleted_project ON deleted_items(project_id);
+    CREATE INDEX IF NOT EXISTS idx_revisions_todo ON todo_revisions(project_id, todo_id);
+    CREATE INDEX IF NOT EXISTS idx_todos_seq ON todos(project_id, seq);
+    CREATE INDEX IF NOT EXISTS idx_headings_seq ON headings(project_id, seq);
+    CREATE INDEX IF NOT EXISTS idx_checklist_seq ON checklist_items(project_id, seq);
+    CREATE INDEX IF NOT EXISTS idx_deleted_seq ON deleted_items(project_id, seq);
+    CREATE INDEX IF NOT EXISTS idx_overlays_seq ON todo_overlays(project_id, user_id, seq);
+    CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id);
   `);
 
+	db.prepare(
+		`INSERT OR IGNORE INTO change_sequence (id, value) VALUES (1, 0)`,
+	).run();
+
+	db.prepare(`INSERT OR IGNORE INTO projects (id, name) VALUES (?, ?)`).run(
+		DEFAULT_PROJECT_ID,
+		DEFAULT_PROJECT_ID,
+	);
+
+	if (needsMembershipBackfill) {
+		// Everyone shared the single global list before, keep it that way
+		db.prepare(
+			`INSERT OR IGNORE INTO project_members (project_id, user_id, role) SELECT ?, id, 'owner' FROM users`,
+		).run(DEFAULT_PROJECT_ID);
+	}
+
 	return db;
 }
 
+function tableExists(db: DB, name: string): boolean {
+	return !!db
+		.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name=?`)
+		.get(name);
+}
+
+function hasColumn(db: DB, table: string, column: string): boolean {
+	return columnType(db, table, column) !== null;
+}
+
+/** Declared type of a column, or null if the table doesn't have it */
+function columnType(db: DB, table: string, column: string): string | null {
+	const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+		name: string;
+		type: string;
+	}>;
+	return columns.find((col) => col.name === column)?.type ?? null;
+}
+
+/**
+ * Take the next number of the server-wide change sequence. Every write that
+ * should reach other clients stamps its row with one.
+ */
+function nextSeq(db: DB): number {
+	const row = db
+		.prepare(
+			`UPDATE change_sequence SET value = value + 1 WHERE id = 1 RETURNING value`,
+		)
+		.get() as { value: number };
+	return row.value;
+}
+
+/** Latest change sequence number, handed to clients as their delta cursor */
+export function getCurrentSeq(db: DB): number {
+	const row = db
+		.prepare(`SELECT value FROM change_sequence WHERE id = 1`)
+		.get() as { value: number };
+	return row.value;
+}
+
+/**
+ * Delta position: a sequence number, or an ISO timestamp from clients that
+ * predate cursors
+ */
+export type ChangeCursor = number | string;
+
+/**
+ * Condition for rows changed after a cursor, and up to seq `until` when
+ * reading one page of changes (bind with changeParams)
+ */
+function changedAfter(
+	timestampColumn: string,
+	cursor: ChangeCursor,
+	until?: number,
+): string {
+	const after =
+		typeof cursor === "number" ? "seq > ?" : `${timestampColumn} > ?`;
+	return until === undefined ? after : `${after} AND seq <= ?`;
+}
+
+function changeParams(cursor: ChangeCursor, until?: number): ChangeCursor[] {
+	return until === undefined ? [cursor] : [cursor, until];
+}
+
+/**
+ * Seq of the limit-th change after a cursor that a member would receive, or
+ * null when fewer changes follow. Reading up to it gives a page of about
+ * `limit` changes.
+ */
+export function getPageEndSeq(
+	db: DB,
+	projectId: string,
+	userId: string,
+	cursor: number,
+	limit: number,
+): number | null {
+	const row = db
+		.prepare(
+			`
+    SELECT seq FROM (
+      SELECT seq FROM todos WHERE project_id = ? AND seq > ?
+      UNION ALL
+      SELECT seq FROM todo_overlays WHERE project_id = ? AND user_id = ? AND seq > ?
+      UNION ALL
+      SELECT seq FROM headings WHERE project_id = ? AND seq > ?
+      UNION ALL
+      SELECT seq FROM checklist_items WHERE project_id = ? AND seq > ?
+      UNION ALL
+      SELECT seq FROM deleted_items WHERE project_id = ? AND seq > ?
+    )
+    ORDER BY seq
+    LIMIT 1 OFFSET ?
+  `,
+		)
+		.get(
+			projectId,
+			cursor,
+			projectId,
+			userId,
+			cursor,
+			projectId,
+			cursor,
+			projectId,
+			cursor,
+			projectId,
+			cursor,
+			limit - 1,
+		) as { seq: number } | undefined;
+	return row?.seq ?? null;
+}
+
 function migrateDatabase(db: DB): void {
 	db.pragma("foreign_keys = OFF");
 	const hasTodos = db
@@ -99,7 +391,7 @@ function migrateDatabase(db: DB): void {
           due_date TEXT,
           tags TEXT NOT NULL DEFAULT '[]',
           status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'canceled')),
-          position INTEGER NOT NULL DEFAULT 0,
+          position REAL NOT NULL DEFAULT 0,
           edited_at TEXT NOT NULL,
           updated_at TEXT NOT NULL,
           created_by TEXT NOT NULL,
@@ -166,14 +458,217 @@ function migrateDatabase(db: DB): void {
 		}
 	}
 
-	const hasHeadings = db
-		.prepare(
-			`SELECT name FROM sqlite_master WHERE type='table' AND name='headings'`,
-		)
-		.get();
-	if (hasHeadings) {
+	// v2.1 -> v3 migration: scope todos and deletions to a project
+	if (tableExists(db, "todos") && !hasColumn(db, "todos", "project_id")) {
+		db.exec(
+			`ALTER TABLE todos ADD COLUMN project_id TEXT NOT NULL DEFAULT '${DEFAULT_PROJECT_ID}'`,
+		);
+	}
+	if (
+		tableExists(db, "deleted_items") &&
+		!hasColumn(db, "deleted_items", "project_id")
+	) {
+		db.exec(
+			`ALTER TABLE deleted_items ADD COLUMN project_id TEXT NOT NULL DEFAULT '${DEFAULT_PROJECT_ID}'`,
+		);
+	}
+
+	// v3 -> v3.1 migration: deletions also track checklist items
+	if (
+		tableExists(db, "deleted_items") &&
+		!hasColumn(db, "deleted_items", "item_type")
+	) {
+		db.exec(
+			`ALTER TABLE deleted_items ADD COLUMN item_type TEXT NOT NULL DEFAULT 'todo'`,
+		);
+	}
+
+	// v1 headings were keyed by Things ID and never synced; recreate them
+	if (tableExists(db, "headings") && !hasColumn(db, "headings", "edited_at")) {
 		db.exec(`DROP TABLE headings;`);
 	}
+
+	// v3.1 -> v3.2 migration: todos can be filed under a heading
+	if (tableExists(db, "todos") && !hasColumn(db, "todos", "heading_id")) {
+		db.exec(
+			`ALTER TABLE todos ADD COLUMN heading_id TEXT REFERENCES headings(id) ON DELETE SET NULL`,
+		);
+	}
+
+	// v3.2 -> v3.3 migration: per-field edit timestamps (empty = use edited_at)
+	if (tableExists(db, "todos") && !hasColumn(db, "todos", "field_edited_at")) {
+		db.exec(
+			`ALTER TABLE todos ADD COLUMN field_edited_at TEXT NOT NULL DEFAULT '{}'`,
+		);
+	}
+
+	// v3.3 -> v3.4 migration: todo tombstones keep the deleted content
+	if (
+		tableExists(db, "deleted_items") &&
+		!hasColumn(db, "deleted_items", "snapshot")
+	) {
+		db.exec(`ALTER TABLE deleted_items ADD COLUMN snapshot TEXT`);
+	}
+
+	// v3.4 -> v3.5 migration: sequence numbers for delta cursors. Existing
+	// rows all get seq 1 so a cursor of 0 still returns everything.
+	const unsequenced = [
+		"todos",
+		"headings",
+		"checklist_items",
+		"deleted_items",
+	].filter((table) => tableExists(db, table) && !hasColumn(db, table, "seq"));
+	for (const table of unsequenced) {
+		db.exec(`
+      ALTER TABLE ${table} ADD COLUMN seq INTEGER NOT NULL DEFAULT 0;
+      UPDATE ${table} SET seq = 1;
+    `);
+	}
+	if (unsequenced.length > 0) {
+		db.exec(`
+      CREATE TABLE IF NOT EXISTS change_sequence (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        value INTEGER NOT NULL
+      );
+      INSERT OR IGNORE INTO change_sequence (id, value) VALUES (1, 1);
+    `);
+	}
+
+	// v3.5 -> v3.6 migration: due_date held the Things deadline; the "When"
+	// scheduling gets its own columns. Stored snapshots and field timestamps
+	// are renamed to match.
+	if (tableExists(db, "todos") && !hasColumn(db, "todos", "deadline")) {
+		db.exec(`
+      ALTER TABLE todos RENAME COLUMN due_date TO deadline;
+      ALTER TABLE todos ADD COLUMN when_bucket TEXT NOT NULL DEFAULT 'anytime' CHECK (when_bucket IN ('today', 'evening', 'anytime', 'someday'));
+      ALTER TABLE todos ADD COLUMN start_date TEXT;
+      UPDATE todos
+      SET field_edited_at = json_remove(
+        json_set(field_edited_at, '$.deadline', json_extract(field_edited_at, '$.dueDate')),
+        '$.dueDate'
+      )
+      WHERE json_extract(field_edited_at, '$.dueDate') IS NOT NULL;
+    `);
+		if (tableExists(db, "todo_revisions")) {
+			db.exec(`
+        UPDATE todo_revisions
+        SET snapshot = json_remove(
+          json_set(snapshot, '$.when', 'anytime', '$.startDate', json('null'), '$.deadline', json_extract(snapshot, '$.dueDate')),
+          '$.dueDate'
+        )
+        WHERE snapshot IS NOT NULL;
+      `);
+		}
+		if (hasColumn(db, "deleted_items", "snapshot")) {
+			db.exec(`
+        UPDATE deleted_items
+        SET snapshot = json_remove(
+          json_set(snapshot, '$.todo.when', 'anytime', '$.todo.startDate', json('null'), '$.todo.deadline', json_extract(snapshot, '$.todo.dueDate')),
+          '$.todo.dueDate'
+        )
+        WHERE snapshot IS NOT NULL;
+      `);
+		}
+	}
+
+	// v3.6 -> v3.7 migration: projects choose which todo fields stay personal
+	if (
+		tableExists(db, "projects") &&
+		!hasColumn(db, "projects", "private_fields")
+	) {
+		db.exec(
+			`ALTER TABLE projects ADD COLUMN private_fields TEXT NOT NULL DEFAULT '[]'`,
+		);
+	}
+
+	// v3.7 -> v3.8 migration: API keys move out of users into their own
+	// table; each user's key carries over as "default"
+	if (tableExists(db, "users") && hasColumn(db, "users", "api_key_hash")) {
+		db.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        key_hash TEXT NOT NULL UNIQUE,
+        label TEXT NOT NULL DEFAULT '',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        last_used_at TEXT,
+        revoked_at TEXT
+      );
+    `);
+		const users = db
+			.prepare(`SELECT id, api_key_hash, created_at FROM users`)
+			.all() as { id: string; api_key_hash: string; created_at: string }[];
+		const insertKey = db.prepare(`
+      INSERT INTO api_keys (id, user_id, key_hash, label, created_at)
+      VALUES (?, ?, ?, 'default', ?)
+    `);
+		for (const user of users) {
+			insertKey.run(
+				crypto.randomUUID(),
+				user.id,
+				user.api_key_hash,
+				user.created_at,
+			);
+		}
+		db.exec(`
+      CREATE TABLE users_new (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      INSERT INTO users_new (id, name, created_at)
+        SELECT id, name, created_at FROM users;
+      DROP TABLE users;
+      ALTER TABLE users_new RENAME TO users;
+    `);
+	}
+
+	// v3.8 -> v3.9 migration: membership roles. Existing members keep every
+	// right they had; members added from now on default to editor.
+	if (
+		tableExists(db, "project_members") &&
+		!hasColumn(db, "project_members", "role")
+	) {
+		db.exec(`
+      ALTER TABLE project_members ADD COLUMN role TEXT NOT NULL DEFAULT 'editor';
+      UPDATE project_members SET role = 'owner';
+    `);
+	}
+
+	// v3.9 -> v3.10 migration: todo positions are fractional so a move only
+	// renumbers the moved todo. SQLite can't change a column's type, so the
+	// table is rebuilt; its indexes are recreated by initDatabase.
+	if (
+		tableExists(db, "todos") &&
+		columnType(db, "todos", "position") === "INTEGER"
+	) {
+		const columns =
+			"id, project_id, title, notes, when_bucket, start_date, deadline, tags, status, position, heading_id, edited_at, field_edited_at, updated_at, seq, created_by, updated_by";
+		db.exec(`
+      CREATE TABLE todos_new (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        notes TEXT NOT NULL DEFAULT '',
+        when_bucket TEXT NOT NULL DEFAULT 'anytime' CHECK (when_bucket IN ('today', 'evening', 'anytime', 'someday')),
+        start_date TEXT,
+        deadline TEXT,
+        tags TEXT NOT NULL DEFAULT '[]',
+        status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'canceled')),
+        position REAL NOT NULL DEFAULT 0,
+        heading_id TEXT REFERENCES headings(id) ON DELETE SET NULL,
+        edited_at TEXT NOT NULL,
+        field_edited_at TEXT NOT NULL DEFAULT '{}',
+        updated_at TEXT NOT NULL,
+        seq INTEGER NOT NULL DEFAULT 0,
+        created_by TEXT NOT NULL REFERENCES users(id),
+        updated_by TEXT NOT NULL REFERENCES users(id)
+      );
+      INSERT INTO todos_new (${columns}) SELECT ${columns} FROM todos;
+      DROP TABLE todos;
+      ALTER TABLE todos_new RENAME TO todos;
+    `);
+	}
 	db.pragma("foreign_keys = ON");
 }
 
@@ -195,141 +690,547 @@ export function createUser(
 	}
 
 	const id = crypto.randomUUID();
-	const apiKey = crypto.randomBytes(32).toString("hex");
-	const apiKeyHash = crypto.createHash("sha256").update(apiKey).digest("hex");
-
-	db.prepare(`
-    INSERT INTO users (id, name, api_key_hash)
-    VALUES (?, ?, ?)
-  `).run(id, name, apiKeyHash);
+	const { apiKey } = db.transaction(() => {
+		db.prepare(`INSERT INTO users (id, name) VALUES (?, ?)`).run(id, name);
+		return createApiKey(db, id, "default");
+	})();
 
 	return { id, apiKey };
 }
 
+/** Skip recording use more often than this, so requests don't all write */
+const KEY_USE_RESOLUTION_MS = 60_000;
+
 export function getUserByApiKey(
 	db: DB,
 	apiKey: string,
 ): { id: string; name: string } | null {
-	const apiKeyHash = crypto.createHash("sha256").update(apiKey).digest("hex");
-
 	const row = db
-		.prepare(`SELECT id, name FROM users WHERE api_key_hash = ?`)
-		.get(apiKeyHash) as { id: string; name: string } | undefined;
-
-	return row || null;
-}
+		.prepare(
+			`
+    SELECT users.id, users.name, api_keys.id as keyId
+    FROM api_keys JOIN users ON users.id = api_keys.user_id
+    WHERE api_keys.key_hash = ? AND api_keys.revoked_at IS NULL
+  `,
+		)
+		.get(hashSecret(apiKey)) as
+		| { id: string; name: string; keyId: string }
+		| undefined;
+	if (!row) return null;
 
-export function listUsers(
-	db: DB,
-): { id: string; name: string; createdAt: string }[] {
-	return db
-		.prepare(`SELECT id, name, created_at as createdAt FROM users`)
-		.all() as { id: string; name: string; createdAt: string }[];
+	const now = new Date();
+	db.prepare(
+		`UPDATE api_keys SET last_used_at = ? WHERE id = ? AND (last_used_at IS NULL OR last_used_at < ?)`,
+	).run(
+		now.toISOString(),
+		row.keyId,
+		new Date(now.getTime() - KEY_USE_RESOLUTION_MS).toISOString(),
+	);
+	return { id: row.id, name: row.name };
 }
 
 // =============================================================================
-// Todo queries
+// API key queries
 // =============================================================================
 
-export function getAllTodos(db: DB) {
-	const rows = db
-		.prepare(
-			`
-    SELECT id, title, notes, due_date, tags, status, position,
-           edited_at, updated_at, updated_by
-    FROM todos
-    ORDER BY position
-  `,
-		)
-		.all() as DbTodoRow[];
+export type ApiKeyRow = {
+	id: string;
+	label: string;
+	createdAt: string;
+	lastUsedAt: string | null;
+	revokedAt: string | null;
+};
 
-	return rows.map((row) => ({
-		id: row.id,
-		title: row.title,
-		notes: row.notes,
-		dueDate: row.due_date,
-		tags: JSON.parse(row.tags),
-		status: row.status,
-		position: row.position,
-		editedAt: row.edited_at,
-		updatedAt: row.updated_at,
-	}));
+function hashSecret(secret: string): string {
+	return crypto.createHash("sha256").update(secret).digest("hex");
 }
 
-export function getAllTodosWithMeta(db: DB) {
-	const rows = db
+/**
+ * Issue another key for a user. The key itself is only returned here.
+ */
+export function createApiKey(
+	db: DB,
+	userId: string,
+	label: string,
+): { id: string; apiKey: string } {
+	const id = crypto.randomUUID();
+	const apiKey = crypto.randomBytes(32).toString("hex");
+	db.prepare(`
+    INSERT INTO api_keys (id, user_id, key_hash, label)
+    VALUES (?, ?, ?, ?)
+  `).run(id, userId, hashSecret(apiKey), label);
+	return { id, apiKey };
+}
+
+/** A user's keys, oldest first, revoked ones included */
+export function listApiKeys(db: DB, userId: string): ApiKeyRow[] {
+	return db
 		.prepare(
 			`
-    SELECT id, title, notes, due_date, tags, status, position,
-           edited_at, updated_at, updated_by
-    FROM todos
-    ORDER BY position
+    SELECT id, label, created_at as createdAt, last_used_at as lastUsedAt,
+           revoked_at as revokedAt
+    FROM api_keys
+    WHERE user_id = ?
+    ORDER BY created_at, rowid
   `,
 		)
-		.all() as DbTodoRow[];
-
-	return rows.map((row) => ({
-		id: row.id,
-		title: row.title,
-		notes: row.notes,
-		dueDate: row.due_date,
-		tags: JSON.parse(row.tags),
-		status: row.status,
-		position: row.position,
-		editedAt: row.edited_at,
-		updatedAt: row.updated_at,
-		updatedBy: row.updated_by,
-	}));
+		.all(userId) as ApiKeyRow[];
 }
 
-export function getTodosSince(db: DB, since: string) {
-	const rows = db
+/**
+ * Revoke one of a user's keys (false if it doesn't exist or already is)
+ */
+export function revokeApiKey(db: DB, userId: string, keyId: string): boolean {
+	const result = db
 		.prepare(
-			`
-    SELECT id, title, notes, due_date, tags, status, position,
-           edited_at, updated_at, updated_by
-    FROM todos
-    WHERE updated_at > ?
-    ORDER BY position
-  `,
+			`UPDATE api_keys SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL`,
 		)
-		.all(since) as DbTodoRow[];
+		.run(new Date().toISOString(), keyId, userId);
+	return result.changes > 0;
+}
 
-	return rows.map((row) => ({
-		id: row.id,
-		title: row.title,
-		notes: row.notes,
-		dueDate: row.due_date,
-		tags: JSON.parse(row.tags),
-		status: row.status,
-		position: row.position,
-		editedAt: row.edited_at,
-		updatedAt: row.updated_at,
-	}));
+/**
+ * Replace a user's keys with a new one: every key still active is revoked
+ */
+export function rotateApiKey(
+	db: DB,
+	userId: string,
+	label: string,
+): { id: string; apiKey: string; revoked: number } {
+	return db.transaction(() => {
+		const { changes } = db
+			.prepare(
+				`UPDATE api_keys SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL`,
+			)
+			.run(new Date().toISOString(), userId);
+		return { ...createApiKey(db, userId, label), revoked: changes };
+	})();
 }
 
-export function getTodoByServerId(db: DB, serverId: string) {
-	const row = db
+// =============================================================================
+// Invite queries
+// =============================================================================
+
+export type InviteRow = {
+	id: string;
+	projectId: string;
+	role: ProjectRole;
+	createdAt: string;
+	expiresAt: string;
+	usedAt: string | null;
+	usedBy: string | null;
+};
+
+/**
+ * Create a one-time invite to a project. The token itself is only returned
+ * here.
+ */
+export function createInvite(
+	db: DB,
+	projectId: string,
+	role: ProjectRole,
+	expiresAt: Date,
+): { id: string; token: string } {
+	const id = crypto.randomUUID();
+	const token = crypto.randomBytes(24).toString("base64url");
+	db.prepare(`
+    INSERT INTO invites (id, token_hash, project_id, role, expires_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(id, hashSecret(token), projectId, role, expiresAt.toISOString());
+	return { id, token };
+}
+
+/** Invites to a project, newest first */
+export function listInvites(db: DB, projectId: string): InviteRow[] {
+	return db
 		.prepare(
 			`
-    SELECT id, title, notes, due_date, tags, status, position,
-           edited_at, updated_at, updated_by
-    FROM todos
-    WHERE id = ?
+    SELECT id, project_id as projectId, role, created_at as createdAt,
+           expires_at as expiresAt, used_at as usedAt, used_by as usedBy
+    FROM invites
+    WHERE project_id = ?
+    ORDER BY created_at DESC, rowid DESC
   `,
 		)
-		.get(serverId) as DbTodoRow | undefined;
+		.all(projectId) as InviteRow[];
+}
 
-	if (!row) return null;
-	return {
+/**
+ * Use up an invite: creates the user, makes them a member of the invite's
+ * project and returns their first API key. Null if the token is unknown,
+ * used or expired.
+ */
+export function redeemInvite(
+	db: DB,
+	token: string,
+	name: string,
+): {
+	user: { id: string; name: string };
+	apiKey: string;
+	projectId: string;
+	role: ProjectRole;
+} | null {
+	return db.transaction(() => {
+		const now = new Date().toISOString();
+		const invite = db
+			.prepare(
+				`
+      SELECT id, project_id as projectId, role FROM invites
+      WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?
+    `,
+			)
+			.get(hashSecret(token), now) as
+			| { id: string; projectId: string; role: ProjectRole }
+			| undefined;
+		if (!invite) return null;
+
+		const { id, apiKey } = createUser(db, name);
+		addProjectMember(db, invite.projectId, id, invite.role);
+		db.prepare(`UPDATE invites SET used_at = ?, used_by = ? WHERE id = ?`).run(
+			now,
+			id,
+			invite.id,
+		);
+		return {
+			user: { id, name },
+			apiKey,
+			projectId: invite.projectId,
+			role: invite.role,
+		};
+	})();
+}
+
+export function listUsers(
+	db: DB,
+): { id: string; name: string; createdAt: string }[] {
+	return db
+		.prepare(`SELECT id, name, created_at as createdAt FROM users`)
+		.all() as { id: string; name: string; createdAt: string }[];
+}
+
+// =============================================================================
+// Project queries
+// =============================================================================
+
+export type ProjectRow = {
+	id: string;
+	name: string;
+	privateFields: TodoField[];
+	createdAt: string;
+	role?: ProjectRole;
+};
+
+type DbProjectRow = {
+	id: string;
+	name: string;
+	private_fields: string;
+	created_at: string;
+	role?: ProjectRole;
+};
+
+function toProjectRow(row: DbProjectRow): ProjectRow {
+	return {
+		id: row.id,
+		name: row.name,
+		privateFields: JSON.parse(row.private_fields) as TodoField[],
+		createdAt: row.created_at,
+		role: row.role,
+	};
+}
+
+export function projectExists(db: DB, name: string): boolean {
+	const row = db.prepare(`SELECT 1 FROM projects WHERE name = ?`).get(name);
+	return !!row;
+}
+
+export function createProject(db: DB, name: string): { id: string } {
+	if (projectExists(db, name)) {
+		throw new Error(`Project "${name}" already exists`);
+	}
+
+	const id = crypto.randomUUID();
+	db.prepare(`INSERT INTO projects (id, name) VALUES (?, ?)`).run(id, name);
+
+	return { id };
+}
+
+export function getProjectById(db: DB, projectId: string): ProjectRow | null {
+	const row = db
+		.prepare(
+			`SELECT id, name, private_fields, created_at FROM projects WHERE id = ?`,
+		)
+		.get(projectId) as DbProjectRow | undefined;
+	return row ? toProjectRow(row) : null;
+}
+
+export function getProjectByName(db: DB, name: string): ProjectRow | null {
+	const row = db
+		.prepare(
+			`SELECT id, name, private_fields, created_at FROM projects WHERE name = ?`,
+		)
+		.get(name) as DbProjectRow | undefined;
+	return row ? toProjectRow(row) : null;
+}
+
+export function listProjects(db: DB): ProjectRow[] {
+	const rows = db
+		.prepare(
+			`SELECT id, name, private_fields, created_at FROM projects ORDER BY name`,
+		)
+		.all() as DbProjectRow[];
+	return rows.map(toProjectRow);
+}
+
+export function listProjectsForUser(db: DB, userId: string): ProjectRow[] {
+	const rows = db
+		.prepare(
+			`
+    SELECT p.id, p.name, p.private_fields, p.created_at, m.role
+    FROM projects p
+    JOIN project_members m ON m.project_id = p.id
+    WHERE m.user_id = ?
+    ORDER BY p.name
+  `,
+		)
+		.all(userId) as DbProjectRow[];
+	return rows.map(toProjectRow);
+}
+
+/**
+ * Choose the todo fields members keep to themselves. Values already shared
+ * stay as everyone's starting point; fields made shared again fall back to
+ * the shared value.
+ */
+export function setProjectPrivateFields(
+	db: DB,
+	projectId: string,
+	fields: TodoField[],
+): void {
+	db.prepare(`UPDATE projects SET private_fields = ? WHERE id = ?`).run(
+		JSON.stringify(fields),
+		projectId,
+	);
+}
+
+export function deleteProject(db: DB, projectId: string): void {
+	// Cascades to todos, deletions and memberships
+	db.prepare(`DELETE FROM projects WHERE id = ?`).run(projectId);
+}
+
+export function addProjectMember(
+	db: DB,
+	projectId: string,
+	userId: string,
+	role: ProjectRole = "editor",
+): void {
+	db.prepare(
+		`INSERT OR IGNORE INTO project_members (project_id, user_id, role) VALUES (?, ?, ?)`,
+	).run(projectId, userId, role);
+}
+
+export function setProjectRole(
+	db: DB,
+	projectId: string,
+	userId: string,
+	role: ProjectRole,
+): boolean {
+	const result = db
+		.prepare(
+			`UPDATE project_members SET role = ? WHERE project_id = ? AND user_id = ?`,
+		)
+		.run(role, projectId, userId);
+	return result.changes > 0;
+}
+
+export function removeProjectMember(
+	db: DB,
+	projectId: string,
+	userId: string,
+): boolean {
+	const result = db
+		.prepare(`DELETE FROM project_members WHERE project_id = ? AND user_id = ?`)
+		.run(projectId, userId);
+	return result.changes > 0;
+}
+
+/** The user's role in the project, or null if they aren't a member */
+export function getProjectRole(
+	db: DB,
+	projectId: string,
+	userId: string,
+): ProjectRole | null {
+	const row = db
+		.prepare(
+			`SELECT role FROM project_members WHERE project_id = ? AND user_id = ?`,
+		)
+		.get(projectId, userId) as { role: ProjectRole } | undefined;
+	return row?.role ?? null;
+}
+
+export function listProjectMembers(
+	db: DB,
+	projectId: string,
+): { id: string; name: string; role: ProjectRole; joinedAt: string }[] {
+	return db
+		.prepare(
+			`
+    SELECT u.id, u.name, m.role, m.joined_at as joinedAt
+    FROM project_members m
+    JOIN users u ON u.id = m.user_id
+    WHERE m.project_id = ?
+    ORDER BY u.name
+  `,
+		)
+		.all(projectId) as {
+		id: string;
+		name: string;
+		role: ProjectRole;
+		joinedAt: string;
+	}[];
+}
+
+// =============================================================================
+// Todo queries
+// =============================================================================
+
+/** A page of todos in ID order, starting after the todo `after` */
+export interface TodoPage {
+	after?: string;
+	limit: number;
+}
+
+export function getAllTodos(db: DB, projectId: string, page?: TodoPage) {
+	const rows = db
+		.prepare(
+			`
+    SELECT id, title, notes, when_bucket, start_date, deadline, tags,
+           status, position, heading_id,
+           edited_at, field_edited_at, updated_at, updated_by
+    FROM todos
+    WHERE project_id = ? ${page ? "AND id > ?" : ""}
+    ORDER BY ${page ? "id LIMIT ?" : "position"}
+  `,
+		)
+		.all(
+			projectId,
+			...(page ? [page.after ?? "", page.limit] : []),
+		) as DbTodoRow[];
+
+	return rows.map((row) => ({
+		id: row.id,
+		title: row.title,
+		notes: row.notes,
+		when: row.when_bucket,
+		startDate: row.start_date,
+		deadline: row.deadline,
+		tags: JSON.parse(row.tags),
+		status: row.status,
+		position: row.position,
+		headingId: row.heading_id,
+		editedAt: row.edited_at,
+		fieldEditedAt: JSON.parse(row.field_edited_at) as FieldTimestamps,
+		updatedAt: row.updated_at,
+	}));
+}
+
+export function getAllTodosWithMeta(db: DB, projectId?: string) {
+	const rows = db
+		.prepare(
+			`
+    SELECT id, project_id, title, notes, when_bucket, start_date, deadline, tags,
+           status, position,
+           heading_id, edited_at, field_edited_at, updated_at, updated_by
+    FROM todos
+    ${projectId ? "WHERE project_id = ?" : ""}
+    ORDER BY position
+  `,
+		)
+		.all(...(projectId ? [projectId] : [])) as (DbTodoRow & {
+		project_id: string;
+	})[];
+
+	return rows.map((row) => ({
+		id: row.id,
+		projectId: row.project_id,
+		title: row.title,
+		notes: row.notes,
+		when: row.when_bucket,
+		startDate: row.start_date,
+		deadline: row.deadline,
+		tags: JSON.parse(row.tags),
+		status: row.status,
+		position: row.position,
+		headingId: row.heading_id,
+		editedAt: row.edited_at,
+		fieldEditedAt: JSON.parse(row.field_edited_at) as FieldTimestamps,
+		updatedAt: row.updated_at,
+		updatedBy: row.updated_by,
+	}));
+}
+
+export function getTodosSince(
+	db: DB,
+	projectId: string,
+	since: ChangeCursor,
+	until?: number,
+) {
+	const rows = db
+		.prepare(
+			`
+    SELECT id, title, notes, when_bucket, start_date, deadline, tags,
+           status, position, heading_id,
+           edited_at, field_edited_at, updated_at, updated_by
+    FROM todos
+    WHERE project_id = ? AND ${changedAfter("updated_at", since, until)}
+    ORDER BY position
+  `,
+		)
+		.all(projectId, ...changeParams(since, until)) as DbTodoRow[];
+
+	return rows.map((row) => ({
+		id: row.id,
+		title: row.title,
+		notes: row.notes,
+		when: row.when_bucket,
+		startDate: row.start_date,
+		deadline: row.deadline,
+		tags: JSON.parse(row.tags),
+		status: row.status,
+		position: row.position,
+		headingId: row.heading_id,
+		editedAt: row.edited_at,
+		fieldEditedAt: JSON.parse(row.field_edited_at) as FieldTimestamps,
+		updatedAt: row.updated_at,
+	}));
+}
+
+export function getTodoByServerId(db: DB, projectId: string, serverId: string) {
+	const row = db
+		.prepare(
+			`
+    SELECT id, title, notes, when_bucket, start_date, deadline, tags,
+           status, position, heading_id,
+           edited_at, field_edited_at, updated_at, updated_by
+    FROM todos
+    WHERE project_id = ? AND id = ?
+  `,
+		)
+		.get(projectId, serverId) as DbTodoRow | undefined;
+
+	if (!row) return null;
+	return {
 		id: row.id,
 		title: row.title,
 		notes: row.notes,
-		dueDate: row.due_date,
+		when: row.when_bucket,
+		startDate: row.start_date,
+		deadline: row.deadline,
 		tags: JSON.parse(row.tags),
 		status: row.status,
 		position: row.position,
+		headingId: row.heading_id,
 		editedAt: row.edited_at,
+		fieldEditedAt: JSON.parse(row.field_edited_at) as FieldTimestamps,
 		updatedAt: row.updated_at,
 		updatedBy: row.updated_by,
 	};
@@ -337,144 +1238,861 @@ export function getTodoByServerId(db: DB, serverId: string) {
 
 export function upsertTodo(
 	db: DB,
+	projectId: string,
 	serverId: string,
 	data: {
 		title: string;
 		notes: string;
-		dueDate: string | null;
+		when: TodoWhen;
+		startDate: string | null;
+		deadline: string | null;
 		tags: string[];
 		status: "open" | "completed" | "canceled";
 		position: number;
+		headingId: string | null;
 		editedAt: string;
+		fieldEditedAt: FieldTimestamps;
 	},
 	userId: string,
 ): void {
 	const now = new Date().toISOString();
 	const tagsJson = JSON.stringify(data.tags);
+	const fieldEditedAtJson = JSON.stringify(data.fieldEditedAt);
 
 	const existing = db
-		.prepare(`SELECT id FROM todos WHERE id = ?`)
-		.get(serverId) as { id: string } | undefined;
+		.prepare(`SELECT id FROM todos WHERE project_id = ? AND id = ?`)
+		.get(projectId, serverId) as { id: string } | undefined;
 
 	if (existing) {
 		db.prepare(
 			`
       UPDATE todos
-      SET title = ?, notes = ?, due_date = ?, tags = ?, status = ?,
-          position = ?, edited_at = ?, updated_at = ?, updated_by = ?
-      WHERE id = ?
+      SET title = ?, notes = ?, when_bucket = ?, start_date = ?, deadline = ?,
+          tags = ?, status = ?, position = ?, heading_id = ?, edited_at = ?, field_edited_at = ?,
+          updated_at = ?, seq = ?, updated_by = ?
+      WHERE project_id = ? AND id = ?
     `,
 		).run(
 			data.title,
 			data.notes,
-			data.dueDate,
+			data.when,
+			data.startDate,
+			data.deadline,
 			tagsJson,
 			data.status,
 			data.position,
+			data.headingId,
 			data.editedAt,
+			fieldEditedAtJson,
 			now,
+			nextSeq(db),
 			userId,
+			projectId,
 			serverId,
 		);
-		return;
+	} else {
+		db.prepare(
+			`
+    INSERT INTO todos (id, project_id, title, notes, when_bucket, start_date, deadline, tags, status, position, heading_id, edited_at, field_edited_at, updated_at, seq, created_by, updated_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+		).run(
+			serverId,
+			projectId,
+			data.title,
+			data.notes,
+			data.when,
+			data.startDate,
+			data.deadline,
+			tagsJson,
+			data.status,
+			data.position,
+			data.headingId,
+			data.editedAt,
+			fieldEditedAtJson,
+			now,
+			nextSeq(db),
+			userId,
+			userId,
+		);
 	}
 
-	db.prepare(
-		`
-    INSERT INTO todos (id, title, notes, due_date, tags, status, position, edited_at, updated_at, created_by, updated_by)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-  `,
-	).run(
-		serverId,
-		data.title,
-		data.notes,
-		data.dueDate,
-		tagsJson,
-		data.status,
-		data.position,
-		data.editedAt,
-		now,
-		userId,
+	recordRevision(db, projectId, serverId, {
+		action: existing ? "updated" : "created",
+		todo: {
+			title: data.title,
+			notes: data.notes,
+			when: data.when,
+			startDate: data.startDate,
+			deadline: data.deadline,
+			tags: data.tags,
+			status: data.status,
+			position: data.position,
+			headingId: data.headingId,
+		},
+		editedAt: data.editedAt,
+		recordedAt: now,
 		userId,
-	);
+	});
 }
 
-export function deleteTodoByServerId(db: DB, serverId: string): boolean {
+export function deleteTodoByServerId(
+	db: DB,
+	projectId: string,
+	serverId: string,
+): boolean {
 	const existing = db
-		.prepare(`SELECT id FROM todos WHERE id = ?`)
-		.get(serverId) as { id: string } | undefined;
+		.prepare(`SELECT id FROM todos WHERE project_id = ? AND id = ?`)
+		.get(projectId, serverId) as { id: string } | undefined;
 	if (!existing) return false;
 
-	db.prepare(`DELETE FROM todos WHERE id = ?`).run(serverId);
+	db.prepare(`DELETE FROM todos WHERE project_id = ? AND id = ?`).run(
+		projectId,
+		serverId,
+	);
 	return true;
 }
 
 export function getDeletedByServerId(
 	db: DB,
+	projectId: string,
 	serverId: string,
 ): { deletedAt: string; deletedBy: string } | null {
 	const row = db
 		.prepare(
-			`SELECT deleted_at as deletedAt, deleted_by as deletedBy FROM deleted_items WHERE server_id = ? ORDER BY deleted_at DESC LIMIT 1`,
+			`SELECT deleted_at as deletedAt, deleted_by as deletedBy FROM deleted_items WHERE project_id = ? AND server_id = ? ORDER BY deleted_at DESC LIMIT 1`,
 		)
-		.get(serverId) as { deletedAt: string; deletedBy: string } | undefined;
+		.get(projectId, serverId) as
+		| { deletedAt: string; deletedBy: string }
+		| undefined;
 	return row || null;
 }
 
 export function recordDeletion(
 	db: DB,
+	projectId: string,
 	serverId: string,
 	deletedAt: string,
 	userId: string,
+	itemType: DeletedItemType = "todo",
+	snapshot: TodoTombstone | null = null,
 ): void {
+	// Repeated deletions keep the content captured by the first one
+	const previous = db
+		.prepare(
+			`SELECT snapshot FROM deleted_items WHERE project_id = ? AND server_id = ?`,
+		)
+		.get(projectId, serverId) as { snapshot: string | null } | undefined;
+	const snapshotJson = snapshot
+		? JSON.stringify(snapshot)
+		: (previous?.snapshot ?? null);
+
 	// Keep only the latest deletion record per serverId
-	db.prepare(`DELETE FROM deleted_items WHERE server_id = ?`).run(serverId);
+	clearDeletion(db, projectId, serverId);
 	const deleteId = crypto.randomUUID();
 	const recordedAt = new Date().toISOString();
 	db.prepare(
 		`
-    INSERT INTO deleted_items (id, server_id, deleted_at, recorded_at, deleted_by)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO deleted_items (id, project_id, item_type, server_id, deleted_at, recorded_at, deleted_by, snapshot, seq)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `,
-	).run(deleteId, serverId, deletedAt, recordedAt, userId);
+	).run(
+		deleteId,
+		projectId,
+		itemType,
+		serverId,
+		deletedAt,
+		recordedAt,
+		userId,
+		snapshotJson,
+		nextSeq(db),
+	);
+
+	if (itemType === "todo") {
+		recordRevision(db, projectId, serverId, {
+			action: "deleted",
+			todo: null,
+			editedAt: deletedAt,
+			recordedAt,
+			userId,
+		});
+	}
 }
 
-export function clearDeletion(db: DB, serverId: string): void {
-	db.prepare(`DELETE FROM deleted_items WHERE server_id = ?`).run(serverId);
+export function clearDeletion(
+	db: DB,
+	projectId: string,
+	serverId: string,
+): void {
+	db.prepare(
+		`DELETE FROM deleted_items WHERE project_id = ? AND server_id = ?`,
+	).run(projectId, serverId);
 }
 
 export function getDeletedSince(
 	db: DB,
-	since: string,
+	projectId: string,
+	since: ChangeCursor,
+	itemType: DeletedItemType = "todo",
+	until?: number,
 ): { serverId: string; deletedAt: string }[] {
-	// Filter by recorded_at (server time) not deleted_at (client time)
-	// This ensures deletions are propagated even if client clock was behind
+	// Filter by seq, or recorded_at (server time) for timestamp cursors, never
+	// deleted_at (client time): deletions must propagate even if the client
+	// clock was behind
 	return db
 		.prepare(
 			`
     SELECT server_id as serverId, deleted_at as deletedAt
     FROM deleted_items
-    WHERE recorded_at > ?
+    WHERE project_id = ? AND item_type = ? AND ${changedAfter("recorded_at", since, until)}
   `,
 		)
-		.all(since) as { serverId: string; deletedAt: string }[];
+		.all(projectId, itemType, ...changeParams(since, until)) as {
+		serverId: string;
+		deletedAt: string;
+	}[];
 }
 
-// =============================================================================
-// Reset user data
-// =============================================================================
-
-export function resetUserData(
+/**
+ * Capture a todo and its checklist before deleting it
+ */
+export function getTodoTombstone(
 	db: DB,
-	userId: string,
-): { deletedTodos: number } {
-	const todoResult = db
-		.prepare(`DELETE FROM todos WHERE updated_by = ? OR created_by = ?`)
-		.run(userId, userId);
+	projectId: string,
+	serverId: string,
+): TodoTombstone | null {
+	const todo = getTodoByServerId(db, projectId, serverId);
+	if (!todo) return null;
 
-	db.prepare(`DELETE FROM deleted_items WHERE deleted_by = ?`).run(userId);
+	const checklistItems = db
+		.prepare(
+			`
+    SELECT id, title, completed, position
+    FROM checklist_items
+    WHERE project_id = ? AND todo_id = ?
+    ORDER BY position
+  `,
+		)
+		.all(projectId, serverId) as {
+		id: string;
+		title: string;
+		completed: number;
+		position: number;
+	}[];
 
 	return {
-		deletedTodos: todoResult.changes,
+		todo: {
+			title: todo.title,
+			notes: todo.notes,
+			when: todo.when,
+			startDate: todo.startDate,
+			deadline: todo.deadline,
+			tags: todo.tags,
+			status: todo.status,
+			position: todo.position,
+			headingId: todo.headingId,
+		},
+		checklistItems: checklistItems.map((item) => ({
+			...item,
+			completed: item.completed === 1,
+		})),
 	};
 }
+
+/**
+ * Deleted todos that can be restored, most recently deleted first
+ */
+export function getDeletedTodos(db: DB, projectId: string): DeletedTodo[] {
+	return queryDeletedTodos(db, "d.project_id = ?", [projectId]);
+}
+
+export function getDeletedTodo(
+	db: DB,
+	projectId: string,
+	serverId: string,
+): DeletedTodo | null {
+	const [deleted] = queryDeletedTodos(
+		db,
+		"d.project_id = ? AND d.server_id = ?",
+		[projectId, serverId],
+	);
+	return deleted ?? null;
+}
+
+function queryDeletedTodos(
+	db: DB,
+	where: string,
+	params: string[],
+): DeletedTodo[] {
+	const rows = db
+		.prepare(
+			`
+    SELECT d.server_id, d.deleted_at, d.deleted_by, d.snapshot, u.name as user_name
+    FROM deleted_items d
+    JOIN users u ON u.id = d.deleted_by
+    WHERE ${where} AND d.item_type = 'todo' AND d.snapshot IS NOT NULL
+    ORDER BY d.deleted_at DESC
+  `,
+		)
+		.all(...params) as {
+		server_id: string;
+		deleted_at: string;
+		deleted_by: string;
+		snapshot: string;
+		user_name: string;
+	}[];
+
+	return rows.map((row) => ({
+		id: row.server_id,
+		...(JSON.parse(row.snapshot) as TodoTombstone),
+		deletedAt: row.deleted_at,
+		deletedBy: { id: row.deleted_by, name: row.user_name },
+	}));
+}
+
+// =============================================================================
+// Todo revisions (append-only)
+// =============================================================================
+
+function recordRevision(
+	db: DB,
+	projectId: string,
+	todoId: string,
+	revision: {
+		action: TodoRevision["action"];
+		todo: TodoSnapshot | null;
+		editedAt: string;
+		recordedAt: string;
+		userId: string;
+	},
+): void {
+	db.prepare(
+		`
+    INSERT INTO todo_revisions (id, project_id, todo_id, action, snapshot, edited_at, recorded_at, user_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+	).run(
+		crypto.randomUUID(),
+		projectId,
+		todoId,
+		revision.action,
+		revision.todo ? JSON.stringify(revision.todo) : null,
+		revision.editedAt,
+		revision.recordedAt,
+		revision.userId,
+	);
+}
+
+/**
+ * Revisions of a todo, oldest first (empty if the todo never existed)
+ */
+export function getTodoHistory(
+	db: DB,
+	projectId: string,
+	todoId: string,
+): TodoRevision[] {
+	const rows = db
+		.prepare(
+			`
+    SELECT r.id, r.action, r.snapshot, r.edited_at, r.recorded_at,
+           r.user_id, u.name as user_name
+    FROM todo_revisions r
+    JOIN users u ON u.id = r.user_id
+    WHERE r.project_id = ? AND r.todo_id = ?
+    ORDER BY r.recorded_at, r.rowid
+  `,
+		)
+		.all(projectId, todoId) as DbTodoRevisionRow[];
+
+	return rows.map((row) => ({
+		id: row.id,
+		action: row.action,
+		todo: row.snapshot ? (JSON.parse(row.snapshot) as TodoSnapshot) : null,
+		editedAt: row.edited_at,
+		recordedAt: row.recorded_at,
+		user: { id: row.user_id, name: row.user_name },
+	}));
+}
+
+// =============================================================================
+// Heading queries
+// =============================================================================
+
+function toHeading(row: DbHeadingRow) {
+	return {
+		id: row.id,
+		title: row.title,
+		position: row.position,
+		editedAt: row.edited_at,
+		updatedAt: row.updated_at,
+	};
+}
+
+export function getAllHeadings(db: DB, projectId: string) {
+	const rows = db
+		.prepare(
+			`
+    SELECT id, title, position, edited_at, updated_at, updated_by
+    FROM headings
+    WHERE project_id = ?
+    ORDER BY position
+  `,
+		)
+		.all(projectId) as DbHeadingRow[];
+
+	return rows.map(toHeading);
+}
+
+export function getHeadingsSince(
+	db: DB,
+	projectId: string,
+	since: ChangeCursor,
+	until?: number,
+) {
+	const rows = db
+		.prepare(
+			`
+    SELECT id, title, position, edited_at, updated_at, updated_by
+    FROM headings
+    WHERE project_id = ? AND ${changedAfter("updated_at", since, until)}
+    ORDER BY position
+  `,
+		)
+		.all(projectId, ...changeParams(since, until)) as DbHeadingRow[];
+
+	return rows.map(toHeading);
+}
+
+export function getHeadingByServerId(
+	db: DB,
+	projectId: string,
+	serverId: string,
+) {
+	const row = db
+		.prepare(
+			`
+    SELECT id, title, position, edited_at, updated_at, updated_by
+    FROM headings
+    WHERE project_id = ? AND id = ?
+  `,
+		)
+		.get(projectId, serverId) as DbHeadingRow | undefined;
+
+	if (!row) return null;
+	return { ...toHeading(row), updatedBy: row.updated_by };
+}
+
+export function getHeadingByTitle(db: DB, projectId: string, title: string) {
+	const row = db
+		.prepare(
+			`
+    SELECT id, title, position, edited_at, updated_at, updated_by
+    FROM headings
+    WHERE project_id = ? AND title = ?
+    ORDER BY position
+    LIMIT 1
+  `,
+		)
+		.get(projectId, title) as DbHeadingRow | undefined;
+
+	return row ? toHeading(row) : null;
+}
+
+export function upsertHeading(
+	db: DB,
+	projectId: string,
+	serverId: string,
+	data: { title: string; position: number; editedAt: string },
+	userId: string,
+): void {
+	const now = new Date().toISOString();
+
+	const existing = db
+		.prepare(`SELECT id FROM headings WHERE project_id = ? AND id = ?`)
+		.get(projectId, serverId) as { id: string } | undefined;
+
+	if (existing) {
+		db.prepare(
+			`
+      UPDATE headings
+      SET title = ?, position = ?, edited_at = ?, updated_at = ?, seq = ?, updated_by = ?
+      WHERE project_id = ? AND id = ?
+    `,
+		).run(
+			data.title,
+			data.position,
+			data.editedAt,
+			now,
+			nextSeq(db),
+			userId,
+			projectId,
+			serverId,
+		);
+		return;
+	}
+
+	db.prepare(
+		`
+    INSERT INTO headings (id, project_id, title, position, edited_at, updated_at, seq, created_by, updated_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+	).run(
+		serverId,
+		projectId,
+		data.title,
+		data.position,
+		data.editedAt,
+		now,
+		nextSeq(db),
+		userId,
+		userId,
+	);
+}
+
+/**
+ * Delete a heading. Its todos move to the top level of the project; their
+ * updated_at and seq are bumped so the move shows up in other clients' deltas.
+ */
+export function deleteHeadingByServerId(
+	db: DB,
+	projectId: string,
+	serverId: string,
+): boolean {
+	db.prepare(
+		`UPDATE todos SET heading_id = NULL, updated_at = ?, seq = ? WHERE project_id = ? AND heading_id = ?`,
+	).run(new Date().toISOString(), nextSeq(db), projectId, serverId);
+
+	const result = db
+		.prepare(`DELETE FROM headings WHERE project_id = ? AND id = ?`)
+		.run(projectId, serverId);
+	return result.changes > 0;
+}
+
+// =============================================================================
+// Checklist item queries
+// =============================================================================
+
+function toChecklistItem(row: DbChecklistItemRow) {
+	return {
+		id: row.id,
+		todoId: row.todo_id,
+		title: row.title,
+		completed: row.completed === 1,
+		position: row.position,
+		editedAt: row.edited_at,
+		updatedAt: row.updated_at,
+	};
+}
+
+/**
+ * Checklist items of a project, or only those of the todos with IDs in
+ * (after, through] to go with a page of todos
+ */
+export function getAllChecklistItems(
+	db: DB,
+	projectId: string,
+	todoIds?: { after?: string; through: string },
+) {
+	const rows = db
+		.prepare(
+			`
+    SELECT id, todo_id, title, completed, position, edited_at, updated_at, updated_by
+    FROM checklist_items
+    WHERE project_id = ? ${todoIds ? "AND todo_id > ? AND todo_id <= ?" : ""}
+    ORDER BY todo_id, position
+  `,
+		)
+		.all(
+			projectId,
+			...(todoIds ? [todoIds.after ?? "", todoIds.through] : []),
+		) as DbChecklistItemRow[];
+
+	return rows.map(toChecklistItem);
+}
+
+export function getChecklistItemsSince(
+	db: DB,
+	projectId: string,
+	since: ChangeCursor,
+	until?: number,
+) {
+	const rows = db
+		.prepare(
+			`
+    SELECT id, todo_id, title, completed, position, edited_at, updated_at, updated_by
+    FROM checklist_items
+    WHERE project_id = ? AND ${changedAfter("updated_at", since, until)}
+    ORDER BY todo_id, position
+  `,
+		)
+		.all(projectId, ...changeParams(since, until)) as DbChecklistItemRow[];
+
+	return rows.map(toChecklistItem);
+}
+
+export function getChecklistItemByServerId(
+	db: DB,
+	projectId: string,
+	serverId: string,
+) {
+	const row = db
+		.prepare(
+			`
+    SELECT id, todo_id, title, completed, position, edited_at, updated_at, updated_by
+    FROM checklist_items
+    WHERE project_id = ? AND id = ?
+  `,
+		)
+		.get(projectId, serverId) as DbChecklistItemRow | undefined;
+
+	if (!row) return null;
+	return { ...toChecklistItem(row), updatedBy: row.updated_by };
+}
+
+export function upsertChecklistItem(
+	db: DB,
+	projectId: string,
+	serverId: string,
+	data: {
+		todoId: string;
+		title: string;
+		completed: boolean;
+		position: number;
+		editedAt: string;
+	},
+	userId: string,
+): void {
+	const now = new Date().toISOString();
+	const completed = data.completed ? 1 : 0;
+
+	const existing = db
+		.prepare(`SELECT id FROM checklist_items WHERE project_id = ? AND id = ?`)
+		.get(projectId, serverId) as { id: string } | undefined;
+
+	if (existing) {
+		db.prepare(
+			`
+      UPDATE checklist_items
+      SET todo_id = ?, title = ?, completed = ?, position = ?,
+          edited_at = ?, updated_at = ?, seq = ?, updated_by = ?
+      WHERE project_id = ? AND id = ?
+    `,
+		).run(
+			data.todoId,
+			data.title,
+			completed,
+			data.position,
+			data.editedAt,
+			now,
+			nextSeq(db),
+			userId,
+			projectId,
+			serverId,
+		);
+		return;
+	}
+
+	db.prepare(
+		`
+    INSERT INTO checklist_items (id, project_id, todo_id, title, completed, position, edited_at, updated_at, seq, created_by, updated_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+	).run(
+		serverId,
+		projectId,
+		data.todoId,
+		data.title,
+		completed,
+		data.position,
+		data.editedAt,
+		now,
+		nextSeq(db),
+		userId,
+		userId,
+	);
+}
+
+export function deleteChecklistItemByServerId(
+	db: DB,
+	projectId: string,
+	serverId: string,
+): boolean {
+	const result = db
+		.prepare(`DELETE FROM checklist_items WHERE project_id = ? AND id = ?`)
+		.run(projectId, serverId);
+	return result.changes > 0;
+}
+
+// =============================================================================
+// Todo overlay queries (per-member private field values)
+// =============================================================================
+
+export type TodoOverlay = {
+	values: Partial<TodoSnapshot>;
+	fieldEditedAt: FieldTimestamps;
+};
+
+type DbTodoOverlayRow = {
+	todo_id: string;
+	field_values: string;
+	field_edited_at: string;
+};
+
+/**
+ * A member's private field values, by todo ID
+ */
+export function getTodoOverlays(
+	db: DB,
+	projectId: string,
+	userId: string,
+): Map<string, TodoOverlay> {
+	const rows = db
+		.prepare(
+			`
+    SELECT todo_id, field_values, field_edited_at
+    FROM todo_overlays
+    WHERE project_id = ? AND user_id = ?
+  `,
+		)
+		.all(projectId, userId) as DbTodoOverlayRow[];
+
+	return new Map(
+		rows.map((row) => [
+			row.todo_id,
+			{
+				values: JSON.parse(row.field_values) as Partial<TodoSnapshot>,
+				fieldEditedAt: JSON.parse(row.field_edited_at) as FieldTimestamps,
+			},
+		]),
+	);
+}
+
+export function getTodoOverlay(
+	db: DB,
+	projectId: string,
+	todoId: string,
+	userId: string,
+): TodoOverlay | null {
+	const row = db
+		.prepare(
+			`
+    SELECT todo_id, field_values, field_edited_at
+    FROM todo_overlays
+    WHERE project_id = ? AND todo_id = ? AND user_id = ?
+  `,
+		)
+		.get(projectId, todoId, userId) as DbTodoOverlayRow | undefined;
+
+	if (!row) return null;
+	return {
+		values: JSON.parse(row.field_values) as Partial<TodoSnapshot>,
+		fieldEditedAt: JSON.parse(row.field_edited_at) as FieldTimestamps,
+	};
+}
+
+/**
+ * Todos whose overlay for this member changed after the cursor
+ */
+export function getOverlaidTodoIdsSince(
+	db: DB,
+	projectId: string,
+	userId: string,
+	since: ChangeCursor,
+	until?: number,
+): string[] {
+	const rows = db
+		.prepare(
+			`
+    SELECT todo_id
+    FROM todo_overlays
+    WHERE project_id = ? AND user_id = ? AND ${changedAfter("updated_at", since, until)}
+  `,
+		)
+		.all(projectId, userId, ...changeParams(since, until)) as {
+		todo_id: string;
+	}[];
+	return rows.map((row) => row.todo_id);
+}
+
+export function upsertTodoOverlay(
+	db: DB,
+	projectId: string,
+	todoId: string,
+	userId: string,
+	overlay: TodoOverlay,
+): void {
+	db.prepare(
+		`
+    INSERT INTO todo_overlays (project_id, todo_id, user_id, field_values, field_edited_at, updated_at, seq)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (todo_id, user_id) DO UPDATE SET
+      field_values = excluded.field_values,
+      field_edited_at = excluded.field_edited_at,
+      updated_at = excluded.updated_at,
+      seq = excluded.seq
+  `,
+	).run(
+		projectId,
+		todoId,
+		userId,
+		JSON.stringify(overlay.values),
+		JSON.stringify(overlay.fieldEditedAt),
+		new Date().toISOString(),
+		nextSeq(db),
+	);
+}
+
+// =============================================================================
+// Reset user data
+// =============================================================================
+
+/**
+ * Deletes what the user created or last edited in the project, all or
+ * nothing. Each removal is recorded like a pushed deletion: tombstones (with
+ * the todo's content, so it can be restored) reach other members via /delta,
+ * and the revision log gains a deletion for every todo.
+ */
+export function resetUserData(
+	db: DB,
+	projectId: string,
+	userId: string,
+): { deletedTodos: number } {
+	const touchedBy = (table: "todos" | "checklist_items" | "headings") =>
+		(
+			db
+				.prepare(
+					`SELECT id FROM ${table} WHERE project_id = ? AND (updated_by = ? OR created_by = ?)`,
+				)
+				.all(projectId, userId, userId) as { id: string }[]
+		).map((row) => row.id);
+
+	return db.transaction(() => {
+		const now = new Date().toISOString();
+
+		// Todos first, so their tombstones keep every checklist item
+		const todoIds = touchedBy("todos");
+		for (const todoId of todoIds) {
+			const tombstone = getTodoTombstone(db, projectId, todoId);
+			deleteTodoByServerId(db, projectId, todoId);
+			recordDeletion(db, projectId, todoId, now, userId, "todo", tombstone);
+		}
+
+		// Items of the todos above went with them
+		for (const itemId of touchedBy("checklist_items")) {
+			if (deleteChecklistItemByServerId(db, projectId, itemId)) {
+				recordDeletion(db, projectId, itemId, now, userId, "checklist_item");
+			}
+		}
+
+		for (const headingId of touchedBy("headings")) {
+			deleteHeadingByServerId(db, projectId, headingId);
+			recordDeletion(db, projectId, headingId, now, userId, "heading");
+		}
+
+		db.prepare(
+			`DELETE FROM todo_overlays WHERE project_id = ? AND user_id = ?`,
+		).run(projectId, userId);
+
+		return { deletedTodos: todoIds.length };
+	})();
+}
@@ -0,0 +1,78 @@
+/**
+ * Project change notifications (server-sent events)
+ */
+
+import { EventEmitter } from "node:events";
+import type { ProjectChangeEvent } from "@shared-things/common";
+import type { FastifyReply, FastifyRequest } from "fastify";
+
+/** Comment line sent periodically so proxies don't drop idle streams */
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+export interface ChangeNotifier {
+	publish(projectId: string): void;
+	subscribe(
+		projectId: string,
+		listener: (event: ProjectChangeEvent) => void,
+	): () => void;
+}
+
+export function createChangeNotifier(): ChangeNotifier {
+	const emitter = new EventEmitter();
+	// One listener per connected daemon and project
+	emitter.setMaxListeners(0);
+
+	return {
+		publish(projectId) {
+			const event: ProjectChangeEvent = {
+				projectId,
+				changedAt: new Date().toISOString(),
+			};
+			emitter.emit(projectId, event);
+		},
+		subscribe(projectId, listener) {
+			emitter.on(projectId, listener);
+			return () => {
+				emitter.off(projectId, listener);
+			};
+		},
+	};
+}
+
+/**
+ * Take over the response and stream change events for the request's
+ * project until the client disconnects.
+ */
+export function streamProjectEvents(
+	notifier: ChangeNotifier,
+	request: FastifyRequest,
+	reply: FastifyReply,
+): void {
+	const projectId = request.project.id;
+	const res = reply.raw;
+
+	reply.hijack();
+	res.writeHead(200, {
+		"Content-Type": "text/event-stream",
+		"Cache-Control": "no-cache",
+		Connection: "keep-alive",
+	});
+
+	const send = (event: string, data: unknown) => {
+		res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+	};
+
+	send("ready", { projectId });
+	const unsubscribe = notifier.subscribe(projectId, (event) =>
+		send("change", event),
+	);
+	const heartbeat = setInterval(
+		() => res.write(": heartbeat\n\n"),
+		HEARTBEAT_INTERVAL_MS,
+	);
+
+	request.raw.on("close", () => {
+		clearInterval(heartbeat);
+		unsubscribe();
+	});
+}
@@ -6,6 +6,12 @@ import cors from "@fastify/cors";
 import Fastify from "fastify";
 import { authMiddleware } from "./auth.js";
 import { initDatabase } from "./db.js";
+import {
+	bodyLimitErrorHandler,
+	limitsFromEnv,
+	rateLimitMiddleware,
+} from "./limits.js";
+import { protocolMiddleware } from "./protocol.js";
 import { registerRoutes } from "./routes.js";
 
 const PORT = parseInt(process.env.PORT || "3000", 10);
@@ -14,22 +20,32 @@ const HOST = process.env.HOST || "0.0.0.0";
 async function main() {
 	// Initialize database
 	const db = initDatabase();
+	const limits = limitsFromEnv();
 
 	// Create Fastify instance
 	const app = Fastify({
 		logger: true,
+		bodyLimit: limits.bodyLimit,
+		trustProxy: limits.trustProxy,
 	});
+	app.setErrorHandler(bodyLimitErrorHandler(limits));
 
 	// Register CORS
 	await app.register(cors, {
 		origin: true,
 	});
 
+	// Throttle clients before any other work
+	app.addHook("onRequest", rateLimitMiddleware(limits));
+
+	// Reject daemons speaking an incompatible protocol
+	app.addHook("onRequest", protocolMiddleware());
+
 	// Add auth middleware
 	app.addHook("preHandler", authMiddleware(db));
 
 	// Register routes
-	registerRoutes(app, db);
+	registerRoutes(app, db, limits);
 
 	// Start server
 	try {
@@ -0,0 +1,221 @@
+/**
+ * Request size and rate limits
+ */
+
+import type { ApiError, PushRequest } from "@shared-things/common";
+import type {
+	FastifyError,
+	FastifyReply,
+	FastifyRequest,
+	HookHandlerDoneFunction,
+} from "fastify";
+
+export interface ServerLimits {
+	/** Largest request body in bytes */
+	bodyLimit: number;
+	/** Most upserts or deletions in each list of a push */
+	maxPushItems: number;
+	/** Longest title, notes or tag in a push, in characters */
+	maxFieldLength: number;
+	/** Requests per minute with one API key (0 = unlimited) */
+	keyRateLimit: number;
+	/** Requests per minute from one IP address (0 = unlimited) */
+	ipRateLimit: number;
+	/** Take the client IP from X-Forwarded-For (behind a reverse proxy) */
+	trustProxy: boolean;
+}
+
+export const DEFAULT_LIMITS: ServerLimits = {
+	bodyLimit: 5 * 1024 * 1024,
+	maxPushItems: 5000,
+	maxFieldLength: 100_000,
+	keyRateLimit: 300,
+	ipRateLimit: 600,
+	trustProxy: false,
+};
+
+/**
+ * Limits from the environment, falling back to DEFAULT_LIMITS
+ */
+export function limitsFromEnv(env = process.env): ServerLimits {
+	const count = (name: string, fallback: number) => {
+		const value = env[name];
+		if (value === undefined || value === "") return fallback;
+		const parsed = Number(value);
+		if (!Number.isInteger(parsed) || parsed < 0) {
+			throw new Error(`${name} must be a whole number, got "${value}"`);
+		}
+		return parsed;
+	};
+
+	return {
+		bodyLimit: count("MAX_BODY_BYTES", DEFAULT_LIMITS.bodyLimit),
+		maxPushItems: count("MAX_PUSH_ITEMS", DEFAULT_LIMITS.maxPushItems),
+		maxFieldLength: count("MAX_FIELD_LENGTH", DEFAULT_LIMITS.maxFieldLength),
+		keyRateLimit: count("RATE_LIMIT_PER_KEY", DEFAULT_LIMITS.keyRateLimit),
+		ipRateLimit: count("RATE_LIMIT_PER_IP", DEFAULT_LIMITS.ipRateLimit),
+		trustProxy: env.TRUST_PROXY
+			? env.TRUST_PROXY === "true" || env.TRUST_PROXY === "1"
+			: DEFAULT_LIMITS.trustProxy,
+	};
+}
+
+const RATE_WINDOW_MS = 60_000;
+
+/**
+ * Counts requests per key in fixed one-minute windows. `take` returns null
+ * while the key is under the limit, otherwise the seconds until its window
+ * resets.
+ */
+export function createRateLimiter(limit: number, now = () => Date.now()) {
+	const windows = new Map<string, { count: number; resetAt: number }>();
+	let nextSweep = now() + RATE_WINDOW_MS;
+
+	return {
+		take(key: string): number | null {
+			if (limit === 0) return null;
+			const time = now();
+
+			// Forget finished windows so random keys can't grow the map forever
+			if (time >= nextSweep) {
+				for (const [k, w] of windows) {
+					if (w.resetAt <= time) windows.delete(k);
+				}
+				nextSweep = time + RATE_WINDOW_MS;
+			}
+
+			let window = windows.get(key);
+			if (!window || window.resetAt <= time) {
+				window = { count: 0, resetAt: time + RATE_WINDOW_MS };
+				windows.set(key, window);
+			}
+			window.count++;
+			if (window.count <= limit) return null;
+			return Math.ceil((window.resetAt - time) / 1000);
+		},
+	};
+}
+
+/**
+ * Rejects clients over the per-IP or per-key rate with 429 and Retry-After.
+ * Runs before authentication, so guessing keys is throttled too.
+ */
+export function rateLimitMiddleware(limits: ServerLimits) {
+	const byIp = createRateLimiter(limits.ipRateLimit);
+	const byKey = createRateLimiter(limits.keyRateLimit);
+
+	return (
+		request: FastifyRequest,
+		reply: FastifyReply,
+		done: HookHandlerDoneFunction,
+	) => {
+		// Uptime checks poll this
+		if (request.url === "/health") {
+			return done();
+		}
+
+		const authHeader = request.headers.authorization;
+		const retryAfter =
+			byIp.take(request.ip) ??
+			(authHeader?.startsWith("Bearer ")
+				? byKey.take(authHeader.slice(7))
+				: null);
+		if (retryAfter === null) {
+			return done();
+		}
+
+		const error: ApiError = {
+			error: `Too many requests, retry in ${retryAfter}s`,
+			code: "RATE_LIMITED",
+			details: { retryAfter },
+		};
+		reply.code(429).header("Retry-After", String(retryAfter)).send(error);
+	};
+}
+
+/**
+ * Answers bodies over `bodyLimit` in the ApiError shape and leaves every
+ * other error to Fastify
+ */
+export function bodyLimitErrorHandler(limits: ServerLimits) {
+	return (
+		error: FastifyError,
+		_request: FastifyRequest,
+		reply: FastifyReply,
+	) => {
+		if (error.code !== "FST_ERR_CTP_BODY_TOO_LARGE") {
+			throw error;
+		}
+		const apiError: ApiError = {
+			error: `Request body is larger than ${limits.bodyLimit} bytes`,
+			code: "PAYLOAD_TOO_LARGE",
+			details: { maxBytes: limits.bodyLimit },
+		};
+		reply.code(413).send(apiError);
+	};
+}
+
+/**
+ * Checks a push against maxPushItems and maxFieldLength. Returns the status
+ * and error to answer with, or null when it fits.
+ */
+export function checkPushLimits(
+	push: PushRequest,
+	limits: ServerLimits,
+): { status: number; error: ApiError } | null {
+	const lists = {
+		todos: push.todos,
+		headings: push.headings,
+		checklistItems: push.checklistItems,
+	};
+	for (const [name, changes] of Object.entries(lists)) {
+		for (const kind of ["upserted", "deleted"] as const) {
+			const items = changes?.[kind];
+			if (Array.isArray(items) && items.length > limits.maxPushItems) {
+				return {
+					status: 413,
+					error: {
+						error: `Too many ${name} in one push (${items.length}, at most ${limits.maxPushItems})`,
+						code: "PAYLOAD_TOO_LARGE",
+						details: {
+							list: `${name}.${kind}`,
+							count: items.length,
+							maxItems: limits.maxPushItems,
+						},
+					},
+				};
+			}
+		}
+	}
+
+	const fields: [string, unknown][] = [];
+	for (const todo of push.todos.upserted ?? []) {
+		fields.push(["title", todo.title], ["notes", todo.notes]);
+		for (const tag of Array.isArray(todo.tags) ? todo.tags : []) {
+			fields.push(["tag", tag]);
+		}
+	}
+	for (const heading of push.headings?.upserted ?? []) {
+		fields.push(["heading title", heading.title]);
+	}
+	for (const item of push.checklistItems?.upserted ?? []) {
+		fields.push(["checklist item title", item.title]);
+	}
+	for (const [field, value] of fields) {
+		if (typeof value === "string" && value.length > limits.maxFieldLength) {
+			return {
+				status: 400,
+				error: {
+					error: `Too long: ${field} (${value.length} characters, at most ${limits.maxFieldLength})`,
+					code: "FIELD_TOO_LONG",
+					details: {
+						field,
+						length: value.length,
+						maxLength: limits.maxFieldLength,
+					},
+				},
+			};
+		}
+	}
+	return null;
+}
@@ -0,0 +1,56 @@
+/**
+ * Protocol version negotiation
+ */
+
+import {
+	type ApiError,
+	MIN_PROTOCOL_VERSION,
+	PROTOCOL_HEADER,
+	PROTOCOL_VERSION,
+} from "@shared-things/common";
+import type {
+	FastifyReply,
+	FastifyRequest,
+	HookHandlerDoneFunction,
+} from "fastify";
+
+export function protocolMiddleware() {
+	return (
+		request: FastifyRequest,
+		reply: FastifyReply,
+		done: HookHandlerDoneFunction,
+	) => {
+		// Daemons must always be able to ask what we speak
+		if (request.url === "/health" || request.url === "/meta") {
+			return done();
+		}
+
+		const header = request.headers[PROTOCOL_HEADER];
+		const version = Number(header);
+		if (
+			Number.isInteger(version) &&
+			version >= MIN_PROTOCOL_VERSION &&
+			version <= PROTOCOL_VERSION
+		) {
+			return done();
+		}
+
+		// Daemons from before negotiation send no header. They still speak the
+		// formats protocol 4 replaced, so they are turned away like other old ones.
+		const error: ApiError = {
+			error:
+				header === undefined
+					? `Daemon sent no protocol version (requires ${MIN_PROTOCOL_VERSION} or newer). Update shared-things-daemon.`
+					: version > PROTOCOL_VERSION
+						? `Server is too old for protocol ${header} (supports up to ${PROTOCOL_VERSION}). Update shared-things-server.`
+						: `Daemon protocol ${header} is no longer supported (requires ${MIN_PROTOCOL_VERSION} or newer). Update shared-things-daemon.`,
+			code: "PROTOCOL_MISMATCH",
+			details: {
+				clientVersion: header ?? null,
+				protocolVersion: PROTOCOL_VERSION,
+				minProtocolVersion: MIN_PROTOCOL_VERSION,
+			},
+		};
+		reply.code(426).send(error);
+	};
+}
@@ -3,81 +3,440 @@
  */
 
 import * as crypto from "node:crypto";
-import type {
-	Conflict,
-	ProjectState,
-	PushRequest,
-	PushResponse,
-	Todo,
+import {
+	type ApiError,
+	type ChecklistItem,
+	type ChecklistItemConflict,
+	type Conflict,
+	type DeletedTodo,
+	type DeletedTodoList,
+	type EnrollRequest,
+	type EnrollResponse,
+	type FieldTimestamps,
+	type Heading,
+	type HeadingConflict,
+	MAX_PAGE_LIMIT,
+	MIN_PROTOCOL_VERSION,
+	PROTOCOL_VERSION,
+	type ProjectList,
+	type ProjectState,
+	type PushChecklistItem,
+	type PushRequest,
+	type PushResponse,
+	type PushTodo,
+	type ServerMeta,
+	type TagList,
+	TODO_FIELDS,
+	TODO_WHENS,
+	type Todo,
+	type TodoField,
+	type TodoHistory,
+	type TodoWhen,
 } from "@shared-things/common";
 import type { FastifyInstance } from "fastify";
+import { projectMiddleware, requireRole } from "./auth.js";
 import {
+	type ChangeCursor,
 	clearDeletion,
 	type DB,
+	deleteChecklistItemByServerId,
+	deleteHeadingByServerId,
 	deleteTodoByServerId,
+	getAllChecklistItems,
+	getAllHeadings,
 	getAllTodos,
+	getChecklistItemByServerId,
+	getChecklistItemsSince,
+	getCurrentSeq,
 	getDeletedByServerId,
 	getDeletedSince,
+	getDeletedTodo,
+	getDeletedTodos,
+	getHeadingByServerId,
+	getHeadingByTitle,
+	getHeadingsSince,
+	getOverlaidTodoIdsSince,
+	getPageEndSeq,
+	getProjectById,
 	getTodoByServerId,
+	getTodoHistory,
+	getTodoOverlay,
+	getTodoOverlays,
 	getTodosSince,
+	getTodoTombstone,
+	listProjectsForUser,
 	recordDeletion,
+	redeemInvite,
 	resetUserData,
+	type TodoOverlay,
+	upsertChecklistItem,
+	upsertHeading,
 	upsertTodo,
+	upsertTodoOverlay,
+	userExists,
 } from "./db.js";
+import {
+	type ChangeNotifier,
+	createChangeNotifier,
+	streamProjectEvents,
+} from "./events.js";
+import {
+	checkPushLimits,
+	DEFAULT_LIMITS,
+	type ServerLimits,
+} from "./limits.js";
+
+export function registerRoutes(
+	app: FastifyInstance,
+	db: DB,
+	limits: ServerLimits = DEFAULT_LIMITS,
+) {
+	const notifier = createChangeNotifier();
 
-export function registerRoutes(app: FastifyInstance, db: DB) {
 	// Health check (no auth)
 	app.get("/health", async () => {
 		return { status: "ok", timestamp: new Date().toISOString() };
 	});
 
-	// Get full project state
-	app.get("/state", async (_request): Promise<ProjectState> => {
-		const todos = getAllTodos(db);
-
+	// Protocol versions this server speaks (no auth)
+	app.get("/meta", async (): Promise<ServerMeta> => {
 		return {
-			todos: todos as ProjectState["todos"],
-			syncedAt: new Date().toISOString(),
+			protocolVersion: PROTOCOL_VERSION,
+			minProtocolVersion: MIN_PROTOCOL_VERSION,
 		};
 	});
 
-	// Get changes since timestamp
-	app.get<{ Querystring: { since: string } }>("/delta", async (request) => {
-		const { since } = request.query;
+	// Trade a one-time invite for a new account (no auth)
+	app.post<{ Body: Partial<EnrollRequest> }>(
+		"/enroll",
+		async (request, reply): Promise<EnrollResponse | ApiError> => {
+			const { token, name } = request.body ?? {};
+			if (typeof token !== "string" || typeof name !== "string") {
+				reply.status(400);
+				return { error: "Missing token or name", code: "BAD_REQUEST" };
+			}
+			const username = name.trim();
+			if (!username || username.length > 100) {
+				reply.status(400);
+				return { error: "Invalid name", code: "BAD_REQUEST" };
+			}
+			if (userExists(db, username)) {
+				reply.status(409);
+				return {
+					error: `User "${username}" already exists`,
+					code: "USER_EXISTS",
+				};
+			}
 
-		if (!since) {
-			return { error: 'Missing "since" query parameter', code: "BAD_REQUEST" };
-		}
+			const enrolled = redeemInvite(db, token, username);
+			const project = enrolled && getProjectById(db, enrolled.projectId);
+			if (!enrolled || !project) {
+				reply.status(400);
+				return {
+					error: "Invite is unknown, used or expired",
+					code: "INVALID_INVITE",
+				};
+			}
+			return {
+				user: enrolled.user,
+				apiKey: enrolled.apiKey,
+				project: { ...project, role: enrolled.role },
+			};
+		},
+	);
+
+	// List projects the user is a member of
+	app.get("/projects", async (request): Promise<ProjectList> => {
+		return { projects: listProjectsForUser(db, request.user.id) };
+	});
+
+	// Unprefixed routes operate on the default project (single-project daemons)
+	registerProjectRoutes(app, db, notifier, limits);
+
+	app.register(
+		async (scope) => {
+			registerProjectRoutes(scope, db, notifier, limits);
+		},
+		{ prefix: "/projects/:projectId" },
+	);
+}
 
-		const todos = getTodosSince(db, since);
-		const deleted = getDeletedSince(db, since);
+function registerProjectRoutes(
+	app: FastifyInstance,
+	db: DB,
+	notifier: ChangeNotifier,
+	limits: ServerLimits,
+) {
+	const preHandler = projectMiddleware(db);
+	const editorOnly = [preHandler, requireRole("editor")];
+	const ownerOnly = [preHandler, requireRole("owner")];
+
+	// Stream change notifications so clients can sync on demand
+	app.get("/events", { preHandler }, (request, reply) => {
+		streamProjectEvents(notifier, request, reply);
+	});
 
+	// Get full project state, optionally a page of todos at a time (with
+	// their checklist items; headings come with the first page)
+	app.get<{ Querystring: { limit?: string; after?: string } }>(
+		"/state",
+		{ preHandler },
+		async (request): Promise<ProjectState | ApiError> => {
+			const projectId = request.project.id;
+			const limit = parseLimit(request.query.limit);
+			if (limit === null) {
+				return {
+					error: 'Invalid "limit" query parameter',
+					code: "BAD_REQUEST",
+				};
+			}
+			const { after } = request.query;
+			const page = limit === undefined ? undefined : { after, limit };
+
+			const cursor = getCurrentSeq(db);
+			const todos = personalize(
+				getAllTodos(db, projectId, page),
+				getTodoOverlays(db, projectId, request.user.id),
+				request.project.privateFields,
+			);
+			const lastTodoId = todos.at(-1)?.id;
+			const headings =
+				page?.after === undefined ? getAllHeadings(db, projectId) : [];
+			const checklistItems = !page
+				? getAllChecklistItems(db, projectId)
+				: lastTodoId
+					? getAllChecklistItems(db, projectId, {
+							after: page.after,
+							through: lastTodoId,
+						})
+					: [];
+
+			return {
+				todos: todos as ProjectState["todos"],
+				headings,
+				checklistItems,
+				syncedAt: new Date().toISOString(),
+				cursor,
+				nextPage: page && todos.length === page.limit ? lastTodoId : undefined,
+				role: request.project.role,
+			};
+		},
+	);
+
+	// Get the revision log of a todo (also works after it was deleted)
+	app.get<{ Params: { id: string } }>(
+		"/todos/:id/history",
+		{ preHandler },
+		async (request, reply): Promise<TodoHistory | ApiError> => {
+			const todoId = request.params.id;
+			const revisions = getTodoHistory(db, request.project.id, todoId);
+			if (revisions.length === 0) {
+				reply.status(404);
+				return { error: "Todo not found", code: "TODO_NOT_FOUND" };
+			}
+			return { todoId, revisions };
+		},
+	);
+
+	// List deleted todos that can be restored
+	app.get(
+		"/todos/deleted",
+		{ preHandler },
+		async (request): Promise<DeletedTodoList> => {
+			return { todos: getDeletedTodos(db, request.project.id) };
+		},
+	);
+
+	// List the tags used in the project, as the caller sees them
+	app.get("/tags", { preHandler }, async (request): Promise<TagList> => {
+		const todos = personalize(
+			getAllTodos(db, request.project.id),
+			getTodoOverlays(db, request.project.id, request.user.id),
+			request.project.privateFields,
+		);
+		const counts = new Map<string, number>();
+		for (const todo of todos) {
+			for (const tag of todo.tags) {
+				counts.set(tag, (counts.get(tag) ?? 0) + 1);
+			}
+		}
 		return {
-			todos: {
-				upserted: todos,
-				deleted,
-			},
-			syncedAt: new Date().toISOString(),
+			tags: [...counts]
+				.map(([name, todoCount]) => ({ name, todoCount }))
+				.sort((a, b) => a.name.localeCompare(b.name)),
 		};
 	});
 
+	// Bring a deleted todo (and its checklist) back for everyone
+	app.post<{ Params: { id: string } }>(
+		"/todos/:id/restore",
+		{ preHandler: editorOnly },
+		async (request, reply): Promise<Todo | ApiError> => {
+			const projectId = request.project.id;
+			const todoId = request.params.id;
+
+			if (getTodoByServerId(db, projectId, todoId)) {
+				reply.status(409);
+				return { error: "Todo is not deleted", code: "TODO_NOT_DELETED" };
+			}
+			const deleted = getDeletedTodo(db, projectId, todoId);
+			if (!deleted) {
+				reply.status(404);
+				return {
+					error: "No restorable copy of this todo",
+					code: "TODO_NOT_FOUND",
+				};
+			}
+
+			const todo = db.transaction(() =>
+				restoreTodo(db, projectId, deleted, request.user.id),
+			)();
+			notifier.publish(projectId);
+			return todo;
+		},
+	);
+
+	// Get changes after a cursor, optionally about `limit` changes at a time.
+	// Current daemons still send a "since" timestamp once: the first pull
+	// after upgrading from a state file written before cursors.
+	app.get<{ Querystring: { cursor?: string; since?: string; limit?: string } }>(
+		"/delta",
+		{ preHandler },
+		async (request) => {
+			const projectId = request.project.id;
+			const limit = parseLimit(request.query.limit);
+			if (limit === null) {
+				return {
+					error: 'Invalid "limit" query parameter',
+					code: "BAD_REQUEST",
+				};
+			}
+
+			let since: ChangeCursor;
+			if (request.query.cursor !== undefined) {
+				since = Number(request.query.cursor);
+				if (!Number.isInteger(since) || since < 0) {
+					return {
+						error: 'Invalid "cursor" query parameter',
+						code: "BAD_REQUEST",
+					};
+				}
+			} else if (request.query.since) {
+				// The one pull from a pre-cursor state file (see above)
+				since = request.query.since;
+			} else {
+				return {
+					error: 'Missing "cursor" query parameter',
+					code: "BAD_REQUEST",
+				};
+			}
+
+			// Read the cursor first: later writes must show up in the next delta
+			const cursor = getCurrentSeq(db);
+			// A page ends at the seq of its last change; timestamp cursors
+			// can't be paged
+			let until: number | undefined;
+			if (limit !== undefined && typeof since === "number") {
+				const end = getPageEndSeq(db, projectId, request.user.id, since, limit);
+				if (end !== null && end < cursor) until = end;
+			}
+
+			const todos: Todo[] = getTodosSince(db, projectId, since, until);
+			// Todos whose shared part didn't change but this member's did
+			for (const todoId of getOverlaidTodoIdsSince(
+				db,
+				projectId,
+				request.user.id,
+				since,
+				until,
+			)) {
+				const todo = todos.some((t) => t.id === todoId)
+					? null
+					: getTodoByServerId(db, projectId, todoId);
+				if (todo) todos.push(toTodo(todo));
+			}
+			const deleted = getDeletedSince(db, projectId, since, "todo", until);
+
+			return {
+				todos: {
+					upserted: personalize(
+						todos,
+						getTodoOverlays(db, projectId, request.user.id),
+						request.project.privateFields,
+					),
+					deleted,
+				},
+				headings: {
+					upserted: getHeadingsSince(db, projectId, since, until),
+					deleted: getDeletedSince(db, projectId, since, "heading", until),
+				},
+				checklistItems: {
+					upserted: getChecklistItemsSince(db, projectId, since, until),
+					deleted: getDeletedSince(
+						db,
+						projectId,
+						since,
+						"checklist_item",
+						until,
+					),
+				},
+				syncedAt: new Date().toISOString(),
+				cursor: until ?? cursor,
+				hasMore: limit === undefined ? undefined : until !== undefined,
+				role: request.project.role,
+			};
+		},
+	);
+
 	// Push changes
 	app.post<{ Body: PushRequest }>(
 		"/push",
-		async (request, reply): Promise<PushResponse> => {
-			const { todos } = request.body;
+		{ preHandler: editorOnly },
+		async (request, reply): Promise<PushResponse | ApiError> => {
+			const tooLarge = checkPushLimits(request.body, limits);
+			if (tooLarge) {
+				reply.status(tooLarge.status);
+				return tooLarge.error;
+			}
+
+			const { todos, headings, checklistItems } = request.body;
 			const userId = request.user.id;
+			const projectId = request.project.id;
+			const { privateFields } = request.project;
 			const conflicts: Conflict[] = [];
 			const mappings: PushResponse["mappings"] = [];
+			let headingResult: HeadingPushResult = { conflicts: [], mappings: [] };
+			let checklistResult: ChecklistPushResult = {
+				conflicts: [],
+				mappings: [],
+			};
 
 			try {
 				const transaction = db.transaction(() => {
+					// Headings first so todos can reference new ones by client ID
+					if (headings) {
+						headingResult = applyHeadingChanges(
+							db,
+							projectId,
+							userId,
+							headings,
+						);
+					}
+					const headingIdsByClientId = new Map(
+						headingResult.mappings.map((m) => [m.clientId, m.serverId]),
+					);
+
 					// Process todo deletions (by server ID)
 					for (const deletion of todos.deleted) {
-						const existing = getTodoByServerId(db, deletion.serverId);
+						const existing = getTodoByServerId(
+							db,
+							projectId,
+							deletion.serverId,
+						);
 						if (!existing) {
 							const existingDeletion = getDeletedByServerId(
 								db,
+								projectId,
 								deletion.serverId,
 							);
 							if (
@@ -86,6 +445,7 @@ export function registerRoutes(app: FastifyInstance, db: DB) {
 							) {
 								recordDeletion(
 									db,
+									projectId,
 									deletion.serverId,
 									deletion.deletedAt,
 									userId,
@@ -111,8 +471,21 @@ export function registerRoutes(app: FastifyInstance, db: DB) {
 							continue;
 						}
 
-						deleteTodoByServerId(db, deletion.serverId);
-						recordDeletion(db, deletion.serverId, deletion.deletedAt, userId);
+						const tombstone = getTodoTombstone(
+							db,
+							projectId,
+							deletion.serverId,
+						);
+						deleteTodoByServerId(db, projectId, deletion.serverId);
+						recordDeletion(
+							db,
+							projectId,
+							deletion.serverId,
+							deletion.deletedAt,
+							userId,
+							"todo",
+							tombstone,
+						);
 					}
 
 					// Process todo upserts
@@ -123,8 +496,13 @@ export function registerRoutes(app: FastifyInstance, db: DB) {
 							Number.isFinite(todo.position)
 								? todo.position
 								: 0;
+						const when = TODO_WHENS.includes(todo.when) ? todo.when : "anytime";
 
-						const existingDeletion = getDeletedByServerId(db, serverId);
+						const existingDeletion = getDeletedByServerId(
+							db,
+							projectId,
+							serverId,
+						);
 						if (existingDeletion) {
 							// Use same tiebreaker logic as edit-vs-edit
 							const editWins = shouldApplyChange(
@@ -142,49 +520,104 @@ export function registerRoutes(app: FastifyInstance, db: DB) {
 								});
 								continue;
 							}
-							clearDeletion(db, serverId);
+							clearDeletion(db, projectId, serverId);
 						}
 
-						const existing = getTodoByServerId(db, serverId);
+						const existing = getTodoByServerId(db, projectId, serverId);
+						const incoming: TodoValues = {
+							title: todo.title,
+							notes: todo.notes,
+							when,
+							startDate: todo.startDate ?? null,
+							deadline: todo.deadline ?? null,
+							tags: todo.tags,
+							status: todo.status,
+							position,
+							headingId: resolveHeadingId(
+								db,
+								projectId,
+								todo,
+								existing?.headingId ?? null,
+								headingIdsByClientId,
+							),
+						};
+						const incomingFieldEditedAt = editedFields(todo);
+						// Private fields go to the member's overlay, not the shared todo
+						const privateEdits: FieldTimestamps = {};
+						for (const field of privateFields) {
+							const editedAt = incomingFieldEditedAt[field];
+							if (!editedAt) continue;
+							privateEdits[field] = editedAt;
+							delete incomingFieldEditedAt[field];
+						}
+
+						let values: TodoValues = existing
+							? incoming
+							: { ...incoming, ...unsetValues(privateFields) };
+						let changed = true;
+						let fieldEditedAt: FieldTimestamps = {
+							...Object.fromEntries(
+								TODO_FIELDS.map((field) => [field, todo.editedAt]),
+							),
+							...incomingFieldEditedAt,
+						};
 						if (existing) {
-							const shouldApply = shouldApplyChange(
-								todo.editedAt,
-								existing.editedAt,
+							const merge = mergeTodoFields(
+								existing,
+								incoming,
+								incomingFieldEditedAt,
 								userId,
-								existing.updatedBy,
 							);
-							if (!shouldApply) {
+							if (merge.lostFields.length > 0) {
 								conflicts.push({
 									serverId,
 									reason: "Remote edit was newer",
+									fields: merge.lostFields,
 									serverTodo: toTodo(existing),
 									clientTodo: todo,
 								});
-								continue;
 							}
-						} else if (todo.serverId) {
-							// If serverId provided but doesn't exist, keep it for idempotency
+							values = merge.values;
+							fieldEditedAt = merge.fieldEditedAt;
+							changed = merge.changed;
 						}
 
-						upsertTodo(
+						if (changed) {
+							upsertTodo(
+								db,
+								projectId,
+								serverId,
+								{
+									...values,
+									editedAt: latestTimestamp(fieldEditedAt),
+									fieldEditedAt,
+								},
+								userId,
+							);
+						}
+						savePrivateEdits(
 							db,
+							projectId,
 							serverId,
-							{
-								title: todo.title,
-								notes: todo.notes,
-								dueDate: todo.dueDate,
-								tags: todo.tags,
-								status: todo.status,
-								position,
-								editedAt: todo.editedAt,
-							},
 							userId,
+							incoming,
+							privateEdits,
 						);
 
 						if (!todo.serverId && todo.clientId) {
 							mappings?.push({ serverId, clientId: todo.clientId });
 						}
 					}
+
+					if (checklistItems) {
+						checklistResult = applyChecklistChanges(
+							db,
+							projectId,
+							userId,
+							checklistItems,
+							new Map(mappings.map((m) => [m.clientId, m.serverId])),
+						);
+					}
 				});
 
 				transaction();
@@ -193,33 +626,63 @@ export function registerRoutes(app: FastifyInstance, db: DB) {
 				// Check for UNIQUE constraint violation
 				if (error.message?.includes("UNIQUE constraint failed")) {
 					reply.status(409);
+					// Only owners may reset the server side (see /reset)
+					const fix =
+						request.project.role === "owner"
+							? 'Run "shared-things reset --server" to start fresh.'
+							: 'Empty the Things project and run "shared-things reset --local" to start fresh from the server.';
 					return {
-						error:
-							'Sync conflict: Server has data that conflicts with your local state. Run "shared-things reset --server" to start fresh.',
+						error: `Sync conflict: Server has data that conflicts with your local state. ${fix}`,
 						code: "SYNC_CONFLICT",
 					} as any;
 				}
 				throw err;
 			}
 
-			// Return current state
-			const currentTodos = getAllTodos(db);
+			if (hasChanges(request.body)) {
+				notifier.publish(projectId);
+			}
+
+			// Current state only on request: clients pull changes via /delta
+			const state: ProjectState | undefined = request.body.includeState
+				? {
+						todos: personalize(
+							getAllTodos(db, projectId),
+							getTodoOverlays(db, projectId, userId),
+							privateFields,
+						) as ProjectState["todos"],
+						headings: getAllHeadings(db, projectId),
+						checklistItems: getAllChecklistItems(db, projectId),
+						syncedAt: new Date().toISOString(),
+						cursor: getCurrentSeq(db),
+					}
+				: undefined;
 
 			return {
-				state: {
-					todos: currentTodos as ProjectState["todos"],
-					syncedAt: new Date().toISOString(),
-				},
+				state,
 				conflicts,
 				mappings: mappings?.length ? mappings : undefined,
+				headingConflicts: headingResult.conflicts.length
+					? headingResult.conflicts
+					: undefined,
+				headingMappings: headingResult.mappings.length
+					? headingResult.mappings
+					: undefined,
+				checklistConflicts: checklistResult.conflicts.length
+					? checklistResult.conflicts
+					: undefined,
+				checklistMappings: checklistResult.mappings.length
+					? checklistResult.mappings
+					: undefined,
 			};
 		},
 	);
 
 	// Reset user data (for clean fresh start)
-	app.delete("/reset", async (request) => {
+	app.delete("/reset", { preHandler: ownerOnly }, async (request) => {
 		const userId = request.user.id;
-		const result = resetUserData(db, userId);
+		const result = resetUserData(db, request.project.id, userId);
+		notifier.publish(request.project.id);
 
 		return {
 			success: true,
@@ -230,6 +693,538 @@ export function registerRoutes(app: FastifyInstance, db: DB) {
 	});
 }
 
+/**
+ * Recreate a deleted todo from its tombstone. The restore counts as a new
+ * edit so it wins over the deletion on every client.
+ */
+function restoreTodo(
+	db: DB,
+	projectId: string,
+	deleted: DeletedTodo,
+	userId: string,
+): Todo {
+	const now = new Date().toISOString();
+	const fieldEditedAt: FieldTimestamps = Object.fromEntries(
+		TODO_FIELDS.map((field) => [field, now]),
+	);
+	const { headingId } = deleted.todo;
+
+	clearDeletion(db, projectId, deleted.id);
+	upsertTodo(
+		db,
+		projectId,
+		deleted.id,
+		{
+			...deleted.todo,
+			// The heading may have been deleted in the meantime
+			headingId:
+				headingId && getHeadingByServerId(db, projectId, headingId)
+					? headingId
+					: null,
+			editedAt: now,
+			fieldEditedAt,
+		},
+		userId,
+	);
+	const restored = getTodoByServerId(db, projectId, deleted.id);
+	if (!restored) throw new Error(`Failed to restore todo ${deleted.id}`);
+	for (const item of deleted.checklistItems) {
+		clearDeletion(db, projectId, item.id);
+		upsertChecklistItem(
+			db,
+			projectId,
+			item.id,
+			{
+				todoId: deleted.id,
+				title: item.title,
+				completed: item.completed,
+				position: item.position,
+				editedAt: now,
+			},
+			userId,
+		);
+	}
+
+	return toTodo(restored);
+}
+
+interface HeadingPushResult {
+	conflicts: HeadingConflict[];
+	mappings: { serverId: string; clientId: string }[];
+}
+
+/**
+ * Apply pushed heading changes. Runs inside the push transaction, before
+ * todos, using the same last-edit-wins rules.
+ */
+function applyHeadingChanges(
+	db: DB,
+	projectId: string,
+	userId: string,
+	changes: NonNullable<PushRequest["headings"]>,
+): HeadingPushResult {
+	const conflicts: HeadingConflict[] = [];
+	const mappings: HeadingPushResult["mappings"] = [];
+
+	for (const deletion of changes.deleted) {
+		const existing = getHeadingByServerId(db, projectId, deletion.serverId);
+		if (!existing) continue;
+
+		const shouldDelete = shouldApplyChange(
+			deletion.deletedAt,
+			existing.editedAt,
+			userId,
+			existing.updatedBy,
+		);
+		if (!shouldDelete) {
+			conflicts.push({
+				serverId: deletion.serverId,
+				reason: "Remote edit was newer",
+				serverHeading: toHeading(existing),
+				clientDeletedAt: deletion.deletedAt,
+			});
+			continue;
+		}
+
+		deleteHeadingByServerId(db, projectId, deletion.serverId);
+		recordDeletion(
+			db,
+			projectId,
+			deletion.serverId,
+			deletion.deletedAt,
+			userId,
+			"heading",
+		);
+	}
+
+	for (const heading of changes.upserted) {
+		// Headings are identified by title, so two clients creating
+		// "This week" end up sharing the existing heading
+		const sameTitle = heading.serverId
+			? null
+			: getHeadingByTitle(db, projectId, heading.title);
+		if (sameTitle && heading.clientId) {
+			mappings.push({ serverId: sameTitle.id, clientId: heading.clientId });
+			continue;
+		}
+
+		const serverId = heading.serverId || crypto.randomUUID();
+
+		const existingDeletion = getDeletedByServerId(db, projectId, serverId);
+		if (existingDeletion) {
+			const editWins = shouldApplyChange(
+				heading.editedAt,
+				existingDeletion.deletedAt,
+				userId,
+				existingDeletion.deletedBy,
+			);
+			if (!editWins) {
+				conflicts.push({
+					serverId,
+					reason: "Remote delete was newer",
+					serverHeading: null,
+					clientHeading: heading,
+				});
+				continue;
+			}
+			clearDeletion(db, projectId, serverId);
+		}
+
+		const existing = getHeadingByServerId(db, projectId, serverId);
+		if (existing) {
+			const shouldApply = shouldApplyChange(
+				heading.editedAt,
+				existing.editedAt,
+				userId,
+				existing.updatedBy,
+			);
+			if (!shouldApply) {
+				conflicts.push({
+					serverId,
+					reason: "Remote edit was newer",
+					serverHeading: toHeading(existing),
+					clientHeading: heading,
+				});
+				continue;
+			}
+		}
+
+		upsertHeading(
+			db,
+			projectId,
+			serverId,
+			{
+				title: heading.title,
+				position:
+					typeof heading.position === "number" &&
+					Number.isFinite(heading.position)
+						? heading.position
+						: 0,
+				editedAt: heading.editedAt,
+			},
+			userId,
+		);
+
+		if (!heading.serverId && heading.clientId) {
+			mappings.push({ serverId, clientId: heading.clientId });
+		}
+	}
+
+	return { conflicts, mappings };
+}
+
+/**
+ * Work out which heading a pushed todo belongs under. Clients that don't
+ * send a heading keep the stored one; unknown headings fall back to none.
+ */
+function resolveHeadingId(
+	db: DB,
+	projectId: string,
+	todo: PushTodo,
+	currentHeadingId: string | null,
+	headingIdsByClientId: Map<string, string>,
+): string | null {
+	const headingId = todo.headingClientId
+		? headingIdsByClientId.get(todo.headingClientId)
+		: todo.headingId;
+
+	if (headingId === undefined && !todo.headingClientId) {
+		return currentHeadingId;
+	}
+	if (!headingId || !getHeadingByServerId(db, projectId, headingId)) {
+		return null;
+	}
+	return headingId;
+}
+
+interface ChecklistPushResult {
+	conflicts: ChecklistItemConflict[];
+	mappings: { serverId: string; clientId: string }[];
+}
+
+/**
+ * Apply pushed checklist changes. Runs inside the push transaction, after
+ * todos, so items can reference todos created in the same push by client ID.
+ */
+function applyChecklistChanges(
+	db: DB,
+	projectId: string,
+	userId: string,
+	changes: NonNullable<PushRequest["checklistItems"]>,
+	todoIdsByClientId: Map<string, string>,
+): ChecklistPushResult {
+	const conflicts: ChecklistItemConflict[] = [];
+	const mappings: ChecklistPushResult["mappings"] = [];
+
+	for (const deletion of changes.deleted) {
+		const existing = getChecklistItemByServerId(
+			db,
+			projectId,
+			deletion.serverId,
+		);
+		if (!existing) {
+			// Already gone (e.g. parent todo was deleted)
+			continue;
+		}
+
+		const shouldDelete = shouldApplyChange(
+			deletion.deletedAt,
+			existing.editedAt,
+			userId,
+			existing.updatedBy,
+		);
+		if (!shouldDelete) {
+			conflicts.push({
+				serverId: deletion.serverId,
+				reason: "Remote edit was newer",
+				serverItem: toChecklistItem(existing),
+				clientDeletedAt: deletion.deletedAt,
+			});
+			continue;
+		}
+
+		deleteChecklistItemByServerId(db, projectId, deletion.serverId);
+		recordDeletion(
+			db,
+			projectId,
+			deletion.serverId,
+			deletion.deletedAt,
+			userId,
+			"checklist_item",
+		);
+	}
+
+	for (const item of changes.upserted) {
+		const serverId = item.serverId || crypto.randomUUID();
+		const todoId = resolveParentTodoId(item, todoIdsByClientId);
+
+		if (!todoId || !getTodoByServerId(db, projectId, todoId)) {
+			conflicts.push({
+				serverId,
+				reason: "Parent todo not found",
+				serverItem: null,
+				clientItem: item,
+			});
+			continue;
+		}
+
+		const existingDeletion = getDeletedByServerId(db, projectId, serverId);
+		if (existingDeletion) {
+			const editWins = shouldApplyChange(
+				item.editedAt,
+				existingDeletion.deletedAt,
+				userId,
+				existingDeletion.deletedBy,
+			);
+			if (!editWins) {
+				conflicts.push({
+					serverId,
+					reason: "Remote delete was newer",
+					serverItem: null,
+					clientItem: item,
+				});
+				continue;
+			}
+			clearDeletion(db, projectId, serverId);
+		}
+
+		const existing = getChecklistItemByServerId(db, projectId, serverId);
+		if (existing) {
+			const shouldApply = shouldApplyChange(
+				item.editedAt,
+				existing.editedAt,
+				userId,
+				existing.updatedBy,
+			);
+			if (!shouldApply) {
+				conflicts.push({
+					serverId,
+					reason: "Remote edit was newer",
+					serverItem: toChecklistItem(existing),
+					clientItem: item,
+				});
+				continue;
+			}
+		}
+
+		upsertChecklistItem(
+			db,
+			projectId,
+			serverId,
+			{
+				todoId,
+				title: item.title,
+				completed: item.completed === true,
+				position:
+					typeof item.position === "number" && Number.isFinite(item.position)
+						? item.position
+						: 0,
+				editedAt: item.editedAt,
+			},
+			userId,
+		);
+
+		if (!item.serverId && item.clientId) {
+			mappings.push({ serverId, clientId: item.clientId });
+		}
+	}
+
+	return { conflicts, mappings };
+}
+
+function resolveParentTodoId(
+	item: PushChecklistItem,
+	todoIdsByClientId: Map<string, string>,
+): string | undefined {
+	if (item.todoServerId) return item.todoServerId;
+	if (item.todoClientId) return todoIdsByClientId.get(item.todoClientId);
+	return undefined;
+}
+
+type TodoValues = Pick<Todo, TodoField>;
+
+/**
+ * Fields a pushed todo edited, with their timestamps. Older clients send no
+ * per-field data, so every field counts as edited at editedAt; a todo that
+ * says nothing about its heading leaves it alone.
+ */
+function editedFields(todo: PushTodo): FieldTimestamps {
+	const fields: FieldTimestamps = {};
+	for (const field of TODO_FIELDS) {
+		const editedAt = todo.fieldEditedAt
+			? todo.fieldEditedAt[field]
+			: todo.editedAt;
+		if (editedAt) fields[field] = editedAt;
+	}
+	if (todo.headingId === undefined && !todo.headingClientId) {
+		delete fields.headingId;
+	}
+	return fields;
+}
+
+/**
+ * Three-way merge of a pushed todo into the stored one, field by field.
+ * Each edited field wins or loses on its own timestamp, so concurrent edits
+ * to different fields both survive. Only an edited field that loses with a
+ * different value counts as a conflict.
+ */
+function mergeTodoFields(
+	existing: TodoValues & {
+		editedAt: string;
+		fieldEditedAt: FieldTimestamps;
+		updatedBy: string;
+	},
+	incoming: TodoValues,
+	incomingFieldEditedAt: FieldTimestamps,
+	userId: string,
+): {
+	values: TodoValues;
+	fieldEditedAt: FieldTimestamps;
+	changed: boolean;
+	lostFields: TodoField[];
+} {
+	const values: TodoValues = { ...existing };
+	const fieldEditedAt: FieldTimestamps = {};
+	const lostFields: TodoField[] = [];
+	let changed = false;
+
+	for (const field of TODO_FIELDS) {
+		const storedEditedAt = existing.fieldEditedAt[field] ?? existing.editedAt;
+		fieldEditedAt[field] = storedEditedAt;
+
+		const editedAt = incomingFieldEditedAt[field];
+		if (!editedAt) continue;
+
+		if (
+			shouldApplyChange(editedAt, storedEditedAt, userId, existing.updatedBy)
+		) {
+			Object.assign(values, { [field]: incoming[field] });
+			fieldEditedAt[field] = editedAt;
+			changed = true;
+		} else if (
+			JSON.stringify(incoming[field]) !== JSON.stringify(existing[field])
+		) {
+			lostFields.push(field);
+		}
+	}
+
+	return { values, fieldEditedAt, changed, lostFields };
+}
+
+/**
+ * Shared value of private fields on todos created while they are private,
+ * so one member's choice doesn't become everyone's starting point
+ */
+function unsetValues(privateFields: TodoField[]): Partial<TodoValues> {
+	const unset: Partial<TodoValues> = {
+		when: "anytime",
+		startDate: null,
+		deadline: null,
+		tags: [],
+	};
+	return Object.fromEntries(
+		privateFields.filter((field) => field in unset).map((f) => [f, unset[f]]),
+	);
+}
+
+/**
+ * Store a member's edits to private fields in their overlay. Only their own
+ * devices write it, so the newer edit of each field simply wins.
+ */
+function savePrivateEdits(
+	db: DB,
+	projectId: string,
+	todoId: string,
+	userId: string,
+	incoming: TodoValues,
+	edits: FieldTimestamps,
+): void {
+	const overlay: TodoOverlay = getTodoOverlay(
+		db,
+		projectId,
+		todoId,
+		userId,
+	) ?? { values: {}, fieldEditedAt: {} };
+	let changed = false;
+
+	for (const [field, editedAt] of Object.entries(edits) as [
+		TodoField,
+		string,
+	][]) {
+		const storedEditedAt = overlay.fieldEditedAt[field];
+		if (storedEditedAt && compareIso(editedAt, storedEditedAt) < 0) continue;
+		overlay.values = { ...overlay.values, [field]: incoming[field] };
+		overlay.fieldEditedAt[field] = editedAt;
+		changed = true;
+	}
+
+	if (changed) {
+		upsertTodoOverlay(db, projectId, todoId, userId, overlay);
+	}
+}
+
+/**
+ * Todos as one member sees them: their own value of each private field
+ * they have set, the shared value otherwise
+ */
+function personalize<
+	T extends TodoValues & {
+		id: string;
+		editedAt: string;
+		fieldEditedAt: FieldTimestamps;
+	},
+>(
+	todos: T[],
+	overlays: Map<string, TodoOverlay>,
+	privateFields: TodoField[],
+): T[] {
+	return todos.map((todo) => {
+		const overlay = overlays.get(todo.id);
+		const fields = privateFields.filter(
+			(field) => overlay && field in overlay.values,
+		);
+		if (!overlay || fields.length === 0) return todo;
+
+		const personal: T = {
+			...todo,
+			fieldEditedAt: { ...todo.fieldEditedAt },
+		};
+		for (const field of fields) {
+			Object.assign(personal, { [field]: overlay.values[field] });
+			const editedAt = overlay.fieldEditedAt[field] ?? todo.editedAt;
+			personal.fieldEditedAt[field] = editedAt;
+			if (compareIso(editedAt, personal.editedAt) > 0) {
+				personal.editedAt = editedAt;
+			}
+		}
+		return personal;
+	});
+}
+
+function latestTimestamp(timestamps: FieldTimestamps): string {
+	return Object.values(timestamps).reduce((latest, editedAt) =>
+		compareIso(editedAt, latest) > 0 ? editedAt : latest,
+	);
+}
+
+/**
+ * Page size from a query parameter, capped at MAX_PAGE_LIMIT (undefined when
+ * not paging, null when invalid)
+ */
+function parseLimit(value: string | undefined): number | null | undefined {
+	if (value === undefined) return undefined;
+	const limit = Number(value);
+	if (!Number.isInteger(limit) || limit < 1) return null;
+	return Math.min(limit, MAX_PAGE_LIMIT);
+}
+
+function hasChanges(body: PushRequest): boolean {
+	return [body.todos, body.headings, body.checklistItems].some(
+		(changes) =>
+			changes && (changes.upserted.length > 0 || changes.deleted.length > 0),
+	);
+}
+
 function compareIso(a: string, b: string): number {
 	return new Date(a).getTime() - new Date(b).getTime();
 }
@@ -250,22 +1245,66 @@ function toTodo(todo: {
 	id: string;
 	title: string;
 	notes: string;
-	dueDate: string | null;
+	when: TodoWhen;
+	startDate: string | null;
+	deadline: string | null;
 	tags: string[];
 	status: "open" | "completed" | "canceled";
 	position: number;
+	headingId: string | null;
 	editedAt: string;
+	fieldEditedAt: FieldTimestamps;
 	updatedAt: string;
 }): Todo {
 	return {
 		id: todo.id,
 		title: todo.title,
 		notes: todo.notes,
-		dueDate: todo.dueDate,
+		when: todo.when,
+		startDate: todo.startDate,
+		deadline: todo.deadline,
 		tags: todo.tags,
 		status: todo.status,
 		position: todo.position,
+		headingId: todo.headingId,
 		editedAt: todo.editedAt,
+		fieldEditedAt: todo.fieldEditedAt,
 		updatedAt: todo.updatedAt,
 	};
 }
+
+function toHeading(heading: {
+	id: string;
+	title: string;
+	position: number;
+	editedAt: string;
+	updatedAt: string;
+}): Heading {
+	return {
+		id: heading.id,
+		title: heading.title,
+		position: heading.position,
+		editedAt: heading.editedAt,
+		updatedAt: heading.updatedAt,
+	};
+}
+
+function toChecklistItem(item: {
+	id: string;
+	todoId: string;
+	title: string;
+	completed: boolean;
+	position: number;
+	editedAt: string;
+	updatedAt: string;
+}): ChecklistItem {
+	return {
+		id: item.id,
+		todoId: item.todoId,
+		title: item.title,
+		completed: item.completed,
+		position: item.position,
+		editedAt: item.editedAt,
+		updatedAt: item.updatedAt,
+	};
+}
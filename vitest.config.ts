@@ -3,6 +3,9 @@ import { defineConfig } from "vitest/config";
 export default defineConfig({
 	test: {
 		// Project configurations
-		projects: ["packages/server/vitest.config.ts"],
+		projects: [
+			"packages/server/vitest.config.ts",
+			"packages/daemon/vitest.config.ts",
+		],
 	},
 });